@@ -0,0 +1,119 @@
+import { AnimationGroup } from '@babylonjs/core';
+import { LocomotionState } from '../game/LocomotionStateMachine';
+
+// Animation clips a rigged Bean model can provide, matched to glTF animation names
+export type BeanClip = 'idle' | 'walk' | 'run' | 'sit' | 'jump' | 'wag';
+export const BEAN_CLIPS: BeanClip[] = ['idle', 'walk', 'run', 'sit', 'jump', 'wag'];
+
+export type ClipWeights = Record<BeanClip, number>;
+
+// Speeds (m/s) the walk and run clips were authored at; playback is scaled to match
+export const WALK_CLIP_SPEED = 6;
+export const RUN_CLIP_SPEED = 12;
+
+// How fast weights move towards their targets (per second), so clips crossfade
+const BLEND_SPEED = 8;
+
+/**
+ * How much each clip should contribute for a locomotion state and horizontal speed.
+ * Moving blends idle into walk up to walking pace, then walk into run; the tail wags
+ * on top whenever Bean is relaxed.
+ */
+export function computeClipWeights(state: LocomotionState, speed: number): ClipWeights {
+  const weights: ClipWeights = { idle: 0, walk: 0, run: 0, sit: 0, jump: 0, wag: 0 };
+  switch (state) {
+    case LocomotionState.JUMP:
+    case LocomotionState.FALL:
+      weights.jump = 1;
+      break;
+    case LocomotionState.SIT:
+    case LocomotionState.LIE_DOWN:
+      weights.sit = 1;
+      weights.wag = 1;
+      break;
+    default: {
+      const walk = Math.min(1, speed / WALK_CLIP_SPEED);
+      const run = Math.max(0, Math.min(1, (speed - WALK_CLIP_SPEED) / (RUN_CLIP_SPEED - WALK_CLIP_SPEED)));
+      weights.idle = 1 - walk;
+      weights.walk = walk - run;
+      weights.run = run;
+      weights.wag = 1 - run;
+    }
+  }
+  return weights;
+}
+
+/**
+ * Drives a rigged model's animation groups: every clip loops continuously and
+ * only its weight changes, so gaits stay in step while blending between them.
+ */
+export class BeanAnimator {
+  private clips: Map<BeanClip, AnimationGroup> = new Map();
+  private weights: ClipWeights = { idle: 1, walk: 0, run: 0, sit: 0, jump: 0, wag: 0 };
+  private wagSpeed: number = 1;
+  private wagAmount: number = 1;
+
+  // Groups are matched to clips by name, ignoring case and any prefix like "Armature|"
+  constructor(groups: AnimationGroup[]) {
+    groups.forEach(group => {
+      const name = group.name.toLowerCase().split('|').pop() as BeanClip;
+      if (BEAN_CLIPS.includes(name)) {
+        this.clips.set(name, group);
+      }
+      group.stop();
+    });
+
+    const missing = BEAN_CLIPS.filter(clip => !this.clips.has(clip));
+    if (missing.length > 0) {
+      console.warn(`Bean model is missing animation clips: ${missing.join(', ')}`);
+    }
+
+    this.clips.forEach((group, clip) => {
+      group.weight = this.weights[clip];
+      group.play(true);
+    });
+  }
+
+  hasClip(clip: BeanClip): boolean {
+    return this.clips.has(clip);
+  }
+
+  getWeight(clip: BeanClip): number {
+    return this.weights[clip];
+  }
+
+  // Scales the wag clip's speed and strength relative to how it was authored, to follow Bean's mood
+  setWag(speed: number, amount: number): void {
+    this.wagSpeed = speed;
+    this.wagAmount = Math.max(0, Math.min(1, amount));
+  }
+
+  update(state: LocomotionState, speed: number, deltaTime: number): void {
+    const targets = computeClipWeights(state, speed);
+    targets.wag *= this.wagAmount;
+    const step = BLEND_SPEED * deltaTime;
+
+    BEAN_CLIPS.forEach(clip => {
+      const remaining = targets[clip] - this.weights[clip];
+      this.weights[clip] = Math.abs(remaining) <= step
+        ? targets[clip]
+        : this.weights[clip] + Math.sign(remaining) * step;
+
+      const group = this.clips.get(clip);
+      if (group) group.weight = this.weights[clip];
+    });
+
+    // Match the stride to the ground speed so paws don't slide
+    const walk = this.clips.get('walk');
+    if (walk) walk.speedRatio = Math.max(0.5, Math.min(2, speed / WALK_CLIP_SPEED));
+    const run = this.clips.get('run');
+    if (run) run.speedRatio = Math.max(0.5, Math.min(2, speed / RUN_CLIP_SPEED));
+    const wag = this.clips.get('wag');
+    if (wag) wag.speedRatio = Math.max(0.1, this.wagSpeed);
+  }
+
+  dispose(): void {
+    this.clips.forEach(group => group.dispose());
+    this.clips.clear();
+  }
+}
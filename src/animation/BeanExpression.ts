@@ -0,0 +1,89 @@
+import { TransformNode, Scalar } from '@babylonjs/core';
+import { MoodExpression } from '../game/MoodModel';
+
+// The parts of the procedural model that show how Bean feels
+export interface ExpressionParts {
+  tail: TransformNode;  // Pivots at the base
+  leftEar: TransformNode;
+  rightEar: TransformNode;
+  leftEye: TransformNode;
+  rightEye: TransformNode;
+  tongue: TransformNode;
+}
+
+const EXPRESSION_SPEED = 3;  // How fast expressions follow mood changes (blend per second)
+const BLINK_DURATION = 0.15;
+const PANT_RATE = 3;         // Pants per second
+const EAR_SPREAD = 0.3;      // Relaxed outward lean of the ears (rad)
+
+/**
+ * Poses the tail, ears, eyes and tongue from a mood expression every frame:
+ * wagging, ears pricked or flattened, blinking and heavy lids, and the tongue
+ * hanging out while panting.
+ */
+export class BeanExpression {
+  private parts: ExpressionParts;
+  private random: () => number;
+  private current: MoodExpression | null = null;
+  private wagPhase: number = 0;
+  private blinkTimer: number;
+  private blinkTime: number = 0;
+  private pantAmount: number = 0;
+  private pantPhase: number = 0;
+
+  constructor(parts: ExpressionParts, random: () => number = Math.random) {
+    this.parts = parts;
+    this.random = random;
+    this.blinkTimer = 2 + random() * 2;
+    parts.tongue.setEnabled(false);
+  }
+
+  update(target: MoodExpression, panting: boolean, deltaTime: number): void {
+    const blend = Math.min(1, deltaTime * EXPRESSION_SPEED);
+    if (!this.current) {
+      this.current = { ...target };
+    } else {
+      const current = this.current;
+      (Object.keys(target) as (keyof MoodExpression)[]).forEach(key => {
+        current[key] += (target[key] - current[key]) * blend;
+      });
+    }
+    const expression = this.current;
+    const { tail, leftEar, rightEar, leftEye, rightEye, tongue } = this.parts;
+
+    // Tail: held high to tucked away, wagging side to side about its base
+    this.wagPhase = (this.wagPhase + expression.wagSpeed * deltaTime) % 1;
+    tail.rotation.x = expression.tailLift >= 0
+      ? -0.9 + 0.7 * expression.tailLift
+      : -0.9 + 1.7 * expression.tailLift;
+    tail.rotation.y = Math.sin(this.wagPhase * Math.PI * 2) * expression.wagAmplitude;
+
+    // Ears tip forward when pricked, lie back and outwards when flattened
+    const earLift = expression.earLift;
+    const earTilt = earLift < 0 ? earLift : earLift * 0.15;
+    const earSpread = EAR_SPREAD * (1 - 0.5 * earLift);
+    leftEar.rotation.x = earTilt;
+    rightEar.rotation.x = earTilt;
+    leftEar.rotation.z = earSpread;
+    rightEar.rotation.z = -earSpread;
+
+    // Blinks close the eyes fully, at a rate set by the mood
+    this.blinkTimer -= deltaTime;
+    if (this.blinkTimer <= 0) {
+      this.blinkTime = BLINK_DURATION;
+      this.blinkTimer = expression.blinkInterval * (0.5 + this.random());
+    }
+    this.blinkTime = Math.max(0, this.blinkTime - deltaTime);
+    const blink = Math.sin((this.blinkTime / BLINK_DURATION) * Math.PI);
+    const openness = Scalar.Clamp(expression.eyeOpenness * (1 - blink), 0.1, 1);
+    leftEye.scaling.y = openness;
+    rightEye.scaling.y = openness;
+
+    // Tongue slides out and bobs with each pant
+    this.pantAmount += ((panting ? 1 : 0) - this.pantAmount) * blend;
+    this.pantPhase = (this.pantPhase + PANT_RATE * deltaTime) % 1;
+    tongue.setEnabled(this.pantAmount > 0.05);
+    tongue.scaling.z = this.pantAmount;
+    tongue.rotation.x = 0.3 + Math.sin(this.pantPhase * Math.PI * 2) * 0.15 * this.pantAmount;
+  }
+}
@@ -0,0 +1,163 @@
+import {
+  Scene,
+  TransformNode,
+  Mesh,
+  MeshBuilder,
+  Material,
+  Vector3,
+  Matrix,
+  Bone,
+  BoneIKController
+} from '@babylonjs/core';
+
+// Anything that can put a paw where the gait wants it
+export interface LegSolver {
+  reach(foot: Vector3, blend: number): void;
+  dispose(): void;
+}
+
+export interface TwoBoneAngles {
+  roll: number;  // Sideways swing at the hip (rad)
+  hip: number;   // Hip rotation about X, positive swings the leg backwards (rad)
+  knee: number;  // Knee rotation about X relative to the upper leg (rad)
+}
+
+/**
+ * Analytic two-bone IK for a leg hanging straight down at rest. `target` is the
+ * paw relative to the hip in the body's space. Targets out of reach get the leg
+ * pointed straight at them. Knees bend forward for back legs and backwards for
+ * front legs, like a dog's stifle and elbow.
+ */
+export function solveTwoBone(target: Vector3, upper: number, lower: number, kneeForward: boolean): TwoBoneAngles {
+  const roll = Math.atan2(target.x, -target.y);
+  const down = Math.hypot(target.x, target.y);
+  const distance = Math.max(Math.abs(upper - lower) + 0.001, Math.min(upper + lower - 0.001, target.length()));
+
+  // Interior angles of the hip-knee-paw triangle
+  const hipAngle = Math.acos((upper * upper + distance * distance - lower * lower) / (2 * upper * distance));
+  const kneeAngle = Math.acos((upper * upper + lower * lower - distance * distance) / (2 * upper * lower));
+
+  const side = kneeForward ? 1 : -1;
+  const forward = Math.atan2(target.z, down);
+  return {
+    roll,
+    hip: -(forward + side * hipAngle),
+    knee: side * (Math.PI - kneeAngle)
+  };
+}
+
+/**
+ * A leg built from two cylinders for the procedural model: a socket that swings
+ * the leg sideways, a hip pivot with the upper leg and a knee pivot with the
+ * lower leg. Roll gets its own node so it applies after the hip's pitch, which
+ * is the order solveTwoBone assumes.
+ */
+export class PrimitiveLeg implements LegSolver {
+  readonly socket: TransformNode;
+  readonly hip: TransformNode;
+  readonly knee: TransformNode;
+  readonly meshes: Mesh[] = [];
+  private upper: number;
+  private lower: number;
+  private kneeForward: boolean;
+
+  constructor(
+    name: string,
+    scene: Scene,
+    parent: TransformNode,
+    position: Vector3,
+    material: Material,
+    kneeForward: boolean,
+    upper: number,
+    lower: number
+  ) {
+    this.upper = upper;
+    this.lower = lower;
+    this.kneeForward = kneeForward;
+
+    this.socket = new TransformNode(`${name}Socket`, scene);
+    this.socket.position = position.clone();
+    this.socket.parent = parent;
+
+    this.hip = new TransformNode(`${name}Hip`, scene);
+    this.hip.parent = this.socket;
+
+    const thigh = MeshBuilder.CreateCylinder(`${name}Upper`, {
+      diameterTop: 0.12,
+      diameterBottom: 0.1,
+      height: upper,
+      tessellation: 6
+    }, scene);
+    thigh.position.y = -upper / 2;
+    thigh.parent = this.hip;
+
+    this.knee = new TransformNode(`${name}Knee`, scene);
+    this.knee.position.y = -upper;
+    this.knee.parent = this.hip;
+
+    const shin = MeshBuilder.CreateCylinder(`${name}Lower`, {
+      diameterTop: 0.09,
+      diameterBottom: 0.11,
+      height: lower,
+      tessellation: 6
+    }, scene);
+    shin.position.y = -lower / 2;
+    shin.parent = this.knee;
+
+    [thigh, shin].forEach(mesh => {
+      mesh.material = material;
+      mesh.receiveShadows = true;
+      this.meshes.push(mesh);
+    });
+  }
+
+  reach(foot: Vector3, blend: number): void {
+    const parent = this.socket.parent as TransformNode;
+    const local = Vector3.TransformCoordinates(foot, Matrix.Invert(parent.computeWorldMatrix(true)));
+    const angles = solveTwoBone(local.subtract(this.socket.position), this.upper, this.lower, this.kneeForward);
+    this.pose(angles.hip, angles.knee, blend, angles.roll);
+  }
+
+  // Holds a fixed pose instead, for sitting, lying down and jumping
+  pose(hip: number, knee: number, blend: number, roll: number = 0): void {
+    this.hip.rotation.x += (hip - this.hip.rotation.x) * blend;
+    this.knee.rotation.x += (knee - this.knee.rotation.x) * blend;
+    this.socket.rotation.z += (roll - this.socket.rotation.z) * blend;
+  }
+
+  dispose(): void {
+    this.socket.dispose();
+  }
+}
+
+/**
+ * A rigged model's leg, solved with Babylon's BoneIKController on the lower leg
+ * bone and its parent. Runs after the animation clips so it corrects their
+ * paw positions rather than replacing the whole stride.
+ */
+export class BoneLeg implements LegSolver {
+  private controller: BoneIKController;
+  private body: TransformNode;
+  private kneeForward: boolean;
+
+  constructor(mesh: TransformNode, bone: Bone, body: TransformNode, kneeForward: boolean) {
+    this.controller = new BoneIKController(mesh, bone);
+    this.body = body;
+    this.kneeForward = kneeForward;
+  }
+
+  reach(foot: Vector3, blend: number): void {
+    // Aim the knee in front of or behind the paw, in the direction the body faces
+    const forward = this.body.getDirection(Vector3.Forward());
+    this.controller.targetPosition.copyFrom(foot);
+    this.controller.poleTargetPosition.copyFrom(foot)
+      .addInPlace(forward.scale(this.kneeForward ? 1 : -1))
+      .addInPlaceFromFloats(0, 0.5, 0);
+    this.controller.slerpAmount = blend;
+    this.controller.update();
+  }
+
+  dispose(): void {
+    // Bones belong to the skeleton and go with the model
+  }
+}
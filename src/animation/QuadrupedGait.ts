@@ -0,0 +1,248 @@
+import { Vector3, Scalar } from '@babylonjs/core';
+
+// Footfall patterns, from a four-beat walk to a gallop with a moment in the air
+export type GaitName = 'walk' | 'trot' | 'gallop';
+
+export interface GaitPattern {
+  offsets: number[];      // When each paw lifts off, as a fraction of the cycle: FL, FR, BL, BR
+  dutyFactor: number;     // Fraction of the cycle each paw spends on the ground
+  strideLength: number;   // Ground covered per cycle (m); sets the cadence for a speed
+  liftHeight: number;     // How high paws rise mid-swing (m)
+  bounce: number;         // Body rise and fall (m)
+  bouncesPerCycle: number;
+}
+
+export const GAITS: Record<GaitName, GaitPattern> = {
+  // Lateral sequence: back left, front left, back right, front right; three paws down most of the time
+  walk: { offsets: [0.25, 0.75, 0, 0.5], dutyFactor: 0.6, strideLength: 1.15, liftHeight: 0.08, bounce: 0.015, bouncesPerCycle: 4 },
+  // Diagonal pairs move together
+  trot: { offsets: [0, 0.5, 0.5, 0], dutyFactor: 0.45, strideLength: 1.55, liftHeight: 0.12, bounce: 0.03, bouncesPerCycle: 2 },
+  // Rotary gallop: the back paws push off, then the front paws reach out
+  gallop: { offsets: [0.55, 0.65, 0, 0.1], dutyFactor: 0.3, strideLength: 2.4, liftHeight: 0.16, bounce: 0.05, bouncesPerCycle: 1 }
+};
+
+// Speeds (m/s) where Bean breaks into a trot and a gallop
+export const TROT_SPEED = 4.5;
+export const GALLOP_SPEED = 9;
+
+const MIN_GAIT_SPEED = 0.3;   // Slower than this Bean is standing, and paws only step to settle
+const SETTLE_DISTANCE = 0.12; // How far a standing paw can drift from under its hip before stepping
+const SETTLE_TIME = 0.15;     // Seconds for a settling step
+const MAX_DRIFT = 0.9;        // A paw further than this from its hip steps even mid-stride
+const RESET_DISTANCE = 2;     // Further than this (teleports, respawns) paws are replanted outright
+const MAX_STEP_UP = 0.55;     // Highest surface a paw will reach up to, e.g. the couch seat
+const MAX_STEP_DOWN = 0.4;    // Lowest a paw will reach below Bean's feet
+const MIN_PAWS_UP = 0.1;      // Surfaces in front at least this high get the front paws put up on them
+const PAW_REACH = 0.3;        // How far in front of its hip a front paw will reach up onto something
+const MAX_PITCH = 0.6;        // Body tilt limits (rad)
+const MAX_ROLL = 0.3;
+const TILT_SPEED = 8;         // How fast the body follows the paws (blend per second)
+
+// Height of the ground at a point, searching down from fromY, or null when there's nothing there
+export type GroundProbe = (x: number, z: number, fromY: number) => number | null;
+
+// Where Bean is this frame: root is the point on the ground under Bean's centre
+export interface GaitFrame {
+  root: Vector3;
+  yaw: number;
+  velocity: Vector3;
+}
+
+export interface Foot {
+  position: Vector3;  // World position of the paw
+  planted: boolean;
+}
+
+interface Swing {
+  from: Vector3;
+  progress: number;  // 0 at lift-off, 1 when the paw lands
+  duration: number;
+}
+
+export function chooseGait(speed: number): GaitName {
+  if (speed >= GALLOP_SPEED) return 'gallop';
+  if (speed >= TROT_SPEED) return 'trot';
+  return 'walk';
+}
+
+// Whether moving the cycle forward from `from` to `to` passes `mark`
+function crossesPhase(from: number, to: number, mark: number): boolean {
+  const travelled = (to - from + 1) % 1;
+  const untilMark = (mark - from + 1) % 1;
+  return travelled > 0 && untilMark > 0 && untilMark <= travelled;
+}
+
+/**
+ * Procedural quadruped stepping. Paws stay planted in the world while the body
+ * moves over them and swing to a spot found by ray casting when their turn in
+ * the footfall pattern comes, so they never slide. The body tilts and lifts to
+ * follow where the paws are. Knows nothing about meshes: the model reaches for
+ * `feet` with whatever legs it has (see LegIK).
+ */
+export class QuadrupedGait {
+  readonly feet: Foot[];
+  private hips: Vector3[];  // Where each leg meets the body, in body space: FL, FR, BL, BR
+  private probe: GroundProbe;
+  private swings: (Swing | null)[];
+  private phase: number = 0;
+  private gaitName: GaitName = 'walk';
+  private needsReset: boolean = true;
+  private pitch: number = 0;
+  private roll: number = 0;
+  private lift: number = 0;
+  private bounceAmount: number = 0;
+
+  constructor(hips: Vector3[], probe: GroundProbe) {
+    this.hips = hips;
+    this.probe = probe;
+    this.feet = hips.map(() => ({ position: Vector3.Zero(), planted: true }));
+    this.swings = hips.map(() => null);
+  }
+
+  get gait(): GaitName {
+    return this.gaitName;
+  }
+
+  // Body pitch to add to the pose, negative raises the nose (rad)
+  get bodyPitch(): number {
+    return this.pitch;
+  }
+
+  // Body roll to add to the pose, positive raises the right side (rad)
+  get bodyRoll(): number {
+    return this.roll;
+  }
+
+  // Body height relative to standing on flat ground (m)
+  get bodyLift(): number {
+    return this.lift;
+  }
+
+  // Rise and fall with each footfall (m); rigged models have this in their clips
+  get bounce(): number {
+    return this.bounceAmount;
+  }
+
+  // Plants every paw under its hip, e.g. after landing or standing up
+  reset(frame: GaitFrame): void {
+    this.feet.forEach((foot, index) => {
+      foot.position.copyFrom(this.getFootTarget(index, frame, Vector3.Zero()));
+      foot.planted = true;
+      this.swings[index] = null;
+    });
+    this.needsReset = false;
+  }
+
+  // While airborne, sitting or lying down: paws are posed by the model instead
+  suspend(deltaTime: number): void {
+    const blend = Math.min(1, deltaTime * TILT_SPEED);
+    this.pitch += (0 - this.pitch) * blend;
+    this.roll += (0 - this.roll) * blend;
+    this.lift += (0 - this.lift) * blend;
+    this.bounceAmount = 0;
+    this.needsReset = true;
+  }
+
+  update(frame: GaitFrame, deltaTime: number): void {
+    if (this.needsReset || Vector3.Distance(this.feet[0].position, frame.root) > RESET_DISTANCE) {
+      this.reset(frame);
+    }
+
+    const speed = Math.hypot(frame.velocity.x, frame.velocity.z);
+    const moving = speed > MIN_GAIT_SPEED;
+    if (moving) {
+      this.gaitName = chooseGait(speed);
+    }
+    const pattern = GAITS[this.gaitName];
+    const frequency = speed / pattern.strideLength;
+    const previousPhase = this.phase;
+    if (moving) {
+      this.phase = (this.phase + frequency * deltaTime) % 1;
+    }
+
+    // Paws land ahead of the hip by half the distance the body covers while they're down
+    const lead = moving
+      ? new Vector3(frame.velocity.x, 0, frame.velocity.z).scale(pattern.dutyFactor / frequency / 2)
+      : Vector3.Zero();
+
+    this.feet.forEach((foot, index) => {
+      const target = this.getFootTarget(index, frame, lead);
+      const swing = this.swings[index];
+
+      if (swing) {
+        swing.progress = Math.min(1, swing.progress + deltaTime / swing.duration);
+        Vector3.LerpToRef(swing.from, target, swing.progress, foot.position);
+        foot.position.y += Math.sin(swing.progress * Math.PI) * pattern.liftHeight;
+        if (swing.progress >= 1) {
+          foot.position.copyFrom(target);
+          foot.planted = true;
+          this.swings[index] = null;
+        }
+        return;
+      }
+
+      const drift = Vector3.Distance(foot.position, target);
+      const shouldStep = moving
+        ? crossesPhase(previousPhase, this.phase, pattern.offsets[index]) || drift > MAX_DRIFT
+        : drift > SETTLE_DISTANCE && this.swings.filter(Boolean).length < 2;
+      if (shouldStep) {
+        this.swings[index] = {
+          from: foot.position.clone(),
+          progress: 0,
+          duration: moving ? (1 - pattern.dutyFactor) / frequency : SETTLE_TIME
+        };
+        foot.planted = false;
+      }
+    });
+
+    this.updateBody(frame, moving ? pattern : null, deltaTime);
+  }
+
+  private updateBody(frame: GaitFrame, pattern: GaitPattern | null, deltaTime: number): void {
+    const heights = this.feet.map(foot => foot.position.y - frame.root.y);
+    const front = (heights[0] + heights[1]) / 2;
+    const back = (heights[2] + heights[3]) / 2;
+    const left = (heights[0] + heights[2]) / 2;
+    const right = (heights[1] + heights[3]) / 2;
+    const length = this.hips[0].z - this.hips[2].z;
+    const width = this.hips[1].x - this.hips[0].x;
+
+    const targetPitch = Scalar.Clamp(-Math.atan2(front - back, length), -MAX_PITCH, MAX_PITCH);
+    const targetRoll = Scalar.Clamp(Math.atan2(right - left, width), -MAX_ROLL, MAX_ROLL);
+    // The back legs carry the body; pitching about the middle would otherwise lift them off the ground
+    const targetLift = back + Math.sin(-targetPitch) * length / 2;
+
+    const blend = Math.min(1, deltaTime * TILT_SPEED);
+    this.pitch += (targetPitch - this.pitch) * blend;
+    this.roll += (targetRoll - this.roll) * blend;
+    this.lift += (targetLift - this.lift) * blend;
+    this.bounceAmount = pattern
+      ? Math.abs(Math.sin(this.phase * Math.PI * pattern.bouncesPerCycle)) * pattern.bounce
+      : 0;
+  }
+
+  private getFootTarget(index: number, frame: GaitFrame, lead: Vector3): Vector3 {
+    const hip = this.hips[index];
+    const sin = Math.sin(frame.yaw);
+    const cos = Math.cos(frame.yaw);
+    const x = frame.root.x + hip.x * cos + hip.z * sin + lead.x;
+    const z = frame.root.z - hip.x * sin + hip.z * cos + lead.z;
+    const y = this.probeGround(x, z, frame.root.y);
+
+    // Front paws go up on anything low right in front, like the couch seat
+    if (hip.z > 0) {
+      const aheadX = x + sin * PAW_REACH;
+      const aheadZ = z + cos * PAW_REACH;
+      const ahead = this.probeGround(aheadX, aheadZ, frame.root.y);
+      if (ahead - frame.root.y >= MIN_PAWS_UP && ahead > y) {
+        return new Vector3(aheadX, ahead, aheadZ);
+      }
+    }
+    return new Vector3(x, y, z);
+  }
+
+  private probeGround(x: number, z: number, groundY: number): number {
+    const hit = this.probe(x, z, groundY + MAX_STEP_UP);
+    return hit === null ? groundY : Math.max(groundY - MAX_STEP_DOWN, hit);
+  }
+}
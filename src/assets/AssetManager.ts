@@ -0,0 +1,324 @@
+import {
+  Scene,
+  SceneLoader,
+  AssetContainer,
+  InstantiatedEntries
+} from '@babylonjs/core';
+
+// One downloadable file, listed in public/assets/manifest.json
+export interface AssetEntry {
+  url: string;
+  size: number;    // Bytes, for download progress and checking the file
+  sha256: string;  // Hex digest; a cached copy with another hash is downloaded again
+  world?: string;  // Id of the world that needs it, for preloading
+}
+
+export interface AssetManifest {
+  version: number;
+  assets: Record<string, AssetEntry>;
+}
+
+export interface AssetProgress {
+  loaded: number;  // Bytes
+  total: number;   // Bytes, or 0 when unknown
+}
+
+export interface AssetLoadOptions {
+  signal?: AbortSignal;  // Stops waiting; the download stops too once nobody else wants it
+  onProgress?: (progress: AssetProgress) => void;
+}
+
+export const MANIFEST_URL = '/assets/manifest.json';
+const CACHE_NAME = 'bean-simulator-assets';
+const HASH_HEADER = 'X-Asset-SHA256';
+
+// A container being downloaded and parsed, shared by everyone who asked for it
+interface PendingContainer {
+  promise: Promise<AssetContainer>;
+  controller: AbortController;
+  listeners: Set<(progress: AssetProgress) => void>;
+  waiters: number;
+}
+
+// One manager per scene, so worlds can find it from the scene they're built in
+const managers = new WeakMap<Scene, AssetManager>();
+
+/**
+ * Downloads the large assets listed in the asset manifest once. Files are kept
+ * in Cache Storage between visits, checked against the manifest's hashes, and
+ * parsed into AssetContainers that stay in memory, so leaving a world and
+ * coming back doesn't download or parse it again. Worlds can be preloaded
+ * while the player is still on the menu.
+ */
+export class AssetManager {
+  private scene: Scene;
+  private source: string | AssetManifest;
+  private manifest?: Promise<AssetManifest>;
+  private containers: Map<string, AssetContainer> = new Map();
+  private pending: Map<string, PendingContainer> = new Map();
+
+  static get(scene: Scene): AssetManager | undefined {
+    return managers.get(scene);
+  }
+
+  constructor(scene: Scene, source: string | AssetManifest = MANIFEST_URL) {
+    this.scene = scene;
+    this.source = source;
+    managers.set(scene, this);
+    scene.onDisposeObservable.addOnce(() => this.dispose());
+  }
+
+  getManifest(): Promise<AssetManifest> {
+    if (!this.manifest) {
+      this.manifest = this.loadManifest();
+      // A failed fetch is tried again next time
+      this.manifest.catch(() => { this.manifest = undefined; });
+    }
+    return this.manifest;
+  }
+
+  // Parsed and ready to instantiate without waiting
+  isLoaded(id: string): boolean {
+    return this.containers.has(id);
+  }
+
+  // The file's bytes, from Cache Storage when the cached copy matches the manifest
+  async fetch(id: string, { signal, onProgress }: AssetLoadOptions = {}): Promise<ArrayBuffer> {
+    const entry = await this.getEntry(id);
+    const cache = await openCache();
+    const cached = await cache?.match(entry.url);
+    if (cached && cached.headers.get(HASH_HEADER) === entry.sha256) {
+      const bytes = await cached.arrayBuffer();
+      onProgress?.({ loaded: bytes.byteLength, total: bytes.byteLength });
+      return bytes;
+    }
+
+    const bytes = await download(entry, signal, onProgress);
+    if (!cache) return bytes;
+    if (await sha256(bytes) !== entry.sha256) {
+      // Most likely the manifest wasn't updated with the file; use it, but don't keep it
+      console.warn(`Asset "${id}" doesn't match its manifest hash, not caching it`);
+      return bytes;
+    }
+    try {
+      await cache.put(entry.url, new Response(bytes, { headers: { [HASH_HEADER]: entry.sha256 } }));
+    } catch (error) {
+      console.warn(`Couldn't cache asset "${id}":`, error);
+    }
+    return bytes;
+  }
+
+  // The parsed asset, kept in memory until released
+  loadContainer(id: string, { signal, onProgress }: AssetLoadOptions = {}): Promise<AssetContainer> {
+    const container = this.containers.get(id);
+    if (container) {
+      onProgress?.({ loaded: 1, total: 1 });
+      return Promise.resolve(container);
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    return this.wait(id, this.pending.get(id) ?? this.startLoading(id), signal, onProgress);
+  }
+
+  // Copies of the asset's meshes in the scene, sharing its geometry and materials.
+  // Disposing them leaves the asset loaded for next time.
+  async instantiate(id: string, options: AssetLoadOptions = {}): Promise<InstantiatedEntries> {
+    const container = await this.loadContainer(id, options);
+    options.signal?.throwIfAborted();
+    return container.instantiateModelsToScene(name => name, false, { doNotInstantiate: true });
+  }
+
+  // Loads everything a world needs in the background; failures are left for the world's own load to report
+  async preloadWorld(worldId: string): Promise<void> {
+    try {
+      const { assets } = await this.getManifest();
+      const ids = Object.keys(assets).filter(id => assets[id].world === worldId);
+      await Promise.all(ids.map(id => this.loadContainer(id)));
+    } catch (error) {
+      console.warn(`Couldn't preload world "${worldId}":`, error);
+    }
+  }
+
+  release(id: string): void {
+    this.containers.get(id)?.dispose();
+    this.containers.delete(id);
+  }
+
+  dispose(): void {
+    this.pending.forEach(pending => pending.controller.abort());
+    this.pending.clear();
+    Array.from(this.containers.keys()).forEach(id => this.release(id));
+    if (managers.get(this.scene) === this) managers.delete(this.scene);
+  }
+
+  private startLoading(id: string): PendingContainer {
+    const controller = new AbortController();
+    const listeners = new Set<(progress: AssetProgress) => void>();
+    const promise = this.parse(id, {
+      signal: controller.signal,
+      onProgress: progress => listeners.forEach(listener => listener(progress))
+    });
+    const pending: PendingContainer = { promise, controller, listeners, waiters: 0 };
+
+    // Abandoned loads reject with nobody waiting
+    promise.catch(() => undefined).finally(() => {
+      if (this.pending.get(id) === pending) this.pending.delete(id);
+    });
+    this.pending.set(id, pending);
+    return pending;
+  }
+
+  private async parse(id: string, { signal, onProgress }: AssetLoadOptions): Promise<AssetContainer> {
+    const entry = await this.getEntry(id);
+    const bytes = await this.fetch(id, { signal, onProgress });
+    signal?.throwIfAborted();
+    const extension = entry.url.slice(entry.url.lastIndexOf('.'));
+    const container = await SceneLoader.LoadAssetContainerAsync('', new Uint8Array(bytes), this.scene, null, extension);
+    if (signal?.aborted) {
+      container.dispose();
+      signal.throwIfAborted();
+    }
+    this.containers.set(id, container);
+    return container;
+  }
+
+  // Each caller waits on the shared load with its own signal; the load stops when the last one gives up
+  private wait(
+    id: string,
+    pending: PendingContainer,
+    signal?: AbortSignal,
+    onProgress?: (progress: AssetProgress) => void
+  ): Promise<AssetContainer> {
+    pending.waiters++;
+    if (onProgress) pending.listeners.add(onProgress);
+
+    return new Promise<AssetContainer>((resolve, reject) => {
+      let waiting = true;
+      // False when this caller has already stopped waiting
+      const leave = () => {
+        if (!waiting) return false;
+        waiting = false;
+        pending.waiters--;
+        if (onProgress) pending.listeners.delete(onProgress);
+        signal?.removeEventListener('abort', onAbort);
+        return true;
+      };
+      const onAbort = () => {
+        if (!leave()) return;
+        if (pending.waiters === 0) {
+          pending.controller.abort();
+          if (this.pending.get(id) === pending) this.pending.delete(id);
+        }
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      pending.promise.then(
+        container => { if (leave()) resolve(container); },
+        error => { if (leave()) reject(error); }
+      );
+    });
+  }
+
+  private async getEntry(id: string): Promise<AssetEntry> {
+    const entry = (await this.getManifest()).assets[id];
+    if (!entry) {
+      throw new Error(`Unknown asset: ${id}`);
+    }
+    return entry;
+  }
+
+  private async loadManifest(): Promise<AssetManifest> {
+    const data: unknown = typeof this.source === 'string'
+      ? await fetchManifest(this.source)
+      : this.source;
+    if (!isAssetManifest(data)) {
+      const invalid = isRecord(data) && isRecord(data.assets)
+        ? Object.keys(data.assets).find(id => !isAssetEntry((data.assets as Record<string, unknown>)[id]))
+        : undefined;
+      throw new Error(invalid
+        ? `Invalid asset manifest: "${invalid}" needs a url, size and sha256`
+        : 'Invalid asset manifest: expected a version and an "assets" object');
+    }
+    return data;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isAssetEntry(value: unknown): value is AssetEntry {
+  return isRecord(value) &&
+    typeof value.url === 'string' &&
+    typeof value.size === 'number' &&
+    typeof value.sha256 === 'string' &&
+    (value.world === undefined || typeof value.world === 'string');
+}
+
+export function isAssetManifest(value: unknown): value is AssetManifest {
+  return isRecord(value) &&
+    typeof value.version === 'number' &&
+    isRecord(value.assets) &&
+    Object.values(value.assets).every(isAssetEntry);
+}
+
+async function fetchManifest(url: string): Promise<unknown> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch asset manifest ${url}: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Cache Storage is missing outside secure contexts and can be blocked, in which case files are just downloaded
+async function openCache(): Promise<Cache | null> {
+  if (typeof caches === 'undefined') return null;
+  try {
+    return await caches.open(CACHE_NAME);
+  } catch {
+    return null;
+  }
+}
+
+// Reads the response as it arrives so the loading screen can show real byte counts
+async function download(
+  entry: AssetEntry,
+  signal?: AbortSignal,
+  onProgress?: (progress: AssetProgress) => void
+): Promise<ArrayBuffer> {
+  const response = await fetch(entry.url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch asset ${entry.url}: ${response.status}`);
+  }
+  const total = entry.size || Number(response.headers.get('Content-Length')) || 0;
+  if (!response.body) {
+    const bytes = await response.arrayBuffer();
+    onProgress?.({ loaded: bytes.byteLength, total });
+    return bytes;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    onProgress?.({ loaded, total });
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return bytes.buffer;
+}
+
+async function sha256(bytes: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -1,97 +1,172 @@
-import { 
-  Scene, 
-  Sound, 
+import {
+  Engine,
+  Scene,
+  Sound,
+  SoundTrack,
   Vector3,
   TransformNode
 } from '@babylonjs/core';
+import { SoundName, AmbienceName, SOUND_NAMES, createSoundBuffer, isLoopingSound } from './SoundLibrary';
+import { SurfaceType, SURFACE_ACOUSTICS } from './Surfaces';
+import { MusicState, MusicTrackName } from './MusicLibrary';
+import { MusicPlayer } from './MusicPlayer';
+
+// Each bus has its own volume on top of the master volume
+export type AudioBus = 'music' | 'effects' | 'ambience';
+export const AUDIO_BUSES: AudioBus[] = ['music', 'effects', 'ambience'];
+
+// What the audio needs to know about Bean each frame
+export interface BeanAudioState {
+  position: Vector3;  // Feet, where footsteps come from
+  speed: number;      // Horizontal, m/s
+  surface: SurfaceType | null;  // What Bean is standing on, null in mid-air
+  isMoving: boolean;
+  isPanting: boolean;  // Decided by Bean's mood, so the sound matches the tongue
+}
+
+const STRIDE_LENGTH = 2.5;  // Metres covered per footstep, so faster means more frequent steps
+const MIN_STEP_SPEED = 0.5;  // Slower than this (e.g. shuffling in VR) makes no footsteps
+const RUN_SPEED = 12;        // Footsteps are loudest and highest pitched at a full run
+const GESTURE_EVENTS = ['pointerdown', 'keydown', 'touchend'];
 
 export class AudioManager {
   private scene: Scene;
   private sounds: Map<string, Sound> = new Map();
-  private ambientSounds: Sound[] = [];
-  private footstepSound?: Sound;
+  private library: Map<SoundName, Sound> = new Map();
+  private buses: Map<AudioBus, SoundTrack> = new Map();
+  private busVolumes: Map<AudioBus, number> = new Map();  // Kept so settings applied before init() still count
+  private ambience?: Sound;
+  private music?: MusicPlayer;
+  private stepTimer: number = 0;
+  private isPanting: boolean = false;
   private isInitialized: boolean = false;
-  
+
   constructor(scene: Scene) {
     this.scene = scene;
   }
-  
+
   async init(): Promise<void> {
-    // Initialize audio engine
-    if (!this.scene.audioEnabled) {
-      await this.scene.audioListenerPositionProvider();
+    const audioEngine = Engine.audioEngine;
+    if (!audioEngine) {
+      console.warn('Audio is not available, continuing without sound');
+      return;
     }
-    
-    // Pre-load common sounds
-    await this.loadSounds();
+
+    // Browsers keep audio suspended until the player interacts with the page, so
+    // unlock on the first click, key or tap instead of showing Babylon's unmute button
+    audioEngine.useCustomUnlockedButton = true;
+    const unlock = () => {
+      audioEngine.unlock();
+      GESTURE_EVENTS.forEach(type => window.removeEventListener(type, unlock));
+    };
+    GESTURE_EVENTS.forEach(type => window.addEventListener(type, unlock));
+
+    AUDIO_BUSES.forEach(bus => {
+      this.buses.set(bus, new SoundTrack(this.scene, { mainTrack: false, volume: this.busVolumes.get(bus) ?? 1 }));
+    });
+
+    const context = audioEngine.audioContext;
+    if (!context) return;
+    this.loadLibrary(context);
+    // Music is scheduled on the context directly, under the master volume
+    this.music = new MusicPlayer(context, audioEngine.masterGain);
+    this.music.setVolume(this.busVolumes.get('music') ?? 1);
     this.isInitialized = true;
   }
-  
-  private async loadSounds(): Promise<void> {
-    // Footstep sound for Bean movement
-    this.footstepSound = new Sound(
-      'footstep',
-      '/assets/audio/footstep.mp3',
-      this.scene,
-      null,
-      {
-        loop: true,
-        autoplay: false,
-        volume: 0.3,
-        spatialSound: true,
-        distanceModel: 'exponential',
-        maxDistance: 20,
-        refDistance: 1,
-        rolloffFactor: 2
-      }
-    );
-    
-    // Ambient room sound
-    const ambientSound = new Sound(
-      'ambient',
-      '/assets/audio/room-ambient.mp3',
-      this.scene,
-      null,
-      {
-        loop: true,
-        autoplay: false,
-        volume: 0.1,
-        spatialSound: false
+
+  private loadLibrary(context: AudioContext): void {
+    SOUND_NAMES.forEach(name => {
+      const isAmbience = name.startsWith('ambience');
+      const sound = new Sound(
+        name,
+        createSoundBuffer(context, name),
+        this.scene,
+        null,
+        {
+          loop: isLoopingSound(name),
+          autoplay: false,
+          spatialSound: !isAmbience,
+          distanceModel: 'exponential',
+          maxDistance: 20,
+          refDistance: 1,
+          rolloffFactor: 2
+        }
+      );
+      this.buses.get(isAmbience ? 'ambience' : 'effects')!.addSound(sound);
+      this.library.set(name, sound);
+    });
+  }
+
+  // Plays one of Bean's synthesized sounds, from a point in the world when given one
+  playSound(
+    name: SoundName,
+    position?: Vector3,
+    options?: {
+      volume?: number;
+      playbackRate?: number;
+    }
+  ): void {
+    const sound = this.library.get(name);
+    if (!sound) return;
+
+    if (position) {
+      sound.setPosition(position);
+    }
+    sound.setVolume(options?.volume ?? 1);
+    sound.setPlaybackRate(options?.playbackRate ?? 1);
+    sound.play();
+  }
+
+  // Footsteps follow Bean's pace and the surface underfoot; panting plays while Bean pants
+  updateBean(deltaTime: number, state: BeanAudioState): void {
+    if (!this.isInitialized) return;
+
+    if (state.isMoving && state.surface && state.speed > MIN_STEP_SPEED) {
+      this.stepTimer -= deltaTime;
+      if (this.stepTimer <= 0) {
+        const acoustics = SURFACE_ACOUSTICS[state.surface];
+        const pace = Math.min(1, state.speed / RUN_SPEED);
+        this.stepTimer = (STRIDE_LENGTH / state.speed) * acoustics.cadence;
+        // Vary each step a little so they don't sound like a metronome
+        this.playSound(`footstep-${state.surface}`, state.position, {
+          volume: acoustics.volume * (0.8 + 0.5 * pace) * (0.85 + Math.random() * 0.3),
+          playbackRate: 0.85 + 0.25 * pace + Math.random() * 0.1
+        });
       }
-    );
-    
-    this.ambientSounds.push(ambientSound);
-  }
-  
-  playFootsteps(position: Vector3, isRunning: boolean = false): void {
-    if (!this.footstepSound || !this.isInitialized) return;
-    
-    // Update position
-    this.footstepSound.setPosition(position);
-    
-    // Adjust playback rate based on running
-    this.footstepSound.setPlaybackRate(isRunning ? 1.5 : 1.0);
-    this.footstepSound.setVolume(isRunning ? 0.5 : 0.3);
-    
-    if (!this.footstepSound.isPlaying) {
-      this.footstepSound.play();
+    } else {
+      // The first step lands as soon as Bean sets off
+      this.stepTimer = 0;
+    }
+
+    const pant = this.library.get('pant');
+    pant?.setPosition(state.position);
+    if (!this.isPanting && state.isPanting) {
+      this.isPanting = true;
+      pant?.play();
+    } else if (this.isPanting && !state.isPanting) {
+      this.isPanting = false;
+      pant?.stop();
     }
   }
-  
-  stopFootsteps(): void {
-    if (this.footstepSound?.isPlaying) {
-      this.footstepSound.stop();
+
+  // Stops footsteps and panting, e.g. when leaving a world
+  stopBeanSounds(): void {
+    this.stepTimer = 0;
+    if (this.isPanting) {
+      this.isPanting = false;
+      this.library.get('pant')?.stop();
     }
   }
-  
+
   play3DSound(
-    name: string, 
-    url: string, 
+    name: string,
+    url: string,
     position: Vector3,
     options?: {
       volume?: number;
       loop?: boolean;
       maxDistance?: number;
+      bus?: AudioBus;
     }
   ): Sound {
     const sound = new Sound(
@@ -112,45 +187,73 @@ export class AudioManager {
         rolloffFactor: 2
       }
     );
-    
+
     sound.setPosition(position);
+    this.buses.get(options?.bus ?? 'effects')?.addSound(sound);
     this.sounds.set(name, sound);
-    
+
     return sound;
   }
-  
+
   attachSoundToNode(sound: Sound | string, node: TransformNode): void {
     const soundObj = typeof sound === 'string' ? this.sounds.get(sound) : sound;
     if (soundObj) {
       soundObj.attachToMesh(node);
     }
   }
-  
-  startAmbient(): void {
-    this.ambientSounds.forEach(sound => {
-      if (!sound.isPlaying) {
-        sound.play();
-      }
-    });
+
+  // Each world picks its background loop; starting one replaces the last
+  startAmbient(name: AmbienceName): void {
+    const sound = this.library.get(`ambience-${name}`);
+    if (sound === this.ambience) return;
+
+    this.stopAmbient();
+    this.ambience = sound;
+    sound?.play();
   }
-  
+
   stopAmbient(): void {
-    this.ambientSounds.forEach(sound => {
-      sound.stop();
-    });
+    this.ambience?.stop();
+    this.ambience = undefined;
+  }
+
+  // Crossfades to a track; which of its layers play depends on setMusicState()
+  playMusic(track: MusicTrackName): void {
+    this.music?.play(track);
+  }
+
+  setMusicState(state: MusicState): void {
+    this.music?.setState(state);
+  }
+
+  stopMusic(): void {
+    this.music?.stop();
   }
-  
+
   setMasterVolume(volume: number): void {
     Engine.audioEngine?.setGlobalVolume(volume);
   }
-  
+
+  setBusVolume(bus: AudioBus, volume: number): void {
+    this.busVolumes.set(bus, volume);
+    this.buses.get(bus)?.setVolume(volume);
+    if (bus === 'music') {
+      this.music?.setVolume(volume);
+    }
+  }
+
   dispose(): void {
     this.sounds.forEach(sound => sound.dispose());
     this.sounds.clear();
-    
-    this.ambientSounds.forEach(sound => sound.dispose());
-    this.ambientSounds = [];
-    
-    this.footstepSound?.dispose();
+
+    this.library.forEach(sound => sound.dispose());
+    this.library.clear();
+    this.ambience = undefined;
+
+    this.music?.dispose();
+    this.music = undefined;
+
+    this.buses.forEach(bus => bus.dispose());
+    this.buses.clear();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,264 @@
+import { createRandom } from './SoundLibrary';
+
+// Music follows what Bean is up to; the main menu has a track of its own
+export type MusicState = 'menu' | 'idle' | 'running' | 'exploring';
+export type MusicTrackName = 'menu' | 'house' | 'street';
+
+export const MUSIC_STATES: MusicState[] = ['menu', 'idle', 'running', 'exploring'];
+
+interface TrackRecipe {
+  tempo: number;       // Beats per minute, four beats to the bar
+  chords: number[][];  // MIDI notes, one chord per bar
+  scale: number[];     // MIDI notes melodies pick from
+  stems: StemRecipe[];
+}
+
+interface StemRecipe {
+  name: string;
+  levels: Partial<Record<MusicState, number>>;  // Gain in each state, silent in the others
+  render: (samples: Float32Array, sampleRate: number, track: TrackRecipe, random: () => number) => void;
+}
+
+interface NoteShape {
+  attack?: number;       // Seconds to full volume
+  decay?: number;        // Exponential fade per second, 0 to hold
+  harmonics?: number[];  // Amplitude of the fundamental and each overtone
+}
+
+function midiToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+function beatLength(track: TrackRecipe): number {
+  return 60 / track.tempo;
+}
+
+// Adds one note. Notes still ringing at the end of the loop wrap around to its
+// start, so the stem loops without a gap.
+function addNote(
+  samples: Float32Array,
+  sampleRate: number,
+  start: number,
+  duration: number,
+  note: number,
+  gain: number,
+  { attack = 0.01, decay = 0, harmonics = [1] }: NoteShape = {}
+): void {
+  const first = Math.floor(start * sampleRate);
+  const count = Math.floor(duration * sampleRate);
+  const frequency = midiToFrequency(note);
+  for (let i = 0; i < count; i++) {
+    const t = i / sampleRate;
+    const envelope = Math.min(1, t / attack, (duration - t) / 0.05) * Math.exp(-t * decay);
+    let value = 0;
+    harmonics.forEach((amplitude, h) => {
+      value += amplitude * Math.sin(2 * Math.PI * frequency * (h + 1) * t);
+    });
+    samples[(first + i) % samples.length] += value * envelope * gain;
+  }
+}
+
+function addKick(samples: Float32Array, sampleRate: number, start: number, gain: number): void {
+  const first = Math.floor(start * sampleRate);
+  const count = Math.floor(0.2 * sampleRate);
+  let phase = 0;
+  for (let i = 0; i < count; i++) {
+    const t = i / sampleRate;
+    phase += (2 * Math.PI * (45 + 75 * Math.exp(-t * 30))) / sampleRate;
+    samples[(first + i) % samples.length] += Math.sin(phase) * Math.exp(-t * 18) * gain;
+  }
+}
+
+// Bright noise burst; longer and with a body tone it becomes a snare
+function addNoiseHit(
+  samples: Float32Array,
+  sampleRate: number,
+  random: () => number,
+  start: number,
+  duration: number,
+  gain: number,
+  tone: number = 0
+): void {
+  const first = Math.floor(start * sampleRate);
+  const count = Math.floor(duration * sampleRate);
+  let previous = 0;
+  for (let i = 0; i < count; i++) {
+    const t = i / sampleRate;
+    const white = random() * 2 - 1;
+    const body = tone > 0 ? Math.sin(2 * Math.PI * tone * t) * 0.5 : 0;
+    samples[(first + i) % samples.length] += ((white - previous) * 0.5 + body) * Math.exp(-t * (6 / duration)) * gain;
+    previous = white;
+  }
+}
+
+// Sustained chords, one per bar, fading in slowly
+function renderPad(samples: Float32Array, sampleRate: number, track: TrackRecipe): void {
+  const bar = beatLength(track) * 4;
+  track.chords.forEach((chord, index) => {
+    chord.forEach(note => {
+      addNote(samples, sampleRate, index * bar, bar + 0.3, note, 0.08, { attack: 0.8, harmonics: [1, 0.3, 0.1] });
+    });
+  });
+}
+
+// Wanders up and down the scale a step or two at a time, with rests
+function renderMelody(
+  samples: Float32Array,
+  sampleRate: number,
+  track: TrackRecipe,
+  random: () => number,
+  stepsPerBeat: number,
+  shape: NoteShape,
+  chance: number
+): void {
+  const step = beatLength(track) / stepsPerBeat;
+  const steps = track.chords.length * 4 * stepsPerBeat;
+  let degree = Math.floor(track.scale.length / 2);
+  for (let i = 0; i < steps; i++) {
+    if (random() > chance) continue;
+    degree = Math.max(0, Math.min(track.scale.length - 1, degree + Math.floor(random() * 5) - 2));
+    addNote(samples, sampleRate, i * step, step * 3, track.scale[degree], 0.15, shape);
+  }
+}
+
+const TRACKS: Record<MusicTrackName, TrackRecipe> = {
+  // Slow, warm and a little sleepy: Cmaj7, Am7, Fmaj7, G6
+  house: {
+    tempo: 76,
+    chords: [[48, 55, 64, 71], [45, 52, 60, 67], [41, 48, 57, 64], [43, 50, 59, 64]],
+    scale: [72, 74, 76, 79, 81, 84],
+    stems: [
+      { name: 'pad', levels: { idle: 0.7, exploring: 0.7, running: 0.6 }, render: renderPad },
+      {
+        name: 'melody',
+        levels: { exploring: 0.8 },
+        render: (samples, sampleRate, track, random) =>
+          renderMelody(samples, sampleRate, track, random, 2, { decay: 4, harmonics: [1, 0.5, 0.2] }, 0.45)
+      },
+      {
+        name: 'rhythm',
+        levels: { running: 0.7 },
+        render: (samples, sampleRate, track, random) => {
+          const beat = beatLength(track);
+          for (let i = 0; i < track.chords.length * 4; i++) {
+            if (i % 2 === 0) addKick(samples, sampleRate, i * beat, 0.5);
+            addNoiseHit(samples, sampleRate, random, i * beat, 0.04, 0.08);
+            addNoiseHit(samples, sampleRate, random, (i + 0.5) * beat, 0.06, 0.14);
+          }
+        }
+      }
+    ]
+  },
+  // Busier and minor for the street scan: Am, F, C, G
+  street: {
+    tempo: 92,
+    chords: [[45, 57, 60, 64], [41, 53, 57, 60], [48, 55, 60, 64], [43, 55, 59, 62]],
+    scale: [69, 72, 74, 76, 79, 81],
+    stems: [
+      {
+        name: 'bass',
+        levels: { idle: 0.8, exploring: 0.8, running: 0.8 },
+        render: (samples, sampleRate, track) => {
+          const eighth = beatLength(track) / 2;
+          const pattern = [1, 0, 1, 1, 0, 1, 0, 1];
+          track.chords.forEach((chord, bar) => {
+            for (let i = 0; i < 8; i++) {
+              if (!pattern[i]) continue;
+              addNote(samples, sampleRate, (bar * 8 + i) * eighth, eighth * 0.9, chord[0] - 12, 0.3,
+                { decay: 6, harmonics: [1, 0.6, 0.3] });
+            }
+          });
+        }
+      },
+      {
+        name: 'keys',
+        levels: { idle: 0.2, exploring: 0.7 },
+        render: (samples, sampleRate, track) => {
+          const beat = beatLength(track);
+          track.chords.forEach((chord, bar) => {
+            // Stabs on the "and" of two and four
+            [1.5, 3.5].forEach(offset => {
+              chord.slice(1).forEach(note => {
+                addNote(samples, sampleRate, (bar * 4 + offset) * beat, beat * 0.5, note, 0.08,
+                  { decay: 5, harmonics: [1, 0.4, 0.25, 0.1] });
+              });
+            });
+          });
+        }
+      },
+      {
+        name: 'beat',
+        levels: { running: 0.8 },
+        render: (samples, sampleRate, track, random) => {
+          const beat = beatLength(track);
+          for (let i = 0; i < track.chords.length * 4; i++) {
+            if (i % 2 === 0) {
+              addKick(samples, sampleRate, i * beat, 0.6);
+            } else {
+              addNoiseHit(samples, sampleRate, random, i * beat, 0.15, 0.35, 180);
+            }
+            if (i % 4 === 2) addKick(samples, sampleRate, (i + 0.5) * beat, 0.4);
+            addNoiseHit(samples, sampleRate, random, (i + 0.5) * beat, 0.04, 0.1);
+          }
+        }
+      }
+    ]
+  },
+  // A music box over a slow pad: Fmaj7, Em7, Dm7, Cmaj7
+  menu: {
+    tempo: 66,
+    chords: [[41, 53, 57, 64], [40, 52, 55, 62], [38, 50, 53, 60], [36, 48, 55, 64]],
+    scale: [76, 79, 81, 84, 86, 88],
+    stems: [
+      { name: 'pad', levels: { menu: 0.7 }, render: renderPad },
+      {
+        name: 'musicBox',
+        levels: { menu: 0.5 },
+        render: (samples, sampleRate, track, random) =>
+          renderMelody(samples, sampleRate, track, random, 1, { decay: 2.5, harmonics: [1, 0, 0.4, 0, 0.2] }, 0.8)
+      }
+    ]
+  }
+};
+
+export const MUSIC_TRACK_NAMES = Object.keys(TRACKS) as MusicTrackName[];
+
+export interface StemInfo {
+  name: string;
+  levels: Partial<Record<MusicState, number>>;
+}
+
+export function getStems(track: MusicTrackName): StemInfo[] {
+  return TRACKS[track].stems.map(({ name, levels }) => ({ name, levels }));
+}
+
+// Seconds per beat, which layer changes line up with
+export function getBeatLength(track: MusicTrackName): number {
+  return beatLength(TRACKS[track]);
+}
+
+// Every stem of a track is the same length, so they stay in step when looping
+export function getLoopLength(track: MusicTrackName): number {
+  return beatLength(TRACKS[track]) * 4 * TRACKS[track].chords.length;
+}
+
+/**
+ * Renders one stem of a track to mono samples in the range -1 to 1. Pure and
+ * deterministic like the sound library, so it runs without an AudioContext.
+ */
+export function synthesizeStem(track: MusicTrackName, stem: string, sampleRate: number): Float32Array {
+  const recipe = TRACKS[track];
+  const stemRecipe = recipe.stems.find(candidate => candidate.name === stem);
+  if (!stemRecipe) {
+    throw new Error(`Unknown stem "${stem}" in music track "${track}"`);
+  }
+
+  const samples = new Float32Array(Math.round(getLoopLength(track) * sampleRate));
+  const seed = Array.from(`${track}/${stem}`).reduce((hash, char) => hash * 31 + char.charCodeAt(0), 7);
+  stemRecipe.render(samples, sampleRate, recipe, createRandom(seed));
+
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.max(-1, Math.min(1, samples[i]));
+  }
+  return samples;
+}
@@ -0,0 +1,141 @@
+import {
+  MusicState,
+  MusicTrackName,
+  StemInfo,
+  getStems,
+  getBeatLength,
+  synthesizeStem
+} from './MusicLibrary';
+
+const CROSSFADE_TIME = 2;     // Seconds to fade from one track to the next
+const LAYER_FADE_TIME = 1.5;  // Seconds to bring a layer in or out when the state changes
+const START_DELAY = 0.05;     // Schedules every stem of a track for the same instant
+
+interface PlayingStem {
+  info: StemInfo;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+interface PlayingTrack {
+  name: MusicTrackName;
+  startTime: number;  // Context time of the first beat
+  stems: PlayingStem[];
+}
+
+/**
+ * Plays a track's stems as sample-aligned loops and fades layers in and out as the
+ * game state changes. All timing comes from the AudioContext clock, so layers
+ * change on the beat and tests can drive it with a fake context.
+ */
+export class MusicPlayer {
+  private context: BaseAudioContext;
+  private output: GainNode;
+  private buffers: Map<string, AudioBuffer> = new Map();  // Rendered stems by "track/stem"
+  private current: PlayingTrack | null = null;
+  private state: MusicState = 'menu';
+
+  constructor(context: BaseAudioContext, destination: AudioNode) {
+    this.context = context;
+    this.output = context.createGain();
+    this.output.connect(destination);
+  }
+
+  get track(): MusicTrackName | null {
+    return this.current?.name ?? null;
+  }
+
+  // Crossfades to another track; asking for the one already playing does nothing
+  play(name: MusicTrackName): void {
+    if (this.current?.name === name) return;
+    this.fadeOut();
+
+    const now = this.context.currentTime;
+    const startTime = now + START_DELAY;
+    const stems = getStems(name).map(info => {
+      const gain = this.context.createGain();
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(info.levels[this.state] ?? 0, startTime + CROSSFADE_TIME);
+      gain.connect(this.output);
+
+      const source = this.context.createBufferSource();
+      source.buffer = this.getBuffer(name, info.name);
+      source.loop = true;
+      source.connect(gain);
+      source.start(startTime);
+      return { info, source, gain };
+    });
+
+    this.current = { name, startTime, stems };
+  }
+
+  // Brings layers in or out from the next beat, so changes land with the music
+  setState(state: MusicState): void {
+    if (state === this.state) return;
+    this.state = state;
+    if (!this.current) return;
+
+    const at = this.getNextBeat(this.current);
+    this.current.stems.forEach(stem => {
+      this.rampTo(stem.gain.gain, stem.info.levels[state] ?? 0, at, LAYER_FADE_TIME);
+    });
+  }
+
+  getState(): MusicState {
+    return this.state;
+  }
+
+  stop(): void {
+    this.fadeOut();
+    this.current = null;
+  }
+
+  setVolume(volume: number): void {
+    this.output.gain.value = volume;
+  }
+
+  dispose(): void {
+    this.current?.stems.forEach(stem => stem.source.stop());
+    this.current = null;
+    this.output.disconnect();
+    this.buffers.clear();
+  }
+
+  private fadeOut(): void {
+    if (!this.current) return;
+    const now = this.context.currentTime;
+    this.current.stems.forEach(stem => {
+      this.rampTo(stem.gain.gain, 0, now, CROSSFADE_TIME);
+      stem.source.stop(now + CROSSFADE_TIME);
+    });
+  }
+
+  // Holds the current level until `at`, then ramps linearly to `level`
+  private rampTo(param: AudioParam, level: number, at: number, duration: number): void {
+    const now = this.context.currentTime;
+    const from = param.value;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(from, now);
+    param.setValueAtTime(from, at);
+    param.linearRampToValueAtTime(level, at + duration);
+  }
+
+  private getNextBeat(track: PlayingTrack): number {
+    const beat = getBeatLength(track.name);
+    const elapsed = Math.max(0, this.context.currentTime - track.startTime);
+    return track.startTime + Math.ceil(elapsed / beat) * beat;
+  }
+
+  // Stems are rendered the first time their track plays
+  private getBuffer(track: MusicTrackName, stem: string): AudioBuffer {
+    const key = `${track}/${stem}`;
+    let buffer = this.buffers.get(key);
+    if (!buffer) {
+      const samples = synthesizeStem(track, stem, this.context.sampleRate);
+      buffer = this.context.createBuffer(1, samples.length, this.context.sampleRate);
+      buffer.getChannelData(0).set(samples);
+      this.buffers.set(key, buffer);
+    }
+    return buffer;
+  }
+}
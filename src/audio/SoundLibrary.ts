@@ -0,0 +1,235 @@
+// Bean's sounds are synthesized at startup instead of loaded from files, so the
+// game has audio without shipping (or licensing) any recordings
+
+import { SurfaceType } from './Surfaces';
+
+export type SoundName = FootstepSoundName | 'bark' | 'pant' | 'sniff' | 'whine' | AmbienceSoundName;
+export type AmbienceName = 'house' | 'garden';
+type AmbienceSoundName = `ambience-${AmbienceName}`;
+export type FootstepSoundName = `footstep-${SurfaceType}`;
+
+interface SoundRecipe {
+  duration: number;  // Seconds
+  loop?: boolean;    // Loops are built to join up without a click
+  render: (samples: Float32Array, sampleRate: number, random: () => number) => void;
+}
+
+// Small seeded PRNG (mulberry32) so every build of a sound is identical
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Noise with most of its energy in the low end, like wind or a room's rumble
+function brownNoise(samples: Float32Array, random: () => number, gain: number): void {
+  let value = 0;
+  for (let i = 0; i < samples.length; i++) {
+    value = (value + (random() * 2 - 1) * 0.02) * 0.998;
+    samples[i] += value * gain;
+  }
+}
+
+// Removes the drift between the first and last sample so a loop joins up cleanly
+function closeLoop(samples: Float32Array): void {
+  const drift = samples[samples.length - 1] - samples[0];
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] -= drift * (i / (samples.length - 1));
+  }
+}
+
+// One padded thump: low-passed noise (smaller smoothing is duller) over a short
+// body tone, decaying at `decay` per second
+function thump(samples: Float32Array, sampleRate: number, random: () => number, smoothing: number, tone: number, decay: number): void {
+  let filtered = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    filtered += ((random() * 2 - 1) - filtered) * smoothing;
+    samples[i] += (filtered * 2 + Math.sin(2 * Math.PI * tone * t) * 0.4) * Math.exp(-t * decay);
+  }
+}
+
+// A claw tap: a few milliseconds of bright noise
+function click(samples: Float32Array, sampleRate: number, random: () => number, start: number, gain: number): void {
+  const first = Math.floor(start * sampleRate);
+  const count = Math.floor(0.006 * sampleRate);
+  let previous = 0;
+  for (let i = 0; i < count && first + i < samples.length; i++) {
+    const white = random() * 2 - 1;
+    samples[first + i] += (white - previous) * gain * (1 - i / count);
+    previous = white;
+  }
+}
+
+// One woof: a falling tone with a few harmonics and a breathy edge
+function woof(samples: Float32Array, sampleRate: number, random: () => number, start: number, length: number): void {
+  let phase = 0;
+  const first = Math.floor(start * sampleRate);
+  const count = Math.floor(length * sampleRate);
+  for (let i = 0; i < count && first + i < samples.length; i++) {
+    const t = i / sampleRate;
+    const progress = t / length;
+    const frequency = 480 - 220 * progress;
+    phase += (2 * Math.PI * frequency) / sampleRate;
+    const envelope = Math.min(1, t / 0.01) * Math.exp(-progress * 4);
+    const tone = Math.sin(phase) + 0.5 * Math.sin(2 * phase) + 0.25 * Math.sin(3 * phase);
+    samples[first + i] += envelope * (tone * 0.45 + (random() * 2 - 1) * 0.15);
+  }
+}
+
+const RECIPES: Record<SoundName, SoundRecipe> = {
+  // One footstep per surface; pitch and volume are varied per step on playback
+  'footstep-wood': {
+    duration: 0.12,
+    render: (samples, sampleRate, random) => {
+      thump(samples, sampleRate, random, 0.15, 140, 40);
+      click(samples, sampleRate, random, 0.004, 0.3);
+    }
+  },
+  'footstep-carpet': {
+    duration: 0.1,
+    render: (samples, sampleRate, random) => thump(samples, sampleRate, random, 0.04, 70, 55)
+  },
+  'footstep-tile': {
+    duration: 0.1,
+    render: (samples, sampleRate, random) => {
+      thump(samples, sampleRate, random, 0.3, 220, 70);
+      click(samples, sampleRate, random, 0.002, 0.8);
+      click(samples, sampleRate, random, 0.03, 0.6);
+    }
+  },
+  // Blades brushing past: longer and hissier, with no body tone
+  'footstep-grass': {
+    duration: 0.18,
+    render: (samples, sampleRate, random) => {
+      let previous = 0;
+      for (let i = 0; i < samples.length; i++) {
+        const t = i / sampleRate;
+        const white = random() * 2 - 1;
+        const crackle = random() < 0.01 ? (random() * 2 - 1) * 0.6 : 0;
+        samples[i] = ((white - previous) * 0.35 + crackle) * Math.min(1, t / 0.02) * Math.exp(-t * 18);
+        previous = white;
+      }
+    }
+  },
+  bark: {
+    duration: 0.3,
+    render: (samples, sampleRate, random) => woof(samples, sampleRate, random, 0, 0.25)
+  },
+  // Two quick breaths per loop
+  pant: {
+    duration: 0.6,
+    loop: true,
+    render: (samples, sampleRate, random) => {
+      let filtered = 0;
+      for (let i = 0; i < samples.length; i++) {
+        const t = i / sampleRate;
+        filtered += ((random() * 2 - 1) - filtered) * 0.3;
+        const breath = Math.pow(Math.max(0, Math.sin((2 * Math.PI * t) / 0.3)), 2);
+        samples[i] = filtered * breath * 0.5;
+      }
+    }
+  },
+  // Three short, bright intakes
+  sniff: {
+    duration: 0.45,
+    render: (samples, sampleRate, random) => {
+      let previous = 0;
+      for (let i = 0; i < samples.length; i++) {
+        const t = i / sampleRate;
+        const white = random() * 2 - 1;
+        const bright = white - previous;
+        previous = white;
+        const burst = (t % 0.15) / 0.15;
+        const envelope = burst < 0.5 ? Math.sin(burst * 2 * Math.PI) : 0;
+        samples[i] = bright * envelope * 0.35;
+      }
+    }
+  },
+  // Rising then falling whimper with a little vibrato
+  whine: {
+    duration: 0.9,
+    render: (samples, sampleRate) => {
+      let phase = 0;
+      for (let i = 0; i < samples.length; i++) {
+        const t = i / sampleRate;
+        const progress = t / 0.9;
+        const frequency = 700 + 250 * Math.sin(progress * Math.PI) + 15 * Math.sin(2 * Math.PI * 6 * t);
+        phase += (2 * Math.PI * frequency) / sampleRate;
+        const envelope = Math.sin(progress * Math.PI);
+        samples[i] = (Math.sin(phase) + 0.2 * Math.sin(2 * phase)) * envelope * 0.3;
+      }
+    }
+  },
+  // Fridge hum and the room's rumble. 60 Hz fits a whole number of cycles into the loop.
+  'ambience-house': {
+    duration: 4,
+    loop: true,
+    render: (samples, sampleRate, random) => {
+      brownNoise(samples, random, 0.6);
+      for (let i = 0; i < samples.length; i++) {
+        const t = i / sampleRate;
+        samples[i] += Math.sin(2 * Math.PI * 60 * t) * 0.04 + Math.sin(2 * Math.PI * 120 * t) * 0.02;
+      }
+      closeLoop(samples);
+    }
+  },
+  // Gusting wind with the odd bird chirp
+  'ambience-garden': {
+    duration: 6,
+    loop: true,
+    render: (samples, sampleRate, random) => {
+      brownNoise(samples, random, 1);
+      for (let i = 0; i < samples.length; i++) {
+        const t = i / sampleRate;
+        samples[i] *= 0.6 + 0.4 * Math.sin((2 * Math.PI * t) / 6);
+      }
+      closeLoop(samples);
+
+      [0.8, 1.0, 3.4, 3.55, 3.7].forEach(start => {
+        const first = Math.floor(start * sampleRate);
+        const count = Math.floor(0.08 * sampleRate);
+        let phase = 0;
+        for (let i = 0; i < count; i++) {
+          const progress = i / count;
+          phase += (2 * Math.PI * (3200 + 1400 * progress)) / sampleRate;
+          samples[first + i] += Math.sin(phase) * Math.sin(progress * Math.PI) * 0.12;
+        }
+      });
+    }
+  }
+};
+
+export const SOUND_NAMES = Object.keys(RECIPES) as SoundName[];
+
+export function isLoopingSound(name: SoundName): boolean {
+  return RECIPES[name].loop ?? false;
+}
+
+/**
+ * Renders a sound to mono samples in the range -1 to 1. Pure and deterministic,
+ * so it runs (and is tested) without an AudioContext.
+ */
+export function synthesize(name: SoundName, sampleRate: number): Float32Array {
+  const recipe = RECIPES[name];
+  const samples = new Float32Array(Math.ceil(recipe.duration * sampleRate));
+  const seed = Array.from(name).reduce((hash, char) => hash * 31 + char.charCodeAt(0), 7);
+  recipe.render(samples, sampleRate, createRandom(seed));
+
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.max(-1, Math.min(1, samples[i]));
+  }
+  return samples;
+}
+
+export function createSoundBuffer(context: BaseAudioContext, name: SoundName): AudioBuffer {
+  const samples = synthesize(name, context.sampleRate);
+  const buffer = context.createBuffer(1, samples.length, context.sampleRate);
+  buffer.getChannelData(0).set(samples);
+  return buffer;
+}
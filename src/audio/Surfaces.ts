@@ -0,0 +1,56 @@
+import { Node } from '@babylonjs/core';
+
+export type SurfaceType = 'wood' | 'carpet' | 'tile' | 'grass';
+export const SURFACE_TYPES: SurfaceType[] = ['wood', 'carpet', 'tile', 'grass'];
+
+// Used for anything Bean can stand on that hasn't been tagged, like the couch
+export const DEFAULT_SURFACE: SurfaceType = 'wood';
+
+export interface SurfaceAcoustics {
+  volume: number;   // Footstep loudness at walking pace
+  cadence: number;  // Multiplies the time between steps
+}
+
+export const SURFACE_ACOUSTICS: Record<SurfaceType, SurfaceAcoustics> = {
+  wood: { volume: 0.45, cadence: 1 },
+  carpet: { volume: 0.25, cadence: 1.1 },  // Paws sink in and land a little later
+  tile: { volume: 0.5, cadence: 0.9 },     // Claws skitter on hard, smooth floors
+  grass: { volume: 0.3, cadence: 1.15 }
+};
+
+// Name fragments that give away what an untagged mesh is made of, checked in order
+const NAME_HINTS: [RegExp, SurfaceType][] = [
+  [/carpet|rug|mat\b|mattress|bed|couch|sofa|cushion/, 'carpet'],
+  [/grass|lawn|garden|yard|terrain|hedge|soil/, 'grass'],
+  [/tile|bath|kitchen|stone|path|pavement|sidewalk|road|street|concrete|marble/, 'tile'],
+  [/wood|floor|plank|deck|stair|table|parquet/, 'wood']
+];
+
+// Surfaces are stored in node metadata, like interactables, so worlds can tag
+// meshes without knowing about the audio system
+export function setSurface(node: Node, surface: SurfaceType): void {
+  node.metadata = { ...(node.metadata ?? {}), surface };
+}
+
+// The surface of a node or the nearest tagged parent, so a whole group can be tagged at once
+export function findSurface(node: Node | null): SurfaceType | null {
+  for (let current = node; current; current = current.parent) {
+    const surface = current.metadata?.surface as SurfaceType | undefined;
+    if (surface) return surface;
+  }
+  return null;
+}
+
+export function guessSurface(name: string): SurfaceType | null {
+  const lower = name.toLowerCase();
+  return NAME_HINTS.find(([pattern]) => pattern.test(lower))?.[1] ?? null;
+}
+
+// Tags every untagged node from its name, for imported models that carry no tags of their own
+export function tagSurfacesByName(nodes: Node[], fallback: SurfaceType): void {
+  nodes.forEach(node => {
+    if (!findSurface(node)) {
+      setSurface(node, guessSurface(node.name) ?? fallback);
+    }
+  });
+}
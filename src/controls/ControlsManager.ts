@@ -4,17 +4,38 @@ import {
   Vector3,
   WebXRInputSource,
   WebXRDefaultExperience,
-  Ray
+  Ray,
+  AbstractMesh
 } from '@babylonjs/core';
-import { Bean, CameraView } from '../game/Bean';
+import { Bean, CameraView, CAMERA_VIEWS } from '../game/Bean';
+import { PhotoMode } from '../game/PhotoMode';
+import { SettingsManager } from '../settings/SettingsManager';
+import { InputActions, InputAction, ActionChange, keyBinding, bindingDevice } from './InputActions';
+import { GamepadInput, GamepadProvider } from './GamepadInput';
+import { TouchControls } from './TouchControls';
+
+// Shown in the info panel
+const VIEW_LABELS: Record<CameraView, string> = {
+  [CameraView.FIRST_PERSON]: 'FPV',
+  [CameraView.FOLLOW]: 'Follow',
+  [CameraView.OVERHEAD]: 'Map',
+  [CameraView.CINEMATIC]: 'Cinematic'
+};
 
 export class ControlsManager {
   private scene: Scene;
+  private camera: UniversalCamera;
   private bean: Bean;
+  private settings: SettingsManager;
+  private inputs: InputActions;
+  private gamepad: GamepadInput;
+  private touch: TouchControls;
+  private photoMode?: PhotoMode;
   
-  private keys: Map<string, boolean> = new Map();
   private mouseMovement: { x: number, y: number } = { x: 0, y: 0 };
   private isPointerLocked: boolean = false;
+  private isEnabled: boolean = false;
+  private wasDesktopPlaying: boolean = false;
   private isVRMode: boolean = false;
   private xrHelper?: WebXRDefaultExperience;
   
@@ -23,47 +44,170 @@ export class ControlsManager {
   private movementInput: Vector3 = new Vector3(0, 0, 0);
   private rotationInput: number = 0;
   private lastKnownFloorHeight: number = 0;
+  private lastKnownFloorMesh: AbstractMesh | null = null;  // What Bean is standing on, for footstep sounds
+  private lastVRPosition: Vector3 = new Vector3(0, 0, 0);
   
-  private readonly MOUSE_SENSITIVITY = 0.002;
+  private readonly MOUSE_SENSITIVITY = 0.002;  // Radians per pixel at a sensitivity setting of 1
+  private readonly TARGET_RAY_LENGTH = 12;  // Long enough to reach past Bean from the follow camera
+  private readonly NOSE_RAY_LENGTH = 3;     // How far ahead Bean notices things when the camera isn't aiming
+  private readonly GAMEPAD_LOOK_SPEED = 3;  // Radians per second at full right stick deflection
+  private readonly TOUCH_LOOK_SENSITIVITY = 0.005;  // Radians per pixel dragged
+  private readonly WHEEL_ZOOM_SPEED = 0.001;  // Follow camera zoom per pixel scrolled (~10% a notch)
+  private readonly WHEEL_LINE_HEIGHT = 40;    // Pixels per line for browsers that scroll by lines
 
-  constructor(scene: Scene, _camera: UniversalCamera, bean: Bean) {
+  constructor(
+    scene: Scene,
+    camera: UniversalCamera,
+    bean: Bean,
+    settings: SettingsManager,
+    inputs: InputActions,
+    gamepadProvider?: GamepadProvider
+  ) {
     this.scene = scene;
+    this.camera = camera;
     this.bean = bean;
+    this.settings = settings;
+    this.inputs = inputs;
+    this.gamepad = new GamepadInput(inputs, gamepadProvider);
+    this.touch = new TouchControls(inputs);
   }
 
   async init(): Promise<void> {
+    this.inputs.onActionObservable.add((change) => this.handleAction(change));
+    this.inputs.onBindingsChangedObservable.add(() => this.updateHelpText());
     this.setupKeyboardControls();
     this.setupMouseControls();
     this.setupPointerLock();
+    this.touch.init();
+    this.updateHelpText();
   }
 
   private setupKeyboardControls(): void {
     window.addEventListener('keydown', (e) => {
-      const key = e.key.toLowerCase();
-      this.keys.set(key, true);
-      
-      if (e.key === 'Escape') {
-        if (this.isPointerLocked) {
-          document.exitPointerLock();
-        }
-        // Dispatch event to return to menu
-        window.dispatchEvent(new CustomEvent('returnToMenu'));
-      }
-      
-      // Camera view switching
-      if (key === '1') {
-        this.bean.setCameraView(CameraView.FIRST_PERSON);
-        this.updateInfoPanel('FPV');
-      } else if (key === '2') {
-        this.bean.setCameraView(CameraView.FOLLOW);
-        this.updateInfoPanel('Follow');
+      if (e.repeat) return;
+      // Keep bound keys (e.g. Space) from scrolling the page while playing, with or
+      // without the captured mouse; checked first, since the action may open the menu
+      const isPlaying = this.isDesktopPlaying();
+      if (this.inputs.press(keyBinding(e.code)) && isPlaying) {
+        e.preventDefault();
       }
     });
     
     window.addEventListener('keyup', (e) => {
-      this.keys.set(e.key.toLowerCase(), false);
+      this.inputs.release(keyBinding(e.code));
     });
   }
+  
+  // Reacts to actions from every input device
+  private handleAction({ action, pressed, binding }: ActionChange): void {
+    // Held actions follow the button
+    if (action === 'Run') {
+      this.bean.setRunning(this.inputs.isActive('Run'));
+      return;
+    }
+    if (action === 'Crouch') {
+      this.bean.setCrouching(this.inputs.isActive('Crouch'));
+      return;
+    }
+    if (!pressed) return;
+    
+    if (this.photoMode?.isActive) {
+      this.handlePhotoAction(action);
+      return;
+    }
+    
+    // Locomotion actions only apply while playing
+    const isPlaying = this.isVRMode || this.isDesktopPlaying();
+    switch (action) {
+      case 'Jump':
+        if (isPlaying) this.bean.jump();
+        break;
+      case 'Sit':
+        if (isPlaying) this.bean.toggleSit();
+        break;
+      case 'LieDown':
+        if (isPlaying) this.bean.toggleLieDown();
+        break;
+      case 'Interact':
+        if (isPlaying) this.interact();
+        break;
+      case 'Bark':
+        if (isPlaying) window.dispatchEvent(new CustomEvent('bark'));
+        break;
+      case 'Menu':
+        // Gamepad and touch menu buttons shouldn't reopen the main menu from itself
+        if (['gamepad', 'touch'].includes(bindingDevice(binding)) && !this.isEnabled) break;
+        this.openMenu();
+        break;
+      case 'SwitchView':
+        this.setCameraView(CAMERA_VIEWS[(CAMERA_VIEWS.indexOf(this.bean.cameraView) + 1) % CAMERA_VIEWS.length]);
+        break;
+      case 'FirstPersonView':
+        this.setCameraView(CameraView.FIRST_PERSON);
+        break;
+      case 'FollowView':
+        this.setCameraView(CameraView.FOLLOW);
+        break;
+      case 'OverheadView':
+        this.setCameraView(CameraView.OVERHEAD);
+        break;
+      case 'CinematicView':
+        this.setCameraView(CameraView.CINEMATIC);
+        break;
+      case 'PhotoMode':
+        if (isPlaying && !this.isVRMode) window.dispatchEvent(new CustomEvent('photoMode'));
+        break;
+      case 'QuickSave':
+        if (isPlaying) window.dispatchEvent(new CustomEvent('quickSave'));
+        break;
+    }
+  }
+  
+  // While taking photos Bean is paused, so buttons work the camera instead
+  private handlePhotoAction(action: InputAction): void {
+    switch (action) {
+      case 'Interact':
+        this.photoMode?.takePhoto();
+        break;
+      case 'PhotoFilter':
+        this.photoMode?.cycleFilter();
+        break;
+      case 'DepthOfField':
+        this.photoMode?.toggleDepthOfField();
+        break;
+      case 'HideUI':
+        this.photoMode?.toggleUI();
+        break;
+      case 'PhotoMode':
+      case 'Menu':
+        window.dispatchEvent(new CustomEvent('photoMode'));
+        break;
+    }
+  }
+  
+  // Lets the flying controls drive photo mode's camera while it's active
+  attachPhotoMode(photoMode: PhotoMode): void {
+    this.photoMode = photoMode;
+    photoMode.onChangedObservable.add(() => this.updateCrosshair());
+  }
+  
+  private openMenu(): void {
+    if (this.isVRMode) {
+      this.showVRMenu();
+    } else {
+      if (this.isPointerLocked) {
+        document.exitPointerLock();
+      }
+      // Dispatch event to return to menu
+      window.dispatchEvent(new CustomEvent('returnToMenu'));
+    }
+  }
+  
+  // Desktop play needs the captured mouse, or a gamepad or touch screen, which work without pointer lock
+  private isDesktopPlaying(): boolean {
+    return !this.isVRMode &&
+      (this.isPointerLocked || (this.isEnabled && (this.gamepad.isConnected() || this.touch.isActive())));
+  }
 
   private setupMouseControls(): void {
     window.addEventListener('mousemove', (e) => {
@@ -72,6 +216,25 @@ export class ControlsManager {
         this.mouseMovement.y += e.movementY;
       }
     });
+    
+    // Mouse buttons only count once the mouse is captured (the first click only locks it)
+    window.addEventListener('mousedown', (e) => {
+      if (this.isPointerLocked && !this.isVRMode) {
+        this.inputs.press(`mouse:${e.button}`);
+      }
+    });
+    
+    window.addEventListener('mouseup', (e) => {
+      this.inputs.release(`mouse:${e.button}`);
+    });
+    
+    // Scrolling zooms the follow camera, down to pull back and up to move in
+    window.addEventListener('wheel', (e) => {
+      if (this.isPointerLocked && !this.isVRMode) {
+        const pixels = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * this.WHEEL_LINE_HEIGHT : e.deltaY;
+        this.zoom(Math.exp(pixels * this.WHEEL_ZOOM_SPEED));
+      }
+    });
   }
 
   private setupPointerLock(): void {
@@ -89,20 +252,20 @@ export class ControlsManager {
     document.addEventListener('pointerlockchange', () => {
       this.isPointerLocked = document.pointerLockElement === canvas;
       
-      const info = document.getElementById('info');
-      if (info) {
-        const clickText = info.querySelector('div:last-child');
-        if (clickText) {
-          clickText.textContent = this.isPointerLocked ? 'Press ESC to unlock mouse' : 'Click to start';
-        }
-      }
-      
-      const crosshair = document.getElementById('crosshair');
-      if (crosshair) {
-        crosshair.style.display = this.isPointerLocked ? 'block' : 'none';
-      }
+      this.updateHelpText();
+      this.updateCrosshair();
     });
   }
+  
+  // The crosshair only shows in views where the camera aims
+  private updateCrosshair(): void {
+    this.wasDesktopPlaying = this.isDesktopPlaying();
+    const aiming = this.bean.cameraView === CameraView.FIRST_PERSON || this.bean.cameraView === CameraView.FOLLOW;
+    const crosshair = document.getElementById('crosshair');
+    if (crosshair) {
+      crosshair.style.display = this.wasDesktopPlaying && (aiming || !!this.photoMode?.isActive) ? 'block' : 'none';
+    }
+  }
 
   setupVRController(controller: WebXRInputSource): void {
     // Determine if this is left or right controller
@@ -111,66 +274,27 @@ export class ControlsManager {
     
     if (handedness === 'left') {
       this.leftController = controller;
-      this.setupLeftController(controller);
+      this.setupControllerBindings(controller, 'left');
     } else if (handedness === 'right') {
       this.rightController = controller;
-      this.setupRightController(controller);
+      this.setupControllerBindings(controller, 'right');
     }
   }
   
-  private setupLeftController(controller: WebXRInputSource): void {
+  // Every button on the controller reports to the action layer as "xr:<hand>:<component id>"
+  private setupControllerBindings(controller: WebXRInputSource, hand: 'left' | 'right'): void {
     controller.onMotionControllerInitObservable.add((motionController) => {
-      // Left controller handles rotation in standard Babylon.js movement
-      
-      // X button for menu on Quest controllers
-      const xButton = motionController.getComponent('x-button');
-      if (xButton) {
-        xButton.onButtonStateChangedObservable.add((component) => {
-          if (component.pressed) {
+      motionController.getComponentIds().forEach((id) => {
+        const binding = `xr:${hand}:${id}`;
+        // Button observables also fire on value/touch changes; press() ignores repeats
+        motionController.getComponent(id).onButtonStateChangedObservable.add((component) => {
+          if (!component.pressed) {
+            this.inputs.release(binding);
+          } else if (this.inputs.press(binding)) {
             this.pulseController(controller, 0.2, 30);
-            this.showVRMenu();
           }
         });
-      }
-      
-      // Y button as alternative menu button
-      const yButton = motionController.getComponent('y-button');
-      if (yButton) {
-        yButton.onButtonStateChangedObservable.add((component) => {
-          if (component.pressed) {
-            this.pulseController(controller, 0.2, 30);
-            this.showVRMenu();
-          }
-        });
-      }
-    });
-  }
-  
-  private setupRightController(controller: WebXRInputSource): void {
-    controller.onMotionControllerInitObservable.add((motionController) => {
-      // Right controller handles movement in standard Babylon.js movement
-      
-      // A button as alternative menu access
-      const aButton = motionController.getComponent('a-button');
-      if (aButton) {
-        aButton.onButtonStateChangedObservable.add((component) => {
-          if (component.pressed) {
-            this.pulseController(controller, 0.2, 30);
-            this.showVRMenu();
-          }
-        });
-      }
-      
-      // Right trigger for running/speed boost
-      const trigger = motionController.getComponent('xr-standard-trigger');
-      if (trigger) {
-        trigger.onButtonStateChangedObservable.add((component) => {
-          this.bean.setRunning(component.pressed);
-          if (component.pressed) {
-            this.pulseController(controller, 0.3, 50);
-          }
-        });
-      }
+      });
     });
   }
   
@@ -186,6 +310,37 @@ export class ControlsManager {
     }
   }
   
+  private interact(): void {
+    window.dispatchEvent(new CustomEvent('interact'));
+  }
+  
+  // Haptic feedback on whatever the player is holding: the right controller in VR, otherwise the gamepad
+  pulse(intensity: number, duration: number): void {
+    if (this.isVRMode) {
+      if (this.rightController) this.pulseController(this.rightController, intensity, duration);
+    } else {
+      this.gamepad.pulse(intensity, duration);
+    }
+  }
+  
+  // Ray used to target interactable objects: the crosshair on desktop, the right controller pointer in VR
+  getInteractionRay(): Ray | null {
+    if (this.isVRMode) {
+      if (!this.rightController) return null;
+      const ray = new Ray(Vector3.Zero(), Vector3.Forward(), this.TARGET_RAY_LENGTH);
+      this.rightController.getWorldPointerRayToRef(ray);
+      return ray;
+    }
+    
+    if (!this.isDesktopPlaying()) return null;
+    // The map and cinematic cameras are too far away to aim with, so Bean uses its nose
+    if (this.bean.cameraView === CameraView.OVERHEAD || this.bean.cameraView === CameraView.CINEMATIC) {
+      const direction = new Vector3(Math.sin(this.bean.rotation.y), 0, Math.cos(this.bean.rotation.y));
+      return new Ray(this.bean.getMouthPosition(), direction, this.NOSE_RAY_LENGTH);
+    }
+    return this.camera.getForwardRay(this.TARGET_RAY_LENGTH);
+  }
+  
   private showVRMenu(): void {
     // Dispatch event to show VR menu
     window.dispatchEvent(new CustomEvent('showVRMenu'));
@@ -194,6 +349,8 @@ export class ControlsManager {
   setVRMode(enabled: boolean, xrHelper?: WebXRDefaultExperience): void {
     this.isVRMode = enabled;
     this.xrHelper = xrHelper;
+    this.touch.setVisible(this.isEnabled && !enabled);
+    this.bean.setPhysicsEnabled(!enabled);
     
     if (enabled) {
       this.releaseAllKeys();
@@ -204,11 +361,14 @@ export class ControlsManager {
   }
 
   releaseAllKeys(): void {
-    this.keys.clear();
+    this.inputs.releaseAll();
     this.bean.setRunning(false);
+    this.bean.setCrouching(false);
   }
   
   setEnabled(enabled: boolean): void {
+    this.isEnabled = enabled;
+    this.touch.setVisible(enabled && !this.isVRMode);
     if (!enabled) {
       this.releaseAllKeys();
       if (this.isPointerLocked) {
@@ -217,6 +377,40 @@ export class ControlsManager {
     }
   }
 
+  setCameraView(view: CameraView): void {
+    this.bean.setCameraView(view);
+    this.updateInfoPanel(VIEW_LABELS[view]);
+    this.updateCrosshair();
+  }
+  
+  // Scroll wheel and pinch: photo mode zooms the lens, otherwise the camera moves in or out
+  private zoom(factor: number): void {
+    if (this.photoMode?.isActive) {
+      this.photoMode.zoom(factor);
+    } else {
+      this.bean.zoomCamera(factor);
+    }
+  }
+
+  // Fills the info panel's controls help from the current bindings
+  private updateHelpText(): void {
+    const help = document.getElementById('controls-help');
+    if (help) {
+      help.replaceChildren(...this.inputs.getHelpLines().map(line => {
+        const div = document.createElement('div');
+        div.textContent = line;
+        return div;
+      }));
+    }
+    
+    const status = document.getElementById('pointer-status');
+    if (status) {
+      status.textContent = this.isPointerLocked
+        ? `Press ${this.inputs.describe('Menu', ['keyboard'])} to unlock mouse`
+        : 'Click to start';
+    }
+  }
+
   private updateInfoPanel(viewMode: string): void {
     const info = document.getElementById('info');
     if (info) {
@@ -236,47 +430,74 @@ export class ControlsManager {
   }
 
   private updateDesktopControls(deltaTime: number): void {
-    if (!this.isPointerLocked) return;
+    const { gamepadDeadZone, gamepadCurve, gamepadLookSpeed, mouseSensitivity, invertY } = this.settings.get();
+    // Polled even in menus so button releases are never missed
+    const pad = this.gamepad.poll(gamepadDeadZone, gamepadCurve);
     
-    let forward = 0;
-    let strafe = 0;
-    let rotateSpeed = 0;
-    
-    // W/S and Up/Down arrows for forward/backward movement
-    if (this.keys.get('w') || this.keys.get('arrowup')) forward = 1;
-    if (this.keys.get('s') || this.keys.get('arrowdown')) forward = -1;
-    
-    // Z/X for strafing
-    if (this.keys.get('z')) strafe = -1;  // Strafe left
-    if (this.keys.get('x')) strafe = 1;   // Strafe right
-    
-    // A/D also strafe (alternative keys)
-    if (this.keys.get('a')) strafe = -1;
-    if (this.keys.get('d')) strafe = 1;
-    
-    // Left/Right arrow keys for rotation
-    if (this.keys.get('arrowleft')) rotateSpeed = -2;   // Rotate left
-    if (this.keys.get('arrowright')) rotateSpeed = 2;   // Rotate right
+    if (this.isDesktopPlaying() !== this.wasDesktopPlaying) {
+      this.updateCrosshair();
+    }
+    if (!this.isDesktopPlaying()) return;
     
-    this.bean.setRunning(this.keys.get('shift') || false);
+    let forward = this.axis('MoveBackward', 'MoveForward');
+    let strafe = this.axis('StrafeLeft', 'StrafeRight');
+    // The turn keys turn Bean; looking from every other device adds up, in radians
+    const turn = this.axis('TurnLeft', 'TurnRight') * 2 * deltaTime;
+    let yaw = 0;
+    let pitch = 0;
     
-    this.bean.move(forward, strafe, deltaTime);
+    if (pad) {
+      // Analog sticks move at a speed proportional to deflection
+      forward = Math.max(-1, Math.min(1, forward + pad.move.y));
+      strafe = Math.max(-1, Math.min(1, strafe + pad.move.x));
+      
+      const lookSpeed = this.GAMEPAD_LOOK_SPEED * gamepadLookSpeed * deltaTime;
+      yaw += pad.look.x * lookSpeed;
+      pitch += (invertY ? -1 : 1) * pad.look.y * lookSpeed;
+    }
     
-    // Apply keyboard rotation
-    if (rotateSpeed !== 0) {
-      this.bean.rotate(rotateSpeed * deltaTime, 0);
+    if (this.touch.isActive()) {
+      const stick = this.touch.getMove();
+      forward = Math.max(-1, Math.min(1, forward + stick.y));
+      strafe = Math.max(-1, Math.min(1, strafe + stick.x));
+      
+      // Dragging looks like moving the mouse
+      const look = this.touch.consumeLook();
+      const sensitivity = this.TOUCH_LOOK_SENSITIVITY * mouseSensitivity;
+      yaw += look.x * sensitivity;
+      pitch += (invertY ? 1 : -1) * look.y * sensitivity;
+      this.zoom(this.touch.consumeZoom());
     }
     
     // Apply mouse rotation for looking
     if (this.mouseMovement.x !== 0 || this.mouseMovement.y !== 0) {
-      const yaw = this.mouseMovement.x * this.MOUSE_SENSITIVITY;
-      const pitch = -this.mouseMovement.y * this.MOUSE_SENSITIVITY;
-      
-      this.bean.rotate(yaw, pitch);
+      const sensitivity = this.MOUSE_SENSITIVITY * mouseSensitivity;
+      yaw += this.mouseMovement.x * sensitivity;
+      pitch += (invertY ? 1 : -1) * this.mouseMovement.y * sensitivity;
       
       this.mouseMovement.x = 0;
       this.mouseMovement.y = 0;
     }
+    
+    // Photo mode flies the camera instead of moving Bean; jump and crouch go up and down
+    if (this.photoMode?.isActive) {
+      this.photoMode.fly(forward, strafe, this.axis('Crouch', 'Jump'), this.inputs.isActive('Run'), deltaTime);
+      this.photoMode.look(turn + yaw, pitch);
+      return;
+    }
+    
+    this.bean.move(forward, strafe, deltaTime);
+    if (turn !== 0) {
+      this.bean.rotate(turn, 0);
+    }
+    if (yaw !== 0 || pitch !== 0) {
+      this.bean.look(yaw, pitch);
+    }
+  }
+
+  // -1, 0 or 1 from a pair of opposing actions
+  private axis(negative: InputAction, positive: InputAction): number {
+    return (this.inputs.isActive(positive) ? 1 : 0) - (this.inputs.isActive(negative) ? 1 : 0);
   }
 
   private updateVRControls(deltaTime: number): void {
@@ -292,13 +513,22 @@ export class ControlsManager {
       this.bean.position.x = cameraWorldPos.x;
       this.bean.position.z = cameraWorldPos.z;
       
-      // Keep Bean at floor level - no vertical movement from head pitch
+      // Drive walk/idle animation from how far the headset moved Bean this frame
+      const horizontalStep = Math.hypot(cameraWorldPos.x - this.lastVRPosition.x, cameraWorldPos.z - this.lastVRPosition.z);
+      this.bean.isMoving = horizontalStep > 0.001;
+      if (deltaTime > 0) {
+        this.bean.velocity.x = (cameraWorldPos.x - this.lastVRPosition.x) / deltaTime;
+        this.bean.velocity.z = (cameraWorldPos.z - this.lastVRPosition.z) / deltaTime;
+      }
+      this.lastVRPosition.copyFrom(cameraWorldPos);
+      
+      // Keep Bean on the floor below, except while jumping or falling
       const floorHeight = this.detectFloorHeight(this.bean.position);
-      this.bean.position.y = floorHeight + this.bean.HEIGHT;
+      this.bean.updateVRHeight(floorHeight, deltaTime, this.lastKnownFloorMesh);
       
       // CRITICAL: Force the XR camera to stay at ground level
       // The camera should ONLY move horizontally, never vertically from locomotion
-      const desiredCameraHeight = floorHeight + 1.6; // Standard VR eye height
+      const desiredCameraHeight = this.bean.getFeetHeight() + 1.6; // Standard VR eye height
       
       // Calculate the difference between where the camera is and where it should be
       const heightError = cameraWorldPos.y - desiredCameraHeight;
@@ -336,7 +566,7 @@ export class ControlsManager {
     // Pick all intersections, not just the first one
     const multiPickInfo = this.scene.multiPickWithRay(ray, (mesh) => {
       // Check for any walkable surface
-      return !mesh.name.includes('bean') &&
+      return !this.bean.ownsMesh(mesh) &&
              mesh.isVisible &&
              mesh.isEnabled();
     });
@@ -344,6 +574,7 @@ export class ControlsManager {
     if (multiPickInfo && multiPickInfo.length > 0) {
       // Find the hit point that's closest to but below our current position
       let closestFloor = -Infinity;
+      let closestMesh: AbstractMesh | null = null;
       
       for (const pickInfo of multiPickInfo) {
         if (pickInfo.hit && pickInfo.pickedPoint) {
@@ -352,6 +583,7 @@ export class ControlsManager {
           // This should be the floor we're standing on or about to stand on
           if (hitY <= position.y + 0.5 && hitY > closestFloor) {
             closestFloor = hitY;
+            closestMesh = pickInfo.pickedMesh;
           }
         }
       }
@@ -359,22 +591,26 @@ export class ControlsManager {
       // If we found a floor below us, use it
       if (closestFloor > -Infinity) {
         this.lastKnownFloorHeight = closestFloor;
+        this.lastKnownFloorMesh = closestMesh;
         return closestFloor;
       }
       
       // Otherwise, find the lowest surface (actual floor)
       let lowestY = Infinity;
+      let lowestMesh: AbstractMesh | null = null;
       for (const pickInfo of multiPickInfo) {
         if (pickInfo.hit && pickInfo.pickedPoint) {
           const hitY = pickInfo.pickedPoint.y;
           if (hitY < lowestY) {
             lowestY = hitY;
+            lowestMesh = pickInfo.pickedMesh;
           }
         }
       }
       
       if (lowestY < Infinity) {
         this.lastKnownFloorHeight = lowestY;
+        this.lastKnownFloorMesh = lowestMesh;
         return lowestY;
       }
     }
@@ -0,0 +1,108 @@
+import { InputActions } from './InputActions';
+
+// Returns the browser's gamepad slots; injectable so tests can fake a controller
+export type GamepadProvider = () => readonly (Gamepad | null)[];
+
+export interface StickState {
+  x: number;  // -1 (left) to 1 (right)
+  y: number;  // -1 (down/back) to 1 (up/forward)
+}
+
+export interface GamepadState {
+  move: StickState;  // Left stick
+  look: StickState;  // Right stick
+}
+
+// Standard mapping axes (https://w3c.github.io/gamepad/#remapping)
+const LEFT_STICK_X = 0;
+const LEFT_STICK_Y = 1;
+const RIGHT_STICK_X = 2;
+const RIGHT_STICK_Y = 3;
+
+const defaultProvider: GamepadProvider = () =>
+  typeof navigator !== 'undefined' && navigator.getGamepads ? Array.from(navigator.getGamepads()) : [];
+
+/**
+ * Shapes a raw stick reading: a radial dead zone removes drift around the centre,
+ * the rest is rescaled to 0-1 and raised to `curve` so small deflections give
+ * finer control. The result never exceeds a magnitude of 1.
+ */
+export function shapeStick(x: number, y: number, deadZone: number, curve: number): StickState {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude <= deadZone || magnitude === 0) {
+    return { x: 0, y: 0 };
+  }
+  const scaled = Math.min(1, (magnitude - deadZone) / (1 - deadZone));
+  const shaped = Math.pow(scaled, curve) / magnitude;
+  return { x: x * shaped, y: y * shaped };
+}
+
+/**
+ * Polls the first connected gamepad (Xbox/PlayStation layouts use the standard
+ * mapping). Buttons are reported to the action layer as "gamepad:<index>";
+ * sticks are returned from poll() for analog movement and look.
+ */
+export class GamepadInput {
+  private inputs: InputActions;
+  private provider: GamepadProvider;
+  private gamepad: Gamepad | null = null;
+  private buttonsHeld: boolean[] = [];
+
+  constructor(inputs: InputActions, provider: GamepadProvider = defaultProvider) {
+    this.inputs = inputs;
+    this.provider = provider;
+  }
+
+  isConnected(): boolean {
+    return this.gamepad !== null;
+  }
+
+  // Reads the gamepad once per frame; returns null while none is connected
+  poll(deadZone: number, curve: number): GamepadState | null {
+    const gamepad = this.provider().find(pad => pad?.connected) ?? null;
+    if (gamepad?.id !== this.gamepad?.id) {
+      this.releaseButtons();
+      console.log(gamepad ? `Gamepad connected: ${gamepad.id}` : 'Gamepad disconnected');
+    }
+    this.gamepad = gamepad;
+    if (!gamepad) return null;
+
+    gamepad.buttons.forEach((button, index) => {
+      if (button.pressed !== (this.buttonsHeld[index] ?? false)) {
+        this.buttonsHeld[index] = button.pressed;
+        if (button.pressed) {
+          this.inputs.press(`gamepad:${index}`);
+        } else {
+          this.inputs.release(`gamepad:${index}`);
+        }
+      }
+    });
+
+    // Stick Y axes point down; flip them so pushing up is forward
+    const axis = (index: number) => gamepad.axes[index] ?? 0;
+    return {
+      move: shapeStick(axis(LEFT_STICK_X), -axis(LEFT_STICK_Y), deadZone, curve),
+      look: shapeStick(axis(RIGHT_STICK_X), -axis(RIGHT_STICK_Y), deadZone, curve)
+    };
+  }
+
+  // Rumble, where the browser and controller support it
+  pulse(intensity: number, duration: number): void {
+    // Typed as always there, but older browsers and some controllers leave it out
+    const actuator: GamepadHapticActuator | undefined = this.gamepad?.vibrationActuator;
+    actuator?.playEffect('dual-rumble', {
+      duration,
+      strongMagnitude: intensity,
+      weakMagnitude: intensity
+    }).catch(() => {
+      // Silently fail if rumble not supported
+    });
+  }
+
+  private releaseButtons(): void {
+    this.buttonsHeld.forEach((held, index) => {
+      if (held) this.inputs.release(`gamepad:${index}`);
+    });
+    this.buttonsHeld = [];
+  }
+}
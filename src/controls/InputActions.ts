@@ -0,0 +1,365 @@
+import { Observable } from '@babylonjs/core';
+
+export type InputAction =
+  | 'MoveForward'
+  | 'MoveBackward'
+  | 'StrafeLeft'
+  | 'StrafeRight'
+  | 'TurnLeft'
+  | 'TurnRight'
+  | 'Run'
+  | 'Jump'
+  | 'Crouch'
+  | 'Sit'
+  | 'LieDown'
+  | 'Interact'
+  | 'Bark'
+  | 'SwitchView'
+  | 'FirstPersonView'
+  | 'FollowView'
+  | 'OverheadView'
+  | 'CinematicView'
+  | 'PhotoMode'
+  | 'PhotoFilter'
+  | 'DepthOfField'
+  | 'HideUI'
+  | 'QuickSave'
+  | 'Menu';
+
+// A physical input, written as "<device>:<input>":
+//   keyboard:w        KeyboardEvent.code, normalised by keyBinding() ("KeyW" is w, both Shifts are shift)
+//   mouse:0           MouseEvent.button
+//   gamepad:0         standard gamepad button index
+//   xr:right:a-button XR controller hand and motion controller component id
+//   touch:jump        on-screen touch button
+export type InputBinding = string;
+export type InputDevice = 'keyboard' | 'mouse' | 'gamepad' | 'xr' | 'touch';
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  MoveForward: 'Move forward',
+  MoveBackward: 'Move backward',
+  StrafeLeft: 'Strafe left',
+  StrafeRight: 'Strafe right',
+  TurnLeft: 'Turn left',
+  TurnRight: 'Turn right',
+  Run: 'Run',
+  Jump: 'Jump',
+  Crouch: 'Crouch',
+  Sit: 'Sit',
+  LieDown: 'Lie down',
+  Interact: 'Interact',
+  Bark: 'Bark',
+  SwitchView: 'Switch view',
+  FirstPersonView: 'First-person view',
+  FollowView: 'Follow view',
+  OverheadView: 'Map view',
+  CinematicView: 'Cinematic view',
+  PhotoMode: 'Photo mode',
+  PhotoFilter: 'Photo filter',
+  DepthOfField: 'Depth of field',
+  HideUI: 'Hide UI',
+  QuickSave: 'Quick save',
+  Menu: 'Menu'
+};
+
+export const INPUT_ACTIONS = Object.keys(ACTION_LABELS) as InputAction[];
+
+export const DEFAULT_BINDINGS: Record<InputAction, InputBinding[]> = {
+  MoveForward: ['keyboard:w', 'keyboard:arrowup'],
+  MoveBackward: ['keyboard:s', 'keyboard:arrowdown'],
+  StrafeLeft: ['keyboard:a', 'keyboard:z'],
+  StrafeRight: ['keyboard:d', 'keyboard:x'],
+  TurnLeft: ['keyboard:arrowleft'],
+  TurnRight: ['keyboard:arrowright'],
+  Run: ['keyboard:shift', 'gamepad:10', 'xr:right:xr-standard-trigger', 'touch:run'],
+  Jump: ['keyboard:space', 'gamepad:0', 'xr:right:a-button', 'touch:jump'],
+  Crouch: ['keyboard:c', 'gamepad:1', 'xr:left:xr-standard-squeeze'],
+  Sit: ['keyboard:q', 'gamepad:3', 'xr:right:b-button'],
+  LieDown: ['keyboard:r', 'gamepad:13', 'xr:right:xr-standard-thumbstick'],
+  Interact: ['keyboard:e', 'mouse:0', 'gamepad:2', 'xr:right:xr-standard-squeeze', 'touch:interact'],
+  Bark: ['keyboard:b', 'gamepad:5', 'xr:left:xr-standard-trigger', 'touch:bark'],
+  SwitchView: ['keyboard:v', 'gamepad:8', 'touch:view'],
+  FirstPersonView: ['keyboard:1'],
+  FollowView: ['keyboard:2'],
+  OverheadView: ['keyboard:3'],
+  CinematicView: ['keyboard:4'],
+  PhotoMode: ['keyboard:p', 'gamepad:4'],
+  PhotoFilter: ['keyboard:f', 'gamepad:14'],
+  DepthOfField: ['keyboard:g', 'gamepad:15'],
+  HideUI: ['keyboard:h', 'gamepad:12'],
+  QuickSave: ['keyboard:k'],
+  Menu: ['keyboard:escape', 'gamepad:9', 'xr:left:x-button', 'xr:left:y-button', 'touch:menu']
+};
+
+export interface ActionChange {
+  action: InputAction;
+  pressed: boolean;
+  binding: InputBinding;
+}
+
+// Help text layout: one entry per line, each a list of labelled action groups
+interface HelpEntry {
+  label: string;
+  actions?: InputAction[];
+  keys?: string;  // Fixed text for inputs that aren't actions, like mouse look
+}
+
+const HELP_LINES: HelpEntry[][] = [
+  [
+    { label: 'Move', actions: ['MoveForward', 'StrafeLeft', 'MoveBackward', 'StrafeRight'] },
+    { label: 'Look', keys: 'Mouse' },
+    { label: 'Turn', actions: ['TurnLeft', 'TurnRight'] },
+    { label: 'Run', actions: ['Run'] }
+  ],
+  [
+    { label: 'Jump', actions: ['Jump'] },
+    { label: 'Crouch', actions: ['Crouch'] },
+    { label: 'Sit', actions: ['Sit'] },
+    { label: 'Lie down', actions: ['LieDown'] },
+    { label: 'Interact', actions: ['Interact'] },
+    { label: 'Bark', actions: ['Bark'] }
+  ],
+  [
+    { label: 'View', actions: ['SwitchView'] },
+    { label: 'FPV', actions: ['FirstPersonView'] },
+    { label: 'Follow', actions: ['FollowView'] },
+    { label: 'Map', actions: ['OverheadView'] },
+    { label: 'Cinematic', actions: ['CinematicView'] },
+    { label: 'Photo', actions: ['PhotoMode'] },
+    { label: 'Save', actions: ['QuickSave'] },
+    { label: 'Menu', actions: ['Menu'] }
+  ]
+];
+
+const KEY_NAMES: Record<string, string> = {
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→',
+  escape: 'Esc',
+  control: 'Ctrl',
+  backquote: '`',
+  minus: '-',
+  equal: '=',
+  bracketleft: '[',
+  bracketright: ']',
+  backslash: '\\',
+  semicolon: ';',
+  quote: "'",
+  comma: ',',
+  period: '.',
+  slash: '/'
+};
+
+const MOUSE_BUTTON_NAMES = ['Click', 'Middle click', 'Right click'];
+
+// Standard gamepad mapping, named as on an Xbox pad
+const GAMEPAD_BUTTON_NAMES = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'View', 'Menu', 'L3', 'R3', 'D-pad up', 'D-pad down', 'D-pad left', 'D-pad right', 'Home'];
+
+const STORAGE_KEY = 'bean-simulator:bindings';
+
+// Keys are bound by where they are (KeyboardEvent.code) rather than what they type,
+// so Shift can't change a key between its press and release and leave it held
+export function keyBinding(code: string): InputBinding {
+  const key = code
+    .replace(/^Key([A-Z])$/, '$1')
+    .replace(/^Digit(\d)$/, '$1')
+    .replace(/^(Shift|Control|Alt|Meta)(Left|Right)$/, '$1');
+  return `keyboard:${key.toLowerCase()}`;
+}
+
+export function bindingDevice(binding: InputBinding): InputDevice {
+  return binding.slice(0, binding.indexOf(':')) as InputDevice;
+}
+
+// Short human readable name for a binding, e.g. "Space", "Click", "A button"
+export function describeBinding(binding: InputBinding): string {
+  const input = binding.slice(binding.indexOf(':') + 1);
+  switch (bindingDevice(binding)) {
+    case 'keyboard':
+      return KEY_NAMES[input] ?? (input.length === 1 ? input.toUpperCase() : input.charAt(0).toUpperCase() + input.slice(1));
+    case 'mouse':
+      return MOUSE_BUTTON_NAMES[Number(input)] ?? `Mouse ${input}`;
+    case 'gamepad':
+      return GAMEPAD_BUTTON_NAMES[Number(input)] ?? `Button ${input}`;
+    case 'touch':
+      return `${input.charAt(0).toUpperCase() + input.slice(1)} button`;
+    default: {
+      const component = input.slice(input.indexOf(':') + 1).replace('xr-standard-', '').replace('-', ' ');
+      return component.charAt(0).toUpperCase() + component.slice(1);
+    }
+  }
+}
+
+/**
+ * Maps physical inputs (keys, mouse and gamepad buttons, XR controller components)
+ * to game actions through a binding table that can be changed at runtime and is
+ * persisted to localStorage. Input sources report presses and releases as bindings;
+ * game code only ever looks at actions.
+ */
+export class InputActions {
+  private storage: Storage;
+  private bindings: Record<InputAction, InputBinding[]>;
+  private held: Set<InputBinding> = new Set();
+
+  readonly onActionObservable = new Observable<ActionChange>();
+  // Every new press, bound or not, e.g. for waiting on the button to rebind an action to
+  readonly onPressObservable = new Observable<InputBinding>();
+  readonly onBindingsChangedObservable = new Observable<void>();
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+    this.bindings = this.load();
+  }
+
+  getBindings(action: InputAction): readonly InputBinding[] {
+    return this.bindings[action];
+  }
+
+  getActions(binding: InputBinding): InputAction[] {
+    return INPUT_ACTIONS.filter(action => this.bindings[action].includes(binding));
+  }
+
+  isActive(action: InputAction): boolean {
+    return this.bindings[action].some(binding => this.held.has(binding));
+  }
+
+  // Returns true when the input is bound and wasn't already held, so callers can
+  // suppress browser defaults or give haptic feedback
+  press(binding: InputBinding): boolean {
+    if (this.held.has(binding)) return false;
+    this.onPressObservable.notifyObservers(binding);
+    const actions = this.getActions(binding);
+    const wasActive = actions.map(action => this.isActive(action));
+    this.held.add(binding);
+
+    actions.forEach((action, i) => {
+      if (!wasActive[i]) {
+        this.onActionObservable.notifyObservers({ action, pressed: true, binding });
+      }
+    });
+    return actions.length > 0;
+  }
+
+  release(binding: InputBinding): void {
+    if (!this.held.delete(binding)) return;
+    this.getActions(binding).forEach(action => {
+      if (!this.isActive(action)) {
+        this.onActionObservable.notifyObservers({ action, pressed: false, binding });
+      }
+    });
+  }
+
+  releaseAll(): void {
+    Array.from(this.held).forEach(binding => this.release(binding));
+  }
+
+  // Replaces the action's bindings for the new input's device and takes the input
+  // away from any other action, so one key never triggers two things
+  rebind(action: InputAction, binding: InputBinding): void {
+    const device = bindingDevice(binding);
+    this.release(binding);
+    INPUT_ACTIONS.forEach(other => {
+      this.bindings[other] = this.bindings[other].filter(existing =>
+        existing !== binding && !(other === action && bindingDevice(existing) === device)
+      );
+    });
+    this.bindings[action].unshift(binding);
+    this.save();
+    this.onBindingsChangedObservable.notifyObservers();
+  }
+
+  resetBindings(): void {
+    this.releaseAll();
+    this.bindings = this.copyDefaults();
+    this.save();
+    this.onBindingsChangedObservable.notifyObservers();
+  }
+
+  // All bindings of an action on the given devices, e.g. "E/Click"
+  describe(action: InputAction, devices: InputDevice[] = ['keyboard', 'mouse']): string {
+    const names = this.bindings[action]
+      .filter(binding => devices.includes(bindingDevice(binding)))
+      .map(describeBinding);
+    return names.length > 0 ? names.join('/') : 'Unbound';
+  }
+
+  // Desktop help text generated from the current bindings, one string per line
+  getHelpLines(): string[] {
+    return HELP_LINES.map(line => line.map(entry => `${entry.label}: ${this.describeHelpEntry(entry)}`).join(' | '));
+  }
+
+  private describeHelpEntry(entry: HelpEntry): string {
+    if (entry.keys) return entry.keys;
+    const actions = entry.actions!;
+    if (actions.length === 1) return this.describe(actions[0]);
+
+    // Groups show each action's first key, run together when they're all letters ("WASD")
+    const keys = actions.map(action => {
+      const binding = this.bindings[action].find(b => bindingDevice(b) === 'keyboard' || bindingDevice(b) === 'mouse');
+      return binding ? describeBinding(binding) : '?';
+    });
+    return keys.every(key => /^[A-Z]$/.test(key)) ? keys.join('') : keys.join('/');
+  }
+
+  private copyDefaults(): Record<InputAction, InputBinding[]> {
+    const bindings = {} as Record<InputAction, InputBinding[]>;
+    INPUT_ACTIONS.forEach(action => {
+      bindings[action] = [...DEFAULT_BINDINGS[action]];
+    });
+    return bindings;
+  }
+
+  // Only what the player changed is stored, as each action's bindings for a device,
+  // and merged over the defaults, so defaults added in later builds still arrive.
+  // Unknown or malformed entries are ignored.
+  private load(): Record<InputAction, InputBinding[]> {
+    const bindings = this.copyDefaults();
+    let stored: Record<string, unknown> = {};
+    try {
+      stored = JSON.parse(this.storage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+    } catch (error) {
+      console.warn('Failed to read input bindings, using defaults:', error);
+    }
+
+    const overridden = new Set<string>();  // "<action>/<device>"
+    const claimed = new Set<InputBinding>();
+    INPUT_ACTIONS.forEach(action => {
+      const devices = stored[action];
+      if (typeof devices !== 'object' || devices === null || Array.isArray(devices)) return;
+      Object.entries(devices).forEach(([device, value]) => {
+        if (!Array.isArray(value) || !value.every(binding => typeof binding === 'string' && bindingDevice(binding) === device)) return;
+        bindings[action] = [...value, ...bindings[action].filter(binding => bindingDevice(binding) !== device)];
+        overridden.add(`${action}/${device}`);
+        value.forEach(binding => claimed.add(binding));
+      });
+    });
+
+    // A default that uses an input the player gave to something else gives way
+    INPUT_ACTIONS.forEach(action => {
+      bindings[action] = bindings[action].filter(binding =>
+        !claimed.has(binding) || overridden.has(`${action}/${bindingDevice(binding)}`)
+      );
+    });
+    return bindings;
+  }
+
+  private save(): void {
+    const changes: Partial<Record<InputAction, Partial<Record<InputDevice, InputBinding[]>>>> = {};
+    INPUT_ACTIONS.forEach(action => {
+      const devices = new Set([...this.bindings[action], ...DEFAULT_BINDINGS[action]].map(bindingDevice));
+      devices.forEach(device => {
+        const current = this.bindings[action].filter(binding => bindingDevice(binding) === device);
+        const defaults = DEFAULT_BINDINGS[action].filter(binding => bindingDevice(binding) === device);
+        if (current.join() !== defaults.join()) {
+          changes[action] = { ...changes[action], [device]: current };
+        }
+      });
+    });
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(changes));
+    } catch (error) {
+      console.warn('Failed to save input bindings:', error);
+    }
+  }
+}
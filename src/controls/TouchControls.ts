@@ -0,0 +1,221 @@
+import { InputActions } from './InputActions';
+import { StickState } from './GamepadInput';
+
+interface TouchButton {
+  binding: string;  // Reported to the action layer, e.g. "touch:jump"
+  label: string;
+}
+
+const BUTTONS: TouchButton[] = [
+  { binding: 'touch:jump', label: 'Jump' },
+  { binding: 'touch:interact', label: 'Sniff' },
+  { binding: 'touch:bark', label: 'Bark' },
+  { binding: 'touch:run', label: 'Run' },
+  { binding: 'touch:view', label: 'View' },
+  { binding: 'touch:menu', label: 'Menu' }
+];
+
+const STICK_RADIUS = 50;  // Knob travel from the centre of the thumbstick (px)
+
+/**
+ * On-screen controls for phones and tablets, which can't use pointer lock.
+ * Turns itself on the first time the screen is touched: a virtual thumbstick
+ * for moving, drag anywhere else to look, pinch to zoom the follow camera, and
+ * buttons that press "touch:*" bindings in the action layer.
+ */
+export class TouchControls {
+  private inputs: InputActions;
+  private root?: HTMLDivElement;
+  private knob?: HTMLDivElement;
+  private active: boolean = false;
+  private visible: boolean = false;
+
+  private stickPointer: number | null = null;
+  private stickCentre = { x: 0, y: 0 };
+  private move: StickState = { x: 0, y: 0 };
+
+  private lookPointers: Map<number, { x: number; y: number }> = new Map();
+  private look = { x: 0, y: 0 };
+  private pinchDistance = 0;
+  private zoom = 1;
+
+  constructor(inputs: InputActions) {
+    this.inputs = inputs;
+  }
+
+  init(): void {
+    if (navigator.maxTouchPoints > 0 && window.matchMedia?.('(pointer: coarse)').matches) {
+      this.activate();
+    }
+    // Touch laptops report fine pointers, so also switch over on the first real touch
+    window.addEventListener('pointerdown', (e) => {
+      if (e.pointerType === 'touch' && !this.active) {
+        this.activate();
+      }
+    });
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  // Controls only show while playing; menus need the touches themselves
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    if (this.root) {
+      this.root.style.display = visible && this.active ? 'block' : 'none';
+    }
+    if (!visible) {
+      this.releaseAll();
+    }
+  }
+
+  // Left thumbstick, magnitude 0-1
+  getMove(): StickState {
+    return this.move;
+  }
+
+  // Pixels dragged since the last call
+  consumeLook(): { x: number; y: number } {
+    const look = this.look;
+    this.look = { x: 0, y: 0 };
+    return look;
+  }
+
+  // Follow camera distance factor since the last call; below 1 zooms in
+  consumeZoom(): number {
+    const zoom = this.zoom;
+    this.zoom = 1;
+    return zoom;
+  }
+
+  private activate(): void {
+    this.active = true;
+    console.log('Touch controls enabled');
+    this.createElements();
+    this.setVisible(this.visible);
+  }
+
+  private createElements(): void {
+    this.root = document.createElement('div');
+    this.root.id = 'touch-controls';
+
+    // Look area fills the screen behind the stick and buttons
+    const lookArea = document.createElement('div');
+    lookArea.className = 'touch-look';
+    lookArea.addEventListener('pointerdown', (e) => this.onLookDown(e));
+    lookArea.addEventListener('pointermove', (e) => this.onLookMove(e));
+    ['pointerup', 'pointercancel'].forEach(type => {
+      lookArea.addEventListener(type, (e) => this.onLookUp(e as PointerEvent));
+    });
+    this.root.appendChild(lookArea);
+
+    const stick = document.createElement('div');
+    stick.className = 'touch-stick';
+    this.knob = document.createElement('div');
+    this.knob.className = 'touch-stick-knob';
+    stick.appendChild(this.knob);
+    stick.addEventListener('pointerdown', (e) => {
+      stick.setPointerCapture(e.pointerId);
+      const rect = stick.getBoundingClientRect();
+      this.stickPointer = e.pointerId;
+      this.stickCentre = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+      this.updateStick(e);
+    });
+    stick.addEventListener('pointermove', (e) => {
+      if (e.pointerId === this.stickPointer) this.updateStick(e);
+    });
+    ['pointerup', 'pointercancel'].forEach(type => {
+      stick.addEventListener(type, (e) => {
+        if ((e as PointerEvent).pointerId === this.stickPointer) this.resetStick();
+      });
+    });
+    this.root.appendChild(stick);
+
+    const buttons = document.createElement('div');
+    buttons.className = 'touch-buttons';
+    BUTTONS.forEach(({ binding, label }) => {
+      const button = document.createElement('button');
+      button.className = 'touch-button';
+      button.textContent = label;
+      button.addEventListener('pointerdown', (e) => {
+        e.preventDefault();
+        button.setPointerCapture(e.pointerId);
+        this.inputs.press(binding);
+      });
+      ['pointerup', 'pointercancel'].forEach(type => {
+        button.addEventListener(type, () => this.inputs.release(binding));
+      });
+      buttons.appendChild(button);
+    });
+    this.root.appendChild(buttons);
+
+    document.body.appendChild(this.root);
+  }
+
+  private updateStick(e: PointerEvent): void {
+    let dx = e.clientX - this.stickCentre.x;
+    let dy = e.clientY - this.stickCentre.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance > STICK_RADIUS) {
+      dx *= STICK_RADIUS / distance;
+      dy *= STICK_RADIUS / distance;
+    }
+    if (this.knob) {
+      this.knob.style.transform = `translate(${dx}px, ${dy}px)`;
+    }
+    // Screen Y points down; pushing the stick up walks forward
+    this.move = { x: dx / STICK_RADIUS, y: -dy / STICK_RADIUS };
+  }
+
+  private resetStick(): void {
+    this.stickPointer = null;
+    this.move = { x: 0, y: 0 };
+    if (this.knob) {
+      this.knob.style.transform = '';
+    }
+  }
+
+  private onLookDown(e: PointerEvent): void {
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    this.lookPointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    this.pinchDistance = this.getPinchDistance();
+  }
+
+  private onLookMove(e: PointerEvent): void {
+    const last = this.lookPointers.get(e.pointerId);
+    if (!last) return;
+    const current = { x: e.clientX, y: e.clientY };
+    this.lookPointers.set(e.pointerId, current);
+
+    if (this.lookPointers.size === 1) {
+      this.look.x += current.x - last.x;
+      this.look.y += current.y - last.y;
+    } else {
+      // Two fingers pinch: spreading them zooms the follow camera in
+      const distance = this.getPinchDistance();
+      if (this.pinchDistance > 0 && distance > 0) {
+        this.zoom *= this.pinchDistance / distance;
+      }
+      this.pinchDistance = distance;
+    }
+  }
+
+  private onLookUp(e: PointerEvent): void {
+    this.lookPointers.delete(e.pointerId);
+    this.pinchDistance = this.getPinchDistance();
+  }
+
+  private getPinchDistance(): number {
+    if (this.lookPointers.size < 2) return 0;
+    const [a, b] = Array.from(this.lookPointers.values());
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+
+  private releaseAll(): void {
+    this.resetStick();
+    this.lookPointers.clear();
+    this.look = { x: 0, y: 0 };
+    BUTTONS.forEach(({ binding }) => this.inputs.release(binding));
+  }
+}
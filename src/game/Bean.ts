@@ -7,23 +7,111 @@ import {
   Vector3,
   Mesh,
   TransformNode,
-  Animation,
+  AbstractMesh,
   Engine,
+  Observable,
+  SceneLoader,
   Ray,
-  CubicEase
+  Skeleton
 } from '@babylonjs/core';
+import { CharacterController, CharacterCollision } from './CharacterController';
+import { FollowCamera } from './FollowCamera';
+import { OverheadCamera } from './OverheadCamera';
+import { CinematicCamera } from './CinematicCamera';
+import { ShadowService } from './ShadowService';
+import { BeanAnimator } from '../animation/BeanAnimator';
+import { QuadrupedGait } from '../animation/QuadrupedGait';
+import { LegSolver, PrimitiveLeg, BoneLeg } from '../animation/LegIK';
+import { BeanExpression } from '../animation/BeanExpression';
+import { MoodModel, MOOD_EXPRESSIONS } from './MoodModel';
+import { LocomotionStateMachine, LocomotionState, LocomotionStateChange } from './LocomotionStateMachine';
 
 export enum CameraView {
   FIRST_PERSON = 'FPV',
-  FOLLOW = 'FOLLOW'
+  FOLLOW = 'FOLLOW',
+  OVERHEAD = 'OVERHEAD',
+  CINEMATIC = 'CINEMATIC'
 }
 
+// The order the switch view button goes through them
+export const CAMERA_VIEWS: CameraView[] = [CameraView.FIRST_PERSON, CameraView.FOLLOW, CameraView.OVERHEAD, CameraView.CINEMATIC];
+
+interface Pose {
+  bodyOffset: number;    // Model height relative to standing (m)
+  cameraOffset: number;  // First-person eye height relative to standing (m)
+  pitch: number;         // Body pitch, negative raises the nose (rad)
+}
+
+const STANDING_POSE: Pose = { bodyOffset: 0, cameraOffset: 0, pitch: 0 };
+const POSES: Partial<Record<LocomotionState, Pose>> = {
+  [LocomotionState.CROUCH]: { bodyOffset: -0.25, cameraOffset: -0.9, pitch: 0 },
+  [LocomotionState.SIT]: { bodyOffset: -0.12, cameraOffset: -0.2, pitch: -0.35 },
+  [LocomotionState.LIE_DOWN]: { bodyOffset: -0.35, cameraOffset: -1.1, pitch: 0 }
+};
+
+// Fixed leg angles for states where the gait doesn't plant the paws (rad)
+interface LegPose {
+  hip: number;   // Positive swings the leg backwards
+  knee: number;
+}
+
+const LEG_POSES: Partial<Record<LocomotionState, { front: LegPose; back: LegPose }>> = {
+  [LocomotionState.JUMP]: { front: { hip: -0.9, knee: 1.4 }, back: { hip: 0.9, knee: -1.4 } },  // Tucked
+  [LocomotionState.FALL]: { front: { hip: -0.4, knee: 0.2 }, back: { hip: 0.3, knee: -0.2 } },   // Reaching for the ground
+  [LocomotionState.SIT]: { front: { hip: 0.35, knee: 0 }, back: { hip: -1.2, knee: 2.2 } },      // Front legs straight, back legs folded
+  [LocomotionState.LIE_DOWN]: { front: { hip: -1.1, knee: 0 }, back: { hip: 1.1, knee: 0 } }     // Stretched out
+};
+
+// States where paws are planted by the gait
+const GAIT_STATES = [
+  LocomotionState.IDLE,
+  LocomotionState.WALK,
+  LocomotionState.RUN,
+  LocomotionState.CROUCH,
+  LocomotionState.LAND
+];
+
+// Where each leg meets the body: front left, front right, back left, back right
+const HIPS = [
+  new Vector3(-0.15, -0.1, 0.2),
+  new Vector3(0.15, -0.1, 0.2),
+  new Vector3(-0.15, -0.1, -0.2),
+  new Vector3(0.15, -0.1, -0.2)
+];
+// Lower leg bones a rigged model needs for its paws to be planted, matched ignoring case and separators
+const LEG_BONES = ['lowerlegfl', 'lowerlegfr', 'lowerlegbl', 'lowerlegbr'];
+
+// Rigged model Game gives Bean, e.g. '/assets/models/bean.glb' once one ships.
+// Null builds Bean from primitives without trying a request that would fail.
+export const BEAN_MODEL_URL: string | null = null;
+
 export class Bean {
   private scene: Scene;
   private camera: UniversalCamera;
+  private modelUrl: string | null;
+  private animator?: BeanAnimator;  // Only set when a rigged model loaded
   private group: TransformNode;
-  private tail?: Mesh;
-  private legs: Mesh[] = [];
+  private head!: TransformNode;  // Head, ears, eyes and nose, so they can be animated together
+  private legs: LegSolver[] = [];
+  private gait: QuadrupedGait;
+  private followCamera: FollowCamera;
+  private overheadCamera: OverheadCamera;
+  private cinematicCamera: CinematicCamera;
+  private mood: MoodModel = new MoodModel();
+  private expression?: BeanExpression;  // Procedural model only; rigged models wag with their own animations
+  private controller: CharacterController;
+  private pendingMove: Vector3 = new Vector3(0, 0, 0);
+  private physicsEnabled: boolean = true;
+  private lastSafePosition: Vector3;
+  private locomotion: LocomotionStateMachine = new LocomotionStateMachine();
+  private crouchHeld: boolean = false;
+  private pose: Pose = { ...STANDING_POSE };
+  
+  // In VR the headset drives horizontal motion; Bean only simulates jumps and falls
+  private vrFeetHeight: number = 0;
+  private vrVerticalVelocity: number = 0;
+  private vrGrounded: boolean = true;
+  private vrGroundMesh: AbstractMesh | null = null;
   
   public position: Vector3;
   public rotation: Vector3;
@@ -32,29 +120,77 @@ export class Bean {
   public isRunning: boolean = false;
   public cameraView: CameraView = CameraView.FIRST_PERSON;
   
-  private bobAmount: number = 0;
-  private elapsedTime: number = 0;
-  
   public readonly HEIGHT = 0.8;
   private readonly CAMERA_HEIGHT = 1.2;
-  private readonly FOLLOW_DISTANCE = 5;
-  private readonly FOLLOW_HEIGHT = 3;
+  private readonly FOLLOW_TARGET_HEIGHT = 0.5;  // Where the follow camera aims, above the capsule center
+  private readonly RADIUS = 0.4;
+  private readonly CROUCH_HEIGHT = 0.5;  // Capsule half height when crouching or lying down
+  private readonly JUMP_SPEED = 8.5;     // Apex ~1.8 m, enough to clear the couch
+  private readonly GRAVITY = 20;
+  private readonly FALL_LIMIT = -50;  // Respawn if Bean falls out of the world
+  private readonly MOUTH_OFFSET = new Vector3(0, -0.06, 0.62);  // Just under the nose, where carried toys sit
+  private readonly MODEL_OFFSET = new Vector3(0, -this.HEIGHT, 0);  // Rigged models have their origin between the paws
+  private readonly VISIBLE_LAYER = 0x0FFFFFFF;  // Babylon's default layer mask
+  private readonly HIDDEN_LAYER = 0x10000000;   // Left out by cameras but still drawn in mirrors
+  private readonly UPPER_LEG = 0.38;  // Long enough together to reach the ground with a slight bend
+  private readonly LOWER_LEG = 0.38;
 
-  constructor(scene: Scene, camera: UniversalCamera) {
+  constructor(scene: Scene, camera: UniversalCamera, modelUrl: string | null = null) {
     this.scene = scene;
     this.camera = camera;
+    this.modelUrl = modelUrl;
     this.group = new TransformNode('bean', scene);
+    this.gait = new QuadrupedGait(HIPS, (x, z, fromY) => this.probeGround(x, z, fromY));
+    this.followCamera = new FollowCamera(scene, camera, mesh => this.ownsMesh(mesh));
+    this.overheadCamera = new OverheadCamera(scene, camera);
+    this.cinematicCamera = new CinematicCamera(scene, camera, mesh => this.ownsMesh(mesh));
     
     this.position = new Vector3(0, this.HEIGHT, 0);
     this.rotation = new Vector3(0, 0, 0);  // Default rotation
     this.velocity = new Vector3(0, 0, 0);
+    this.lastSafePosition = this.position.clone();
+    
+    this.controller = new CharacterController(scene, this.position, {
+      radius: this.RADIUS,
+      halfHeight: this.HEIGHT,
+      gravity: this.GRAVITY
+    });
   }
 
   async init(): Promise<void> {
-    this.createBeanModel();
+    if (!this.modelUrl || !(await this.loadRiggedModel(this.modelUrl))) {
+      this.createBeanModel();
+    }
+    this.applyModelVisibility();
     // Don't set target - let rotation handle the view direction
     this.updatePosition();
-    this.setupAnimations();
+  }
+
+  // Loads a skinned glTF Bean with idle/walk/run/sit/jump/wag clips. Returns false
+  // when the model is missing or broken, so the procedural model is used instead.
+  private async loadRiggedModel(url: string): Promise<boolean> {
+    try {
+      const result = await SceneLoader.ImportMeshAsync('', '', url, this.scene);
+      const root = result.meshes[0];
+      root.parent = this.group;
+      root.position = this.MODEL_OFFSET.clone();
+      result.meshes.forEach(mesh => {
+        if (mesh instanceof Mesh && mesh.getTotalVertices() > 0) {
+          ShadowService.get(this.scene)?.addReceiver(mesh);
+          this.addToShadowMap(mesh);
+        }
+      });
+
+      // Squash the head bone when barking, or the whole model if there isn't one
+      this.head = result.transformNodes.find(node => node.name.toLowerCase() === 'head') ?? root;
+      this.animator = new BeanAnimator(result.animationGroups);
+      this.createBoneLegs(result.skeletons[0], result.meshes.find(mesh => mesh.skeleton));
+      console.log(`Loaded rigged Bean model from ${url}`);
+      return true;
+    } catch (error) {
+      console.warn(`Could not load Bean model ${url}, using the built-in model:`, error);
+      return false;
+    }
   }
 
   private createBeanModel(): void {
@@ -70,18 +206,22 @@ export class Bean {
     bodyMesh.scaling = new Vector3(1, 1.6, 1.5);  // Adjusted scaling for slimmer look
     bodyMesh.position.y = 0;
     bodyMesh.material = whiteFurMaterial;
-    bodyMesh.receiveShadows = true;
+    ShadowService.get(this.scene)?.addReceiver(bodyMesh);
     bodyMesh.parent = this.group;
     this.addToShadowMap(bodyMesh);
     
+    this.head = new TransformNode('beanHeadPivot', this.scene);
+    this.head.position = new Vector3(0, 0.1, 0.35);  // Head faces positive Z
+    this.head.parent = this.group;
+    
+    // Face parts below are positioned relative to the center of the head
     const headMesh = MeshBuilder.CreateSphere('beanHead', {
       diameter: 0.5,
       segments: 12
     }, this.scene);
     headMesh.scaling = new Vector3(0.9, 0.9, 1);  // Swapped X and Z scaling
-    headMesh.position = new Vector3(0, 0.1, 0.35);  // Head faces positive Z
     headMesh.material = whiteFurMaterial;
-    headMesh.parent = this.group;
+    headMesh.parent = this.head;
     this.addToShadowMap(headMesh);
     
     const earMesh1 = MeshBuilder.CreateCylinder('leftEar', {
@@ -90,10 +230,10 @@ export class Bean {
       height: 0.15,
       tessellation: 4
     }, this.scene);
-    earMesh1.position = new Vector3(-0.1, 0.3, 0.35);  // Left ear
+    earMesh1.position = new Vector3(-0.1, 0.2, 0);  // Left ear
     earMesh1.rotation.z = 0.3;  // Positive rotation for left ear (mirror of right)
     earMesh1.material = whiteFurMaterial;
-    earMesh1.parent = this.group;
+    earMesh1.parent = this.head;
     this.addToShadowMap(earMesh1);
     
     const earMesh2 = MeshBuilder.CreateCylinder('rightEar', {
@@ -102,10 +242,10 @@ export class Bean {
       height: 0.15,
       tessellation: 4
     }, this.scene);
-    earMesh2.position = new Vector3(0.1, 0.3, 0.35);  // Right ear
+    earMesh2.position = new Vector3(0.1, 0.2, 0);  // Right ear
     earMesh2.rotation.z = -0.3;  // Negative rotation for right ear
     earMesh2.material = whiteFurMaterial;
-    earMesh2.parent = this.group;
+    earMesh2.parent = this.head;
     this.addToShadowMap(earMesh2);
     
     const noseMaterial = new StandardMaterial('noseMaterial', this.scene);
@@ -116,9 +256,9 @@ export class Bean {
       diameter: 0.06,
       segments: 8
     }, this.scene);
-    nose.position = new Vector3(0, 0.05, 0.58);  // Nose at front
+    nose.position = new Vector3(0, -0.05, 0.23);  // Nose at front
     nose.material = noseMaterial;
-    nose.parent = this.group;
+    nose.parent = this.head;
     
     const eyeMaterial = new StandardMaterial('eyeMaterial', this.scene);
     eyeMaterial.diffuseColor = new Color3(0, 0, 0);
@@ -129,17 +269,40 @@ export class Bean {
       diameter: 0.08,
       segments: 8
     }, this.scene);
-    leftEye.position = new Vector3(-0.08, 0.15, 0.45);  // Left eye
+    leftEye.position = new Vector3(-0.08, 0.05, 0.1);  // Left eye
     leftEye.material = eyeMaterial;
-    leftEye.parent = this.group;
+    leftEye.parent = this.head;
     
     const rightEye = MeshBuilder.CreateSphere('rightEye', {
       diameter: 0.08,
       segments: 8
     }, this.scene);
-    rightEye.position = new Vector3(0.08, 0.15, 0.45);  // Right eye
+    rightEye.position = new Vector3(0.08, 0.05, 0.1);  // Right eye
     rightEye.material = eyeMaterial;
-    rightEye.parent = this.group;
+    rightEye.parent = this.head;
+    
+    const tongueMaterial = new StandardMaterial('tongueMaterial', this.scene);
+    tongueMaterial.diffuseColor = new Color3(0.9, 0.4, 0.45);
+    tongueMaterial.specularColor = new Color3(0.3, 0.3, 0.3);
+    
+    // Hinged at the mouth so it can slide out and bob while panting
+    const tonguePivot = new TransformNode('beanTonguePivot', this.scene);
+    tonguePivot.position = new Vector3(0, -0.12, 0.18);
+    tonguePivot.parent = this.head;
+    
+    const tongue = MeshBuilder.CreateSphere('tongue', {
+      diameter: 0.12,
+      segments: 8
+    }, this.scene);
+    tongue.scaling = new Vector3(0.7, 0.2, 1.3);
+    tongue.position.z = 0.07;
+    tongue.material = tongueMaterial;
+    tongue.parent = tonguePivot;
+    
+    // Wags and lifts from where it meets the body
+    const tailBase = new TransformNode('beanTailBase', this.scene);
+    tailBase.position = new Vector3(0, 0.1, -0.3);
+    tailBase.parent = this.group;
     
     const tailMesh = MeshBuilder.CreateCylinder('tail', {
       diameterTop: 0.08,
@@ -147,78 +310,185 @@ export class Bean {
       height: 0.3,
       tessellation: 6
     }, this.scene);
-    tailMesh.position = new Vector3(0, 0.1, -0.4);  // Tail at back
-    tailMesh.rotation.x = 0.5;  // Rotate tail along X axis now
+    tailMesh.position.y = 0.15;
     tailMesh.material = whiteFurMaterial;
-    tailMesh.parent = this.group;
-    this.tail = tailMesh;
+    tailMesh.parent = tailBase;
     this.addToShadowMap(tailMesh);
     
-    const legPositions = [
-      { x: -0.15, z: 0.2 },   // Front left
-      { x: 0.15, z: 0.2 },    // Front right
-      { x: -0.15, z: -0.2 },  // Back left
-      { x: 0.15, z: -0.2 }    // Back right
-    ];
-    
-    legPositions.forEach((pos, index) => {
-      const leg = MeshBuilder.CreateCylinder(`leg${index}`, {
-        diameterTop: 0.1,
-        diameterBottom: 0.12,
-        height: 0.3,
-        tessellation: 6
-      }, this.scene);
-      leg.position = new Vector3(pos.x, -0.25, pos.z);
-      leg.material = whiteFurMaterial;
-      leg.parent = this.group;
+    this.expression = new BeanExpression({
+      tail: tailBase,
+      leftEar: earMesh1,
+      rightEar: earMesh2,
+      leftEye,
+      rightEye,
+      tongue: tonguePivot
+    });
+    
+    HIPS.forEach((hip, index) => {
+      // Back knees bend forward like a dog's stifle, front ones backwards like an elbow
+      const leg = new PrimitiveLeg(`beanLeg${index}`, this.scene, this.group, hip, whiteFurMaterial,
+        hip.z < 0, this.UPPER_LEG, this.LOWER_LEG);
+      leg.meshes.forEach(mesh => this.addToShadowMap(mesh));
       this.legs.push(leg);
-      this.addToShadowMap(leg);
     });
   }
 
-  private setupAnimations(): void {
-    if (this.tail) {
-      const tailAnimation = new Animation(
-        'tailWag',
-        'rotation.y',  // Wag side to side now
-        30,
-        Animation.ANIMATIONTYPE_FLOAT,
-        Animation.ANIMATIONLOOPMODE_CYCLE
-      );
-      
-      const keys = [];
-      keys.push({ frame: 0, value: -0.3 });
-      keys.push({ frame: 15, value: 0.3 });
-      keys.push({ frame: 30, value: -0.3 });
-      
-      tailAnimation.setKeys(keys);
-      this.tail.animations = [tailAnimation];
-      this.scene.beginAnimation(this.tail, 0, 30, true);
+  // IK for a rigged model's legs; without the bones its paws follow the clips as authored
+  private createBoneLegs(skeleton: Skeleton | undefined, mesh: AbstractMesh | undefined): void {
+    const normalize = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+    const bones = LEG_BONES.map(name => skeleton?.bones.find(bone => normalize(bone.name) === name));
+    if (!mesh || bones.some(bone => !bone)) {
+      console.warn(`Bean model has no leg bones named ${LEG_BONES.join(', ')}; paws won't be planted`);
+      return;
     }
+    this.legs = bones.map((bone, index) => new BoneLeg(mesh, bone!, this.group, HIPS[index].z < 0));
   }
 
   update(deltaTime: number, _elapsedTime: number): void {
-    this.elapsedTime += deltaTime;
+    let stuckLow = false;
+    if (this.physicsEnabled) {
+      stuckLow = this.updatePhysics(deltaTime);
+    }
+    this.pendingMove.setAll(0);
     
-    if (this.isMoving) {
-      this.bobAmount = Math.sin(this.elapsedTime * 10) * 0.02;
-      this.group.position.y = this.HEIGHT + this.bobAmount;
-      
-      this.legs.forEach((leg, index) => {
-        const offset = index * Math.PI * 0.5;
-        leg.rotation.z = Math.sin(this.elapsedTime * 8 + offset) * 0.3;  // Rotate along Z for forward walking
-      });
+    const state = this.locomotion.update({
+      isMoving: this.isMoving,
+      isRunning: this.isRunning,
+      isGrounded: this.physicsEnabled ? this.controller.isGrounded : this.vrGrounded,
+      verticalVelocity: this.physicsEnabled ? this.controller.velocity.y : this.vrVerticalVelocity,
+      crouchHeld: this.crouchHeld || stuckLow
+    }, deltaTime);
+    this.mood.update(state, this.isMoving, deltaTime);
+    
+    this.animate(state, deltaTime);
+    this.updatePosition(false, deltaTime);
+    this.updateLegs(state, deltaTime);
+  }
+  
+  private animate(state: LocomotionState, deltaTime: number): void {
+    // Ease towards the pose for the current state so transitions don't pop
+    const targetPose = POSES[state] ?? STANDING_POSE;
+    const blend = Math.min(1, deltaTime * 10);
+    this.pose.bodyOffset += (targetPose.bodyOffset - this.pose.bodyOffset) * blend;
+    this.pose.cameraOffset += (targetPose.cameraOffset - this.pose.cameraOffset) * blend;
+    this.pose.pitch += (targetPose.pitch - this.pose.pitch) * blend;
+    
+    const expression = this.mood.getExpression();
+    this.expression?.update(expression, this.mood.isPanting, deltaTime);
+    if (this.animator) {
+      // The wag clip is authored at a happy Bean's wag
+      const happy = MOOD_EXPRESSIONS.happy;
+      this.animator.setWag(expression.wagSpeed / happy.wagSpeed, expression.wagAmplitude / happy.wagAmplitude);
+      this.animator.update(state, this.getSpeed(), deltaTime);
+    }
+    
+    if (this.isPlantingPaws(state)) {
+      this.gait.update({
+        root: new Vector3(this.position.x, this.getFeetHeight(), this.position.z),
+        yaw: this.rotation.y,
+        velocity: this.velocity
+      }, deltaTime);
     } else {
-      this.group.position.y = this.HEIGHT;
-      this.legs.forEach(leg => {
-        leg.rotation.z = 0;
-      });
+      this.gait.suspend(deltaTime);
     }
+    // Rigged models bob in their own clips
+    const bounce = this.animator ? 0 : this.gait.bounce;
     
-    this.updatePosition();
+    // Quick squash on landing
+    if (state === LocomotionState.LAND) {
+      this.group.scaling.y = 1 - 0.15 * Math.sin(Math.min(1, this.locomotion.timeInState / 0.15) * Math.PI);
+    } else {
+      this.group.scaling.y = 1;
+    }
+    
+    this.group.position.y = this.getFeetHeight() + this.HEIGHT + this.pose.bodyOffset + this.gait.bodyLift + bounce;
+    this.group.rotation.x = this.pose.pitch + this.gait.bodyPitch;
+    this.group.rotation.z = this.gait.bodyRoll;
+  }
+  
+  // Runs once the body is in place for the frame, so paws stay where the gait put them
+  private updateLegs(state: LocomotionState, deltaTime: number): void {
+    const blend = Math.min(1, deltaTime * 25);
+    if (this.isPlantingPaws(state)) {
+      this.legs.forEach((leg, index) => leg.reach(this.gait.feet[index].position, blend));
+      return;
+    }
+    
+    // Rigged models pose their legs in their clips
+    const legPose = LEG_POSES[state];
+    this.legs.forEach((leg, index) => {
+      if (!(leg instanceof PrimitiveLeg)) return;
+      const { hip, knee } = legPose ? (index < 2 ? legPose.front : legPose.back) : { hip: 0, knee: 0 };
+      leg.pose(hip, knee, blend);
+    });
+  }
+  
+  private isPlantingPaws(state: LocomotionState): boolean {
+    return GAIT_STATES.includes(state) && this.isGrounded();
+  }
+  
+  // Ground height for the gait's paw placement, ignoring Bean itself
+  private probeGround(x: number, z: number, fromY: number): number | null {
+    const ray = new Ray(new Vector3(x, fromY, z), Vector3.Down(), fromY - this.getFeetHeight() + 1);
+    const pickInfo = this.scene.pickWithRay(ray, (mesh) => mesh.checkCollisions && mesh.isEnabled());
+    return pickInfo?.hit && pickInfo.pickedPoint ? pickInfo.pickedPoint.y : null;
+  }
+  
+  // Returns true when Bean wants to stand but has no headroom (e.g. under a table)
+  private updatePhysics(deltaTime: number): boolean {
+    // Pick up any position set from outside (VR sync, save restore) before simulating
+    this.controller.position.copyFrom(this.position);
+    
+    const wantsLowProfile = this.crouchHeld || this.locomotion.state === LocomotionState.LIE_DOWN;
+    const targetHeight = wantsLowProfile ? this.CROUCH_HEIGHT : this.HEIGHT;
+    let stuckLow = false;
+    if (this.controller.halfHeight !== targetHeight) {
+      stuckLow = !this.controller.setHalfHeight(targetHeight);
+    }
+    
+    this.controller.move(this.pendingMove, deltaTime);
+    this.position.copyFrom(this.controller.position);
+    this.velocity.copyFrom(this.controller.velocity);
+    
+    if (this.controller.isGrounded) {
+      this.lastSafePosition.copyFrom(this.position);
+    } else if (this.position.y < this.FALL_LIMIT) {
+      console.warn('Bean fell out of the world, returning to last safe position');
+      this.controller.teleport(this.lastSafePosition);
+      this.position.copyFrom(this.lastSafePosition);
+    }
+    return stuckLow;
+  }
+  
+  updateVRHeight(floorHeight: number, deltaTime: number, floorMesh: AbstractMesh | null = null): void {
+    this.vrGroundMesh = floorMesh;
+    this.vrVerticalVelocity -= this.GRAVITY * deltaTime;
+    const feet = this.vrFeetHeight + this.vrVerticalVelocity * deltaTime;
+    
+    if (feet <= floorHeight) {
+      this.vrFeetHeight = floorHeight;
+      this.vrVerticalVelocity = 0;
+      this.vrGrounded = true;
+    } else {
+      this.vrFeetHeight = feet;
+      this.vrGrounded = false;
+    }
+    this.position.y = this.vrFeetHeight + this.HEIGHT;
+  }
+  
+  getFeetHeight(): number {
+    return this.physicsEnabled
+      ? this.position.y - this.controller.halfHeight
+      : this.vrFeetHeight;
+  }
+  
+  // First-person eye height above the feet for the current pose
+  getEyeHeight(): number {
+    return this.HEIGHT + this.CAMERA_HEIGHT + this.pose.cameraOffset;
   }
 
-  updatePosition(isVRMode: boolean = false): void {
+  // Without a deltaTime the follow camera jumps straight into place
+  updatePosition(isVRMode: boolean = false, deltaTime: number = 0): void {
     // Position the dog model
     this.group.position.x = this.position.x;
     this.group.position.z = this.position.z;
@@ -229,30 +499,25 @@ export class Bean {
       if (this.cameraView === CameraView.FIRST_PERSON) {
         // First person view - camera at dog's eye level
         this.camera.position.x = this.position.x;
-        this.camera.position.y = this.position.y + this.CAMERA_HEIGHT;
+        this.camera.position.y = this.getFeetHeight() + this.getEyeHeight();
         this.camera.position.z = this.position.z;
       } else if (this.cameraView === CameraView.FOLLOW) {
-        // Follow view - camera behind and above looking forward
-        // Calculate camera position behind the player
-        const cameraDistance = this.FOLLOW_DISTANCE;
-        const cameraX = this.position.x - Math.sin(this.rotation.y) * cameraDistance;
-        const cameraZ = this.position.z - Math.cos(this.rotation.y) * cameraDistance;
-        
-        this.camera.position.x = cameraX;
-        this.camera.position.y = this.position.y + this.FOLLOW_HEIGHT;
-        this.camera.position.z = cameraZ;
-        
-        // Look at a point in front of the dog
-        const lookDistance = 10;
-        const lookX = this.position.x + Math.sin(this.rotation.y) * lookDistance;
-        const lookZ = this.position.z + Math.cos(this.rotation.y) * lookDistance;
-        this.camera.setTarget(new Vector3(lookX, this.position.y + this.HEIGHT, lookZ));
+        // Follow view - camera orbits behind Bean, kept clear of walls
+        const target = this.position.add(new Vector3(0, this.FOLLOW_TARGET_HEIGHT, 0));
+        this.followCamera.update(target, this.rotation.y, deltaTime);
+      } else if (this.cameraView === CameraView.OVERHEAD) {
+        // Map view - looking down from high above, with everything over Bean's head cut away
+        this.overheadCamera.update(this.position, this.getFeetHeight(), deltaTime);
+      } else if (this.cameraView === CameraView.CINEMATIC) {
+        // Cinematic view - the world's camera points take turns framing Bean
+        const target = this.position.add(new Vector3(0, this.FOLLOW_TARGET_HEIGHT, 0));
+        this.cinematicCamera.update(target, deltaTime);
       }
     }
   }
 
   move(forward: number, strafe: number, deltaTime: number): void {
-    const speed = this.isRunning ? 12 : 6;
+    const speed = this.crouchHeld ? 3 : (this.isRunning ? 12 : 6);
     const moveSpeed = speed * deltaTime;
     
     if (forward !== 0 || strafe !== 0) {
@@ -265,113 +530,93 @@ export class Bean {
       const strafeX = Math.cos(this.rotation.y) * strafe * moveSpeed;
       const strafeZ = -Math.sin(this.rotation.y) * strafe * moveSpeed;
       
-      // Store old position for collision rollback
-      const oldPosition = this.position.clone();
-      
-      // Apply movement
-      this.position.x += forwardX + strafeX;
-      this.position.z += forwardZ + strafeZ;
-      
-      // Check for collisions
-      const moveDirection = new Vector3(forwardX + strafeX, 0, forwardZ + strafeZ);
-      const collisionInfo = this.checkCollisionWithStepUp(moveDirection);
-      
-      if (collisionInfo.hit) {
-        if (collisionInfo.canStepUp && collisionInfo.stepHeight !== undefined) {
-          // Smooth hop up onto the obstacle
-          const targetHeight = collisionInfo.stepHeight + this.HEIGHT;
-          
-          // Create a simple hop animation
-          Animation.CreateAndStartAnimation(
-            'beanHopUp',
-            this.group,
-            'position.y',
-            30, // fps
-            10, // frames
-            this.position.y,
-            targetHeight,
-            Animation.ANIMATIONLOOPMODE_CONSTANT,
-            new CubicEase(),
-            () => {
-              // Update position after animation
-              this.position.y = targetHeight;
-            }
-          );
-          
-          // Update logical position immediately
-          this.position.y = targetHeight;
-          // Keep horizontal movement
-        } else {
-          // Normal collision - rollback
-          this.position = oldPosition;
-        }
-      }
+      // Collisions, sliding and stepping are resolved by the controller in update()
+      this.pendingMove.x += forwardX + strafeX;
+      this.pendingMove.z += forwardZ + strafeZ;
     } else {
       this.isMoving = false;
     }
   }
   
-  private checkCollisionWithStepUp(moveDirection: Vector3): { hit: boolean; canStepUp: boolean; stepHeight?: number } {
-    // Create ray from Bean's center in movement direction
-    const rayOrigin = new Vector3(this.position.x, this.position.y, this.position.z);
-    const rayLength = 0.4; // Bean's collision radius
-    
-    // Normalize movement direction for ray
-    const normalizedDir = moveDirection.normalize();
-    
-    // Cast ray in movement direction at current height
-    const ray = new Ray(rayOrigin, normalizedDir, rayLength);
-    const pickInfo = this.scene.pickWithRay(ray, (mesh) => {
-      // Don't collide with Bean's own parts, floors, or invisible meshes
-      return !mesh.name.includes('bean') && 
-             !mesh.name.includes('floor') && 
-             !mesh.name.includes('ground') &&
-             !mesh.name.includes('carpet') &&
-             mesh.isVisible &&
-             mesh.isEnabled() &&
-             mesh.checkCollisions !== false;
-    });
-    
-    if (!pickInfo?.hit) {
-      return { hit: false, canStepUp: false };
-    }
-    
-    // We hit something - check if we can step up onto it
-    const obstacle = pickInfo.pickedMesh;
-    if (!obstacle) {
-      return { hit: true, canStepUp: false };
+  // Disabled in VR, where the headset drives Bean's position directly
+  setPhysicsEnabled(enabled: boolean): void {
+    if (enabled) {
+      this.controller.teleport(this.position);
+    } else {
+      this.vrFeetHeight = this.getFeetHeight();
+      this.vrVerticalVelocity = 0;
     }
+    this.physicsEnabled = enabled;
+  }
+  
+  isGrounded(): boolean {
+    return this.physicsEnabled ? this.controller.isGrounded : this.vrGrounded;
+  }
+  
+  // The mesh under Bean's feet, or null in mid-air
+  getGroundMesh(): AbstractMesh | null {
+    if (!this.isGrounded()) return null;
+    return this.physicsEnabled ? this.controller.groundMesh : this.vrGroundMesh;
+  }
+  
+  // Horizontal speed in m/s
+  getSpeed(): number {
+    return Math.hypot(this.velocity.x, this.velocity.z);
+  }
+  
+  jump(): void {
+    if (!this.locomotion.canJump()) return;
     
-    // Get the height of the obstacle
-    const bounds = obstacle.getBoundingInfo().boundingBox;
-    const obstacleTop = bounds.maximumWorld.y;
-    const currentFloorHeight = this.position.y - this.HEIGHT;
-    const stepHeight = obstacleTop - currentFloorHeight;
-    
-    // Maximum step-up height (2x Bean's height)
-    const maxStepHeight = this.HEIGHT * 2;
-    
-    // Check if the obstacle is low enough to step onto
-    if (stepHeight > 0 && stepHeight <= maxStepHeight) {
-      // Also check if there's space above the obstacle for Bean
-      const checkAboveOrigin = new Vector3(this.position.x, obstacleTop + this.HEIGHT, this.position.z);
-      const checkAboveRay = new Ray(checkAboveOrigin, normalizedDir, rayLength);
-      
-      const abovePickInfo = this.scene.pickWithRay(checkAboveRay, (mesh) => {
-        return !mesh.name.includes('bean') && 
-               mesh.isVisible &&
-               mesh.isEnabled() &&
-               mesh.checkCollisions !== false;
-      });
-      
-      // If there's no obstacle above, we can step up
-      if (!abovePickInfo?.hit) {
-        return { hit: true, canStepUp: true, stepHeight: obstacleTop };
-      }
+    if (this.physicsEnabled) {
+      this.controller.jump(this.JUMP_SPEED);
+    } else if (this.vrGrounded) {
+      this.vrVerticalVelocity = this.JUMP_SPEED;
+      this.vrGrounded = false;
     }
-    
-    // Can't step up - normal collision
-    return { hit: true, canStepUp: false };
+  }
+  
+  setCrouching(crouching: boolean): void {
+    this.crouchHeld = crouching;
+  }
+  
+  toggleSit(): void {
+    this.locomotion.toggleSit();
+  }
+  
+  toggleLieDown(): void {
+    this.locomotion.toggleLieDown();
+  }
+  
+  // World-space point where Bean holds things in its mouth
+  getMouthPosition(): Vector3 {
+    this.group.computeWorldMatrix(true);
+    return Vector3.TransformCoordinates(this.MOUTH_OFFSET, this.group.getWorldMatrix());
+  }
+  
+  getMood(): MoodModel {
+    return this.mood;
+  }
+  
+  // The head group, e.g. to squash it when Bean barks
+  getHead(): TransformNode {
+    return this.head;
+  }
+  
+  ownsMesh(mesh: AbstractMesh): boolean {
+    return mesh.isDescendantOf(this.group);
+  }
+  
+  // Fired when Bean walks into something, e.g. to push it along
+  get onCollideObservable(): Observable<CharacterCollision> {
+    return this.controller.onCollideObservable;
+  }
+  
+  getLocomotionState(): LocomotionState {
+    return this.locomotion.state;
+  }
+  
+  get onLocomotionStateChangedObservable(): Observable<LocomotionStateChange> {
+    return this.locomotion.onStateChangedObservable;
   }
 
   rotate(yaw: number, pitch: number): void {
@@ -380,14 +625,55 @@ export class Bean {
     if (this.cameraView === CameraView.FIRST_PERSON) {
       this.camera.rotation.y = this.rotation.y;
       this.camera.rotation.x = Math.max(-Math.PI / 3, Math.min(Math.PI / 3, this.camera.rotation.x + pitch));
+    } else if (this.cameraView === CameraView.FOLLOW) {
+      // Turning swings the follow camera round behind Bean; pitch raises and lowers it
+      this.followCamera.orbit(0, pitch);
     }
-    // In follow mode, camera target is set in updatePosition()
+  }
+
+  // Looking with the mouse, a stick or a drag. In the follow view it orbits the
+  // camera round Bean instead of turning Bean; elsewhere it's the same as turning.
+  look(yaw: number, pitch: number): void {
+    if (this.cameraView === CameraView.FOLLOW) {
+      this.followCamera.orbit(yaw, pitch);
+    } else {
+      this.rotate(yaw, pitch);
+    }
+  }
+
+  // Scales the follow camera's distance or the map view's height, e.g. from the scroll wheel or a pinch gesture
+  zoomCamera(factor: number): void {
+    if (this.cameraView === CameraView.OVERHEAD) {
+      this.overheadCamera.zoom(factor);
+    } else {
+      this.followCamera.zoom(factor);
+    }
+  }
+
+  // Where the cinematic view can film from, usually authored with the world
+  setCameraPoints(points: Vector3[]): void {
+    this.cinematicCamera.setPoints(points);
   }
 
   setRunning(running: boolean): void {
     this.isRunning = running;
   }
 
+  // Undoes what every view changed in the scene, e.g. before the world is left;
+  // the current view picks up again with the next world
+  releaseCameraViews(): void {
+    this.followCamera.release();
+    this.overheadCamera.release();
+    this.cinematicCamera.release();
+  }
+
+  // The next update puts every view straight into place, e.g. after a teleport or a view switch
+  private snapCameraViews(): void {
+    this.followCamera.snap();
+    this.overheadCamera.snap();
+    this.cinematicCamera.snap();
+  }
+
   setCameraView(view: CameraView): void {
     this.cameraView = view;
     
@@ -396,24 +682,43 @@ export class Bean {
       this.camera.rotation.x = 0;
       this.camera.rotation.y = this.rotation.y;
     }
+    // Undo anything the other views changed: faded furniture, the cutaway, the cinematic zoom
+    if (view !== CameraView.FOLLOW) this.followCamera.release();
+    if (view !== CameraView.OVERHEAD) this.overheadCamera.release();
+    if (view !== CameraView.CINEMATIC) this.cinematicCamera.release();
     
+    this.snapCameraViews();
     this.updatePosition();
     
-    // Show/hide Bean model based on view
-    this.group.setEnabled(view === CameraView.FOLLOW);
+    this.applyModelVisibility();
+  }
+  
+  // In first person the model is hidden from the camera, which sits inside it,
+  // but Bean still shows up in mirrors
+  private applyModelVisibility(): void {
+    const layerMask = this.cameraView === CameraView.FIRST_PERSON ? this.HIDDEN_LAYER : this.VISIBLE_LAYER;
+    this.group.getChildMeshes().forEach(mesh => {
+      mesh.layerMask = layerMask;
+    });
   }
 
-  resetPosition(): void {
-    this.position = new Vector3(0, this.HEIGHT, 0);
-    this.rotation = new Vector3(0, 0, 0);
-    this.camera.rotation = new Vector3(0, 0, 0);
+  resetPosition(floorPosition: Vector3 = Vector3.Zero(), yaw: number = 0): void {
+    this.position = new Vector3(floorPosition.x, floorPosition.y + this.HEIGHT, floorPosition.z);
+    this.rotation = new Vector3(0, yaw, 0);
+    this.camera.rotation = new Vector3(0, yaw, 0);
+    this.crouchHeld = false;
+    this.locomotion.reset();
+    this.controller.setHalfHeight(this.HEIGHT, true);
+    this.controller.teleport(this.position);
+    this.vrFeetHeight = floorPosition.y;
+    this.vrVerticalVelocity = 0;
+    this.lastSafePosition.copyFrom(this.position);
+    this.snapCameraViews();
     this.updatePosition();
   }
 
+  // Bean's shadow matters more than any furniture's, so it always gets into the shadow map
   private addToShadowMap(mesh: Mesh): void {
-    const shadowGenerators = (this.scene as any).shadowGenerators;
-    if (shadowGenerators && shadowGenerators.length > 0) {
-      shadowGenerators[0].addShadowCaster(mesh);
-    }
+    ShadowService.get(this.scene)?.addCaster(mesh, true);
   }
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { AbstractMesh, Node } from '@babylonjs/core';
+
+// What a mesh does when it comes between a camera and Bean: walls 'block' and
+// pull the camera in, furniture 'fade's out, 'none' is ignored
+export type CameraOcclusion = 'block' | 'fade' | 'none';
+export const CAMERA_OCCLUSIONS: CameraOcclusion[] = ['block', 'fade', 'none'];
+
+// Occlusion is stored in node metadata, like surfaces, so worlds can tag meshes
+// without knowing about the cameras
+export function setCameraOcclusion(node: Node, cameraOcclusion: CameraOcclusion): void {
+  node.metadata = { ...(node.metadata ?? {}), cameraOcclusion };
+}
+
+// The occlusion of a mesh or its nearest tagged parent; untagged meshes block
+// when Bean collides with them, so the camera never ends up behind a wall
+export function findCameraOcclusion(mesh: AbstractMesh): CameraOcclusion {
+  for (let current: Node | null = mesh; current; current = current.parent) {
+    const occlusion = current.metadata?.cameraOcclusion as CameraOcclusion | undefined;
+    if (occlusion) return occlusion;
+  }
+  return mesh.checkCollisions ? 'block' : 'none';
+}
@@ -0,0 +1,277 @@
+import {
+  Scene,
+  Mesh,
+  AbstractMesh,
+  Vector3,
+  Ray,
+  Observable
+} from '@babylonjs/core';
+
+export interface CharacterControllerOptions {
+  radius: number;        // Capsule radius (m)
+  halfHeight: number;    // Distance from capsule center to feet (m)
+  stepOffset: number;    // Tallest ledge that can be walked onto without jumping (m)
+  slopeLimit: number;    // Steepest walkable slope (degrees)
+  gravity: number;       // Downward acceleration (m/s²)
+  maxFallSpeed: number;  // Terminal velocity (m/s)
+}
+
+export interface CharacterCollision {
+  mesh: AbstractMesh;
+  direction: Vector3;  // Normalized horizontal direction the character was moving
+}
+
+const DEFAULT_OPTIONS: CharacterControllerOptions = {
+  radius: 0.4,
+  halfHeight: 0.8,
+  stepOffset: 0.5,
+  slopeLimit: 45,
+  gravity: 20,
+  maxFallSpeed: 30
+};
+
+// Fraction of a requested move that must be completed to count as unobstructed
+const BLOCKED_RATIO = 0.95;
+// Long frames (tab switches, loading hitches) are clamped so the character can't teleport
+const MAX_DELTA_TIME = 0.1;
+
+/**
+ * Kinematic capsule controller built on Babylon's swept-ellipsoid collisions
+ * (moveWithCollisions), so it slides along walls instead of stopping dead and
+ * cannot tunnel through thin geometry. Adds gravity, ground detection, slope
+ * limits and step offsets on top. Depends only on a Scene, so it runs headlessly
+ * under NullEngine.
+ */
+export class CharacterController {
+  private scene: Scene;
+  private collider: Mesh;
+  private options: CharacterControllerOptions;
+  private lastCollidedMesh: AbstractMesh | null = null;
+
+  public readonly position: Vector3;
+  public readonly velocity: Vector3 = new Vector3(0, 0, 0);
+  public isGrounded: boolean = false;
+  public groundMesh: AbstractMesh | null = null;
+  public groundNormal: Vector3 = Vector3.Up();
+
+  // Notified when a horizontal move is obstructed by a mesh other than the ground
+  public readonly onCollideObservable = new Observable<CharacterCollision>();
+
+  constructor(scene: Scene, position: Vector3, options: Partial<CharacterControllerOptions> = {}) {
+    this.scene = scene;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.position = position.clone();
+
+    // Invisible, non-pickable mesh used purely as the collision ellipsoid
+    this.collider = new Mesh('beanCollider', scene);
+    this.collider.isPickable = false;
+    this.collider.checkCollisions = false;
+    this.collider.ellipsoid = new Vector3(this.options.radius, this.options.halfHeight, this.options.radius);
+    this.collider.position.copyFrom(this.position);
+    this.collider.onCollideObservable.add((mesh) => {
+      this.lastCollidedMesh = mesh;
+    });
+  }
+
+  get radius(): number {
+    return this.options.radius;
+  }
+
+  get halfHeight(): number {
+    return this.options.halfHeight;
+  }
+
+  // Changing the capsule height keeps the feet where they are. Growing fails
+  // when something is in the way overhead, unless forced (e.g. on respawn).
+  setHalfHeight(halfHeight: number, force: boolean = false): boolean {
+    const delta = halfHeight - this.options.halfHeight;
+    if (delta > 0 && !force && this.isBlockedAbove(delta * 2)) {
+      return false;
+    }
+    this.position.y += delta;
+    this.options.halfHeight = halfHeight;
+    this.collider.ellipsoid = new Vector3(this.options.radius, halfHeight, this.options.radius);
+    this.collider.position.copyFrom(this.position);
+    return true;
+  }
+
+  teleport(position: Vector3): void {
+    this.position.copyFrom(position);
+    this.collider.position.copyFrom(position);
+    this.velocity.setAll(0);
+    this.isGrounded = false;
+    this.groundMesh = null;
+  }
+
+  // Launches the character upward if it is standing on walkable ground
+  jump(speed: number): boolean {
+    if (!this.isGrounded) return false;
+    this.velocity.y = speed;
+    this.isGrounded = false;
+    return true;
+  }
+
+  /**
+   * Advances the controller by one frame.
+   * @param displacement Desired horizontal movement for this frame (Y is ignored)
+   */
+  move(displacement: Vector3, deltaTime: number): void {
+    const dt = Math.min(deltaTime, MAX_DELTA_TIME);
+    if (dt <= 0) return;
+
+    const start = this.position.clone();
+    this.collider.position.copyFrom(this.position);
+
+    const horizontal = new Vector3(displacement.x, 0, displacement.z);
+    const wasGrounded = this.isGrounded;
+
+    // Split long moves so step-up checks happen at least once per capsule radius
+    const steps = Math.max(1, Math.ceil(horizontal.length() / this.options.radius));
+    const stepDisplacement = horizontal.scale(1 / steps);
+    for (let i = 0; i < steps; i++) {
+      this.moveHorizontal(stepDisplacement, wasGrounded);
+    }
+
+    this.moveVertical(dt, wasGrounded);
+
+    this.position.copyFrom(this.collider.position);
+    this.velocity.x = (this.position.x - start.x) / dt;
+    this.velocity.z = (this.position.z - start.z) / dt;
+  }
+
+  private moveHorizontal(displacement: Vector3, grounded: boolean): void {
+    if (displacement.lengthSquared() === 0) return;
+
+    const origin = this.collider.position.clone();
+    this.sweep(displacement);
+    const collided = this.lastCollidedMesh;
+    const slidProgress = this.horizontalProgress(origin, displacement);
+
+    if (slidProgress >= BLOCKED_RATIO || !collided) {
+      return;
+    }
+
+    // Blocked: try stepping over the obstacle (up, across, back down)
+    if (grounded && this.options.stepOffset > 0) {
+      const slidPosition = this.collider.position.clone();
+      this.collider.position.copyFrom(origin);
+
+      const raised = this.sweep(new Vector3(0, this.options.stepOffset, 0));
+      this.sweep(displacement);
+      this.sweep(new Vector3(0, -(raised.y + 0.01), 0));
+
+      const steppedProgress = this.horizontalProgress(origin, displacement);
+      const ground = this.probeGround(this.options.stepOffset);
+      if (steppedProgress > slidProgress + 0.01 && ground && this.isWalkable(ground.normal)) {
+        return;
+      }
+      this.collider.position.copyFrom(slidPosition);
+    }
+
+    if (collided !== this.groundMesh) {
+      this.onCollideObservable.notifyObservers({
+        mesh: collided,
+        direction: displacement.normalizeToNew()
+      });
+    }
+  }
+
+  private moveVertical(dt: number, wasGrounded: boolean): void {
+    this.velocity.y = Math.max(this.velocity.y - this.options.gravity * dt, -this.options.maxFallSpeed);
+
+    const requested = this.velocity.y * dt;
+    const moved = this.sweep(new Vector3(0, requested, 0));
+
+    if (requested > 0) {
+      // Rising: stop upward motion when the head hits something
+      if (moved.y < requested * BLOCKED_RATIO) {
+        this.velocity.y = 0;
+      }
+      this.isGrounded = false;
+      this.groundMesh = null;
+      return;
+    }
+
+    const landed = moved.y > requested * BLOCKED_RATIO;
+    // Keep contact when walking down small steps and ramps instead of bouncing off them
+    const probeDistance = landed ? 0.05 : (wasGrounded ? this.options.stepOffset : 0.05);
+    const ground = this.probeGround(probeDistance);
+
+    if (ground && this.isWalkable(ground.normal)) {
+      if (!landed && ground.distance > 0.01) {
+        this.sweep(new Vector3(0, -ground.distance, 0));
+      }
+      this.isGrounded = true;
+      this.groundMesh = ground.mesh;
+      this.groundNormal = ground.normal;
+      this.velocity.y = 0;
+    } else if (landed && !ground) {
+      // Resting on something the probe ray missed (e.g. an edge under the capsule rim)
+      this.isGrounded = true;
+      this.groundMesh = this.lastCollidedMesh;
+      this.groundNormal = Vector3.Up();
+      this.velocity.y = 0;
+    } else {
+      // Airborne, or on a slope too steep to stand on: keep falling/sliding
+      this.isGrounded = false;
+      this.groundMesh = ground?.mesh ?? null;
+      if (ground) this.groundNormal = ground.normal;
+    }
+  }
+
+  // Moves the collider with collision response and returns the actual displacement
+  private sweep(displacement: Vector3): Vector3 {
+    const before = this.collider.position.clone();
+    this.lastCollidedMesh = null;
+    this.collider.moveWithCollisions(displacement);
+    this.collider.computeWorldMatrix(true);
+    return this.collider.position.subtract(before);
+  }
+
+  private horizontalProgress(origin: Vector3, displacement: Vector3): number {
+    const requested = displacement.length();
+    if (requested === 0) return 1;
+    const moved = this.collider.position.subtract(origin);
+    moved.y = 0;
+    return Vector3.Dot(moved, displacement) / (requested * requested);
+  }
+
+  private probeGround(maxDistance: number): { mesh: AbstractMesh; normal: Vector3; distance: number } | null {
+    const feet = this.collider.position.y - this.options.halfHeight;
+    const origin = new Vector3(this.collider.position.x, feet + 0.1, this.collider.position.z);
+    const ray = new Ray(origin, Vector3.Down(), 0.1 + maxDistance);
+
+    const pickInfo = this.scene.pickWithRay(ray, (mesh) => this.isSolid(mesh));
+    if (!pickInfo?.hit || !pickInfo.pickedMesh || !pickInfo.pickedPoint) {
+      return null;
+    }
+
+    return {
+      mesh: pickInfo.pickedMesh,
+      normal: pickInfo.getNormal(true) ?? Vector3.Up(),
+      distance: Math.max(0, feet - pickInfo.pickedPoint.y)
+    };
+  }
+
+  private isBlockedAbove(distance: number): boolean {
+    const top = new Vector3(this.position.x, this.position.y + this.options.halfHeight, this.position.z);
+    const pickInfo = this.scene.pickWithRay(new Ray(top, Vector3.Up(), distance), (mesh) => this.isSolid(mesh));
+    return !!pickInfo?.hit;
+  }
+
+  private isWalkable(normal: Vector3): boolean {
+    const angle = Math.acos(Math.min(1, Math.abs(normal.y))) * 180 / Math.PI;
+    return angle <= this.options.slopeLimit;
+  }
+
+  private isSolid(mesh: AbstractMesh): boolean {
+    return mesh !== this.collider &&
+           mesh.checkCollisions &&
+           mesh.isEnabled();
+  }
+
+  dispose(): void {
+    this.onCollideObservable.clear();
+    this.collider.dispose();
+  }
+}
@@ -0,0 +1,151 @@
+import { Scene, TargetCamera, AbstractMesh, Vector3, Ray, Scalar } from '@babylonjs/core';
+import { springDamp } from './FollowCamera';
+import { findCameraOcclusion } from './CameraOcclusion';
+
+const MAX_SHOT_DISTANCE = 25;  // Camera points further away than this from Bean aren't used (m)
+const MIN_SHOT_TIME = 3;       // Seconds a shot is held before cutting to a better one
+const BETTER_SHOT = 0.6;       // A point must be this much closer than the current one to cut to it
+const LOST_SIGHT_TIME = 0.5;   // Seconds Bean can be hidden from the current point before cutting away
+const FRAME_SIZE = 4;          // How much of the scene around Bean fills the frame (m)
+const MIN_FOV = 0.25;          // Zoom limits (rad)
+const MAX_FOV = 1.1;
+const LOOK_STIFFNESS = 4;      // Spring frequency for panning after Bean (rad/s)
+const ZOOM_SPEED = 2;          // How fast the field of view follows the framing (blend per second)
+const ORBIT_RADIUS = 7;        // Fallback crane shot when no camera point can see Bean (m)
+const ORBIT_HEIGHT = 3;
+const ORBIT_SPEED = 0.15;      // rad/s
+const MAX_DELTA_TIME = 0.1;
+
+/**
+ * Auto-directed camera: cuts between camera points authored in the world,
+ * choosing the nearest one with a clear view of Bean, then pans and zooms to
+ * keep Bean framed. Holds each shot for a while so cuts aren't jarring, and
+ * circles Bean slowly when no point can see it.
+ */
+export class CinematicCamera {
+  private scene: Scene;
+  private camera: TargetCamera;
+  private ignore: (mesh: AbstractMesh) => boolean;
+  private points: Vector3[] = [];
+  private current: number = -1;  // Index of the point in use, -1 while orbiting
+  private shotTime: number = 0;
+  private hiddenTime: number = 0;
+  private orbitAngle: number = 0;
+  private look: Vector3 = Vector3.Zero();
+  private lookVelocity = [{ value: 0 }, { value: 0 }, { value: 0 }];
+  private baseFov: number | null = null;  // The player's field of view, put back on release
+  private needsCut: boolean = true;
+
+  // `ignore` leaves out the target's own meshes
+  constructor(scene: Scene, camera: TargetCamera, ignore: (mesh: AbstractMesh) => boolean) {
+    this.scene = scene;
+    this.camera = camera;
+    this.ignore = ignore;
+  }
+
+  // The point in use, or -1 while circling Bean
+  get shot(): number {
+    return this.current;
+  }
+
+  setPoints(points: Vector3[]): void {
+    this.points = points.map(point => point.clone());
+    this.current = -1;
+    this.needsCut = true;
+  }
+
+  snap(): void {
+    this.needsCut = true;
+  }
+
+  // Puts the player's field of view back, for switching to another view
+  release(): void {
+    if (this.baseFov !== null) {
+      this.camera.fov = this.baseFov;
+      this.baseFov = null;
+    }
+    this.needsCut = true;
+  }
+
+  // Without a deltaTime (teleports, switching views) the shot is chosen afresh
+  update(target: Vector3, deltaTime: number): void {
+    const dt = Math.min(deltaTime, MAX_DELTA_TIME);
+    if (this.baseFov === null) this.baseFov = this.camera.fov;
+    this.shotTime += dt;
+
+    const visible = this.current >= 0 && this.canSee(this.points[this.current], target);
+    this.hiddenTime = visible ? 0 : this.hiddenTime + dt;
+
+    const best = this.findBestPoint(target);
+    const bestDistance = best >= 0 ? Vector3.Distance(this.points[best], target) : Infinity;
+    const currentDistance = visible ? Vector3.Distance(this.points[this.current], target) : Infinity;
+    // Leave a point that lost sight of Bean, or the crane shot once a point can see it
+    const leave = this.current >= 0 ? this.hiddenTime > LOST_SIGHT_TIME : best >= 0;
+    const better = this.shotTime > MIN_SHOT_TIME && bestDistance < currentDistance * BETTER_SHOT;
+    if (this.needsCut || dt <= 0 || leave || better) {
+      this.cut(best, target);
+    }
+
+    if (this.current >= 0) {
+      this.camera.position.copyFrom(this.points[this.current]);
+    } else {
+      this.orbitAngle += ORBIT_SPEED * dt;
+      this.camera.position.set(
+        target.x + Math.sin(this.orbitAngle) * ORBIT_RADIUS,
+        target.y + ORBIT_HEIGHT,
+        target.z + Math.cos(this.orbitAngle) * ORBIT_RADIUS
+      );
+    }
+
+    // Pan after Bean rather than locking on, like a camera operator would
+    if (dt > 0) {
+      this.look.x = springDamp(this.look.x, target.x, this.lookVelocity[0], LOOK_STIFFNESS, dt);
+      this.look.y = springDamp(this.look.y, target.y, this.lookVelocity[1], LOOK_STIFFNESS, dt);
+      this.look.z = springDamp(this.look.z, target.z, this.lookVelocity[2], LOOK_STIFFNESS, dt);
+    }
+    this.camera.setTarget(this.look.clone());
+
+    // Zoom in on distant shots so Bean stays about the same size in frame
+    const distance = Math.max(0.1, Vector3.Distance(this.camera.position, target));
+    const fov = Scalar.Clamp(2 * Math.atan(FRAME_SIZE / 2 / distance), MIN_FOV, Math.min(MAX_FOV, this.baseFov));
+    this.camera.fov = this.needsCut ? fov : this.camera.fov + (fov - this.camera.fov) * Math.min(1, dt * ZOOM_SPEED);
+    this.needsCut = false;
+  }
+
+  private cut(point: number, target: Vector3): void {
+    this.current = point;
+    this.shotTime = 0;
+    this.hiddenTime = 0;
+    this.look.copyFrom(target);
+    this.lookVelocity.forEach(velocity => { velocity.value = 0; });
+    this.needsCut = true;
+    if (point < 0) {
+      // Start circling from wherever the camera was, so the fallback doesn't jump around
+      this.orbitAngle = Math.atan2(this.camera.position.x - target.x, this.camera.position.z - target.z);
+    }
+  }
+
+  private findBestPoint(target: Vector3): number {
+    let best = -1;
+    let bestDistance = MAX_SHOT_DISTANCE;
+    this.points.forEach((point, index) => {
+      const distance = Vector3.Distance(point, target);
+      if (distance < bestDistance && this.canSee(point, target)) {
+        best = index;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+
+  private canSee(point: Vector3, target: Vector3): boolean {
+    const offset = target.subtract(point);
+    const distance = offset.length();
+    if (distance > MAX_SHOT_DISTANCE) return false;
+    const ray = new Ray(point, offset.normalize(), distance);
+    const hit = this.scene.pickWithRay(ray, mesh =>
+      mesh.isEnabled() && mesh.isVisible && !this.ignore(mesh) && findCameraOcclusion(mesh) === 'block'
+    );
+    return !hit?.hit;
+  }
+}
@@ -0,0 +1,129 @@
+import {
+  Scene,
+  BaseTexture,
+  CubeTexture,
+  HDRCubeTexture,
+  Mesh
+} from '@babylonjs/core';
+import { TimeOfDay, TimeOfDayOptions } from './TimeOfDay';
+import { ShadowService } from './ShadowService';
+
+// How a world looks around its geometry: sky, fog, lights and shadows
+export interface EnvironmentProfile {
+  fog: { start: number; end: number } | null;  // Linear fog distances (m); null keeps this world clear whatever the setting
+  shadowDarkness: number;                      // 0 for black shadows, 1 for none
+  cascadedShadows: boolean;                    // Sharper shadows over big worlds, at some cost
+  skybox?: string;                             // URL of a cube texture (.env, .dds or .hdr) drawn as the sky instead of the clear color
+  environmentTexture?: string;                 // URL of a cube texture that lights and reflects in PBR materials
+  environmentIntensity: number;
+  timeOfDay: Partial<TimeOfDayOptions>;        // Sky color and light intensities through the day, or fixed `daylight`
+}
+
+export const DEFAULT_ENVIRONMENT: EnvironmentProfile = {
+  fog: { start: 10, end: 100 },
+  shadowDarkness: 0.3,
+  cascadedShadows: false,
+  environmentIntensity: 1,
+  timeOfDay: {}
+};
+
+const SKYBOX_SIZE = 1000;
+const HDR_SIZE = 256;  // Cube face resolution HDR panoramas are converted to
+
+/**
+ * Applies a world's environment profile to the scene when it loads, and puts
+ * the menu's defaults back when it's left. Owns the skybox and environment
+ * textures it loads, so switching worlds doesn't leak them.
+ */
+export class EnvironmentManager {
+  private scene: Scene;
+  private shadows: ShadowService;
+  private timeOfDay: TimeOfDay;
+  private profile: EnvironmentProfile = DEFAULT_ENVIRONMENT;
+  private fogEnabled: boolean = true;
+  private fogDistance = { start: 0, end: 0 };  // The player's; worlds can keep their fog further out
+  private skybox: Mesh | null = null;
+  private textures: BaseTexture[] = [];
+
+  constructor(scene: Scene, shadows: ShadowService, timeOfDay: TimeOfDay) {
+    this.scene = scene;
+    this.shadows = shadows;
+    this.timeOfDay = timeOfDay;
+    this.apply(DEFAULT_ENVIRONMENT);
+  }
+
+  get current(): Readonly<EnvironmentProfile> {
+    return this.profile;
+  }
+
+  apply(profile: Partial<EnvironmentProfile> = {}): void {
+    this.clear();
+    this.profile = { ...DEFAULT_ENVIRONMENT, ...profile };
+    const { shadowDarkness, cascadedShadows, skybox, environmentTexture, environmentIntensity, timeOfDay } = this.profile;
+
+    this.updateFog();
+    this.shadows.setCascaded(cascadedShadows);
+    this.shadows.setDarkness(shadowDarkness);
+    this.timeOfDay.configure(timeOfDay);
+
+    if (environmentTexture) {
+      this.scene.environmentTexture = this.loadTexture(environmentTexture);
+    }
+    this.scene.environmentIntensity = environmentIntensity;
+    if (skybox) {
+      const texture = skybox === environmentTexture ? this.scene.environmentTexture! : this.loadTexture(skybox);
+      this.skybox = this.scene.createDefaultSkybox(texture, false, SKYBOX_SIZE);
+      if (this.skybox) this.skybox.applyFog = false;
+    }
+  }
+
+  // Back to the defaults, e.g. for the main menu
+  reset(): void {
+    this.apply(DEFAULT_ENVIRONMENT);
+  }
+
+  // The player's fog setting; worlds without fog stay clear either way
+  setFogEnabled(enabled: boolean): void {
+    this.fogEnabled = enabled;
+    this.updateFog();
+  }
+
+  // The player's fog distances: a world's fog starts and thickens no closer than these
+  setFogDistance(start: number, end: number): void {
+    this.fogDistance = { start, end };
+    this.updateFog();
+  }
+
+  private updateFog(): void {
+    const { fog } = this.profile;
+    this.scene.fogMode = fog && this.fogEnabled ? Scene.FOGMODE_LINEAR : Scene.FOGMODE_NONE;
+    if (fog) {
+      this.scene.fogStart = Math.max(fog.start, this.fogDistance.start);
+      // Linear fog needs some depth between the two
+      this.scene.fogEnd = Math.max(fog.end, this.fogDistance.end, this.scene.fogStart + 1);
+    }
+  }
+
+  // Raw .hdr panoramas are prefiltered on load so rough PBR materials reflect them properly;
+  // .env and .dds files come prefiltered
+  private loadTexture(url: string): BaseTexture {
+    const texture = url.toLowerCase().endsWith('.hdr')
+      ? new HDRCubeTexture(url, this.scene, HDR_SIZE, false, true, false, true)
+      : CubeTexture.CreateFromPrefilteredData(url, this.scene);
+    this.textures.push(texture);
+    return texture;
+  }
+
+  private clear(): void {
+    if (this.skybox) {
+      this.skybox.material?.dispose(false, true);
+      this.skybox.dispose();
+      this.skybox = null;
+    }
+    if (this.scene.environmentTexture && this.textures.includes(this.scene.environmentTexture)) {
+      this.scene.environmentTexture = null;
+    }
+    this.textures.forEach(texture => texture.dispose());
+    this.textures = [];
+  }
+}
@@ -0,0 +1,223 @@
+import {
+  Scene,
+  TargetCamera,
+  AbstractMesh,
+  Vector3,
+  Ray,
+  Scalar
+} from '@babylonjs/core';
+import { CameraOcclusion, findCameraOcclusion } from './CameraOcclusion';
+
+export interface FollowCameraOptions {
+  distance: number;     // Starting distance from the target (m)
+  minDistance: number;  // Zoom limits (m)
+  maxDistance: number;
+  pitch: number;        // Starting angle above the target, positive looks down (rad)
+  minPitch: number;
+  maxPitch: number;
+  radius: number;       // Size of the sphere kept clear of walls (m)
+  stiffness: number;    // Spring frequency for following the target; higher is tighter (rad/s)
+  recenterSpeed: number; // How fast an orbited camera swings back behind the target once it moves (rad/s)
+}
+
+const DEFAULT_OPTIONS: FollowCameraOptions = {
+  distance: 5.6,
+  minDistance: 2,
+  maxDistance: 10,
+  pitch: 0.46,
+  minPitch: -0.2,
+  maxPitch: 1.3,
+  radius: 0.2,
+  stiffness: 8,
+  recenterSpeed: 2
+};
+
+const MIN_CLEARANCE = 0.3;    // Closest a wall can pull the camera to the target (m)
+const ZOOM_SPEED = 6;         // How fast distance eases back out after a wall or zoom (blend per second)
+const FADED_VISIBILITY = 0.3; // How see-through furniture in the way becomes
+const FADE_SPEED = 4;         // Visibility change per second
+const MAX_DELTA_TIME = 0.1;   // Long frames are clamped so the springs stay stable
+const RECENTER_MIN_SPEED = 0.5; // Target speed above which the orbit swings back behind it (m/s)
+
+// Critically damped spring step (Game Programming Gems 4, 1.10): returns the new
+// value and updates the velocity in place, settling on the target without overshoot
+export function springDamp(current: number, target: number, velocity: { value: number }, omega: number, deltaTime: number): number {
+  const x = omega * deltaTime;
+  const decay = 1 / (1 + x + 0.48 * x * x + 0.235 * x * x * x);
+  const change = current - target;
+  const temp = (velocity.value + omega * change) * deltaTime;
+  velocity.value = (velocity.value - omega * temp) * decay;
+  return target + (change + temp) * decay;
+}
+
+/**
+ * Third-person camera rig. Orbits a target at a yaw, pitch and distance, follows
+ * it on critically damped springs so starts, stops and turns ease in, and sweeps
+ * a sphere from the target to the camera so walls pull it in rather than being
+ * seen through. Furniture in the way fades out instead.
+ */
+export class FollowCamera {
+  private scene: Scene;
+  private camera: TargetCamera;
+  private ignore: (mesh: AbstractMesh) => boolean;
+  private options: FollowCameraOptions;
+  private orbitPitch: number;
+  private orbitYaw: number = 0;  // Added to the target's facing; eases back to 0 while the target moves
+  private zoomDistance: number;
+  private currentDistance: number;
+  private pivot: Vector3 = Vector3.Zero();
+  private pivotVelocity = [{ value: 0 }, { value: 0 }, { value: 0 }];
+  private yaw: number = 0;
+  private yawVelocity = { value: 0 };
+  private lastTarget: Vector3 = Vector3.Zero();
+  private needsSnap: boolean = true;
+  private fades: Map<AbstractMesh, number> = new Map();  // Faded meshes and their original visibility
+
+  // `ignore` leaves out the target's own meshes
+  constructor(scene: Scene, camera: TargetCamera, ignore: (mesh: AbstractMesh) => boolean, options: Partial<FollowCameraOptions> = {}) {
+    this.scene = scene;
+    this.camera = camera;
+    this.ignore = ignore;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.orbitPitch = this.options.pitch;
+    this.zoomDistance = this.options.distance;
+    this.currentDistance = this.options.distance;
+  }
+
+  get pitch(): number {
+    return this.orbitPitch;
+  }
+
+  // How far the camera has been swung round from behind the target (rad)
+  get yawOffset(): number {
+    return this.orbitYaw;
+  }
+
+  // Zoom distance; walls may hold the camera closer
+  get distance(): number {
+    return this.zoomDistance;
+  }
+
+  // How far the camera actually is from the target this frame
+  get cameraDistance(): number {
+    return this.currentDistance;
+  }
+
+  // Swings the camera round and over the target, e.g. from the mouse or right stick
+  orbit(yaw: number, pitch: number): void {
+    this.orbitYaw = Scalar.NormalizeRadians(this.orbitYaw + yaw);
+    this.orbitPitch = Scalar.Clamp(this.orbitPitch + pitch, this.options.minPitch, this.options.maxPitch);
+  }
+
+  // Multiplies the distance, e.g. from the scroll wheel or a pinch
+  zoom(factor: number): void {
+    this.zoomDistance = Scalar.Clamp(this.zoomDistance * factor, this.options.minDistance, this.options.maxDistance);
+  }
+
+  // Jumps straight behind the target on the next update, e.g. after a respawn
+  snap(): void {
+    this.orbitYaw = 0;
+    this.needsSnap = true;
+  }
+
+  // Puts back everything faded, for switching to another view
+  release(): void {
+    this.fades.forEach((visibility, mesh) => {
+      mesh.visibility = visibility;
+    });
+    this.fades.clear();
+    this.needsSnap = true;
+  }
+
+  // `yaw` is the direction the target faces; the camera settles behind it plus any orbit
+  update(target: Vector3, yaw: number, deltaTime: number): void {
+    const dt = Math.min(deltaTime, MAX_DELTA_TIME);
+    if (dt > 0 && !this.needsSnap) {
+      // Once the target sets off, the camera swings back behind it to show where it's going
+      const speed = Math.hypot(target.x - this.lastTarget.x, target.z - this.lastTarget.z) / dt;
+      if (speed > RECENTER_MIN_SPEED) {
+        const step = this.options.recenterSpeed * dt;
+        this.orbitYaw = Math.abs(this.orbitYaw) <= step ? 0 : this.orbitYaw - Math.sign(this.orbitYaw) * step;
+      }
+    }
+    this.lastTarget.copyFrom(target);
+
+    if (this.needsSnap || dt <= 0) {
+      this.pivot.copyFrom(target);
+      this.pivotVelocity.forEach(velocity => { velocity.value = 0; });
+      this.yaw = yaw;
+      this.yawVelocity.value = 0;
+    } else {
+      this.pivot.x = springDamp(this.pivot.x, target.x, this.pivotVelocity[0], this.options.stiffness, dt);
+      this.pivot.y = springDamp(this.pivot.y, target.y, this.pivotVelocity[1], this.options.stiffness, dt);
+      this.pivot.z = springDamp(this.pivot.z, target.z, this.pivotVelocity[2], this.options.stiffness, dt);
+      // Turn the short way round
+      const yawTarget = this.yaw + Scalar.NormalizeRadians(yaw - this.yaw);
+      this.yaw = springDamp(this.yaw, yawTarget, this.yawVelocity, this.options.stiffness, dt);
+    }
+
+    // The orbit is applied directly so the mouse and stick feel immediate
+    const cameraYaw = this.yaw + this.orbitYaw;
+    const cosPitch = Math.cos(this.orbitPitch);
+    const direction = new Vector3(
+      -Math.sin(cameraYaw) * cosPitch,
+      Math.sin(this.orbitPitch),
+      -Math.cos(cameraYaw) * cosPitch
+    );
+
+    // Walls pull the camera in at once; it eases back out once they're gone
+    const reach = this.zoomDistance + this.options.radius;
+    const wanted = Math.max(MIN_CLEARANCE, this.castSphere(this.pivot, direction, reach) - this.options.radius);
+    this.currentDistance = wanted < this.currentDistance || this.needsSnap || dt <= 0
+      ? wanted
+      : this.currentDistance + (wanted - this.currentDistance) * Math.min(1, dt * ZOOM_SPEED);
+    this.needsSnap = false;
+
+    this.camera.position.copyFrom(this.pivot).addInPlace(direction.scale(this.currentDistance));
+    this.camera.setTarget(this.pivot.clone());
+
+    this.updateFades(direction, dt);
+  }
+
+  // Nearest wall hit by a sphere swept from origin along direction, approximated
+  // by a ray through the middle and four around its edge
+  private castSphere(origin: Vector3, direction: Vector3, length: number): number {
+    let right = Vector3.Cross(direction, Vector3.Up());
+    if (right.lengthSquared() < 1e-6) right = Vector3.Right();
+    right.normalize().scaleInPlace(this.options.radius);
+    const up = Vector3.Cross(right, direction).normalize().scaleInPlace(this.options.radius);
+
+    let nearest = length;
+    [Vector3.Zero(), right, right.negate(), up, up.negate()].forEach(offset => {
+      const ray = new Ray(origin.add(offset), direction, length);
+      const hit = this.scene.pickWithRay(ray, mesh => this.occludes(mesh, 'block'));
+      if (hit?.hit) nearest = Math.min(nearest, hit.distance);
+    });
+    return nearest;
+  }
+
+  private updateFades(direction: Vector3, deltaTime: number): void {
+    const ray = new Ray(this.pivot, direction, this.currentDistance);
+    const occluders = new Set<AbstractMesh>();
+    this.scene.multiPickWithRay(ray, mesh => this.occludes(mesh, 'fade'))?.forEach(hit => {
+      if (hit.pickedMesh) occluders.add(hit.pickedMesh);
+    });
+    occluders.forEach(mesh => {
+      if (!this.fades.has(mesh)) this.fades.set(mesh, mesh.visibility);
+    });
+
+    const step = deltaTime > 0 ? FADE_SPEED * deltaTime : 1;
+    this.fades.forEach((visibility, mesh) => {
+      const target = occluders.has(mesh) ? visibility * FADED_VISIBILITY : visibility;
+      const remaining = target - mesh.visibility;
+      mesh.visibility = Math.abs(remaining) <= step ? target : mesh.visibility + Math.sign(remaining) * step;
+      if (mesh.isDisposed() || (!occluders.has(mesh) && mesh.visibility === visibility)) {
+        this.fades.delete(mesh);
+      }
+    });
+  }
+
+  private occludes(mesh: AbstractMesh, occlusion: CameraOcclusion): boolean {
+    return mesh.isEnabled() && mesh.isVisible && !this.ignore(mesh) && findCameraOcclusion(mesh) === occlusion;
+  }
+}
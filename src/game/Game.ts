@@ -5,39 +5,72 @@ import {
   Vector3, 
   HemisphericLight,
   DirectionalLight,
-  ShadowGenerator,
   WebXRDefaultExperience,
   WebXRState,
   WebXRFeatureName,
-  Color3,
-  Color4
+  Tools,
+  AbstractMesh
 } from '@babylonjs/core';
 import '@babylonjs/loaders';
 import { Inspector } from '@babylonjs/inspector';
 import { BaseWorld } from './worlds/BaseWorld';
-import { LowPolyWorld } from './worlds/LowPolyWorld';
-import { HomeWorld } from './worlds/HomeWorld';
-import { Bean } from './Bean';
+import { WorldRegistry } from './worlds';
+import { Bean, BEAN_MODEL_URL } from './Bean';
+import { PhotoMode } from './PhotoMode';
+import { TimeOfDay } from './TimeOfDay';
+import { EnvironmentManager } from './EnvironmentManager';
+import { ShadowService } from './ShadowService';
+import { LocomotionState } from './LocomotionStateMachine';
 import { ControlsManager } from '../controls/ControlsManager';
+import { InputActions } from '../controls/InputActions';
 import { MainMenu } from '../ui/MainMenu';
+import { PhotoModeOverlay } from '../ui/PhotoModeOverlay';
+import { LoadingScreen } from '../ui/LoadingScreen';
 import { VRMenu } from '../ui/VRMenu';
-import { AudioManager } from '../audio/AudioManager';
+import { AudioManager, BeanAudioState } from '../audio/AudioManager';
+import { findSurface, DEFAULT_SURFACE } from '../audio/Surfaces';
 import { AnimationManager } from '../animation/AnimationManager';
+import { InteractionManager } from '../interaction/InteractionManager';
+import { NoiseEvents, getNoiseLevel } from '../interaction/NoiseEvents';
+import { SaveManager, SaveSnapshot, SAVE_VERSION, AUTOSAVE_SLOT, QUICKSAVE_SLOT } from '../save/SaveManager';
+import { SettingsManager, SHADOW_MAP_SIZES } from '../settings/SettingsManager';
+import { AssetManager } from '../assets/AssetManager';
 
 export class Game {
   private engine: Engine;
   private scene: Scene;
   private camera: UniversalCamera;
   private world?: BaseWorld;
+  private worldId?: string;
   private mainMenu?: MainMenu;
   private vrMenu?: VRMenu;
   private bean: Bean;
   private controlsManager: ControlsManager;
   private audioManager: AudioManager;
   private animationManager: AnimationManager;
+  private interactionManager: InteractionManager;
+  private noiseEvents: NoiseEvents;
+  private saveManager: SaveManager;
+  private assets: AssetManager;
+  private settings: SettingsManager;
+  private inputs: InputActions;
+  private photoMode: PhotoMode;
+  private photoModeOverlay?: PhotoModeOverlay;
+  private loadingScreen?: LoadingScreen;
+  private loadController?: AbortController;  // Aborts the world load in progress when the player cancels
+  private shadows!: ShadowService;
+  private timeOfDay!: TimeOfDay;
+  private environment!: EnvironmentManager;
   private xrHelper?: WebXRDefaultExperience;
   private isRunning: boolean = false;
   private useTeleportation: boolean = false;
+  private barkCooldown: number = 0;
+  private visitedFloors: Set<AbstractMesh> = new Set();  // Each walkable floor counts as a room for the music
+  private exploreTime: number = 0;
+  
+  private readonly BARK_COOLDOWN = 0.4;  // Seconds between barks, longer than the head squash
+  private readonly EXPLORE_DURATION = 15;  // Seconds the exploring music plays after entering a new room
+  private readonly SCARY_NOISE_LEVEL = 0.5;  // Noise level at Bean that startles
 
   constructor(canvas: HTMLCanvasElement) {
     this.engine = new Engine(canvas, true, {
@@ -47,16 +80,10 @@ export class Game {
       adaptToDeviceRatio: true
     });
     
-    // Optimize pixel ratio for VR (balance quality vs performance)
-    const maxPixelRatio = 1.5; // Cap at 1.5 for better VR performance
-    this.engine.setHardwareScalingLevel(1 / Math.min(window.devicePixelRatio, maxPixelRatio));
+    this.settings = new SettingsManager();
+    this.inputs = new InputActions();
     
     this.scene = new Scene(this.engine);
-    this.scene.clearColor = new Color4(0.53, 0.81, 0.92, 1);
-    this.scene.fogMode = Scene.FOGMODE_LINEAR;
-    this.scene.fogColor = new Color3(0.53, 0.81, 0.92);
-    this.scene.fogStart = 10;
-    this.scene.fogEnd = 100;
     
     this.camera = new UniversalCamera(
       'camera',
@@ -65,15 +92,45 @@ export class Game {
     );
     this.camera.minZ = 0.1;
     this.camera.maxZ = 1000;
-    this.camera.fov = 1.0472;
     this.camera.attachControl(false);
     
-    this.bean = new Bean(this.scene, this.camera);
-    this.controlsManager = new ControlsManager(this.scene, this.camera, this.bean);
+    this.bean = new Bean(this.scene, this.camera, BEAN_MODEL_URL);
+    this.controlsManager = new ControlsManager(this.scene, this.camera, this.bean, this.settings, this.inputs);
     this.audioManager = new AudioManager(this.scene);
     this.animationManager = new AnimationManager(this.scene);
+    this.interactionManager = new InteractionManager(this.scene, this.bean);
+    this.noiseEvents = new NoiseEvents(this.scene);
+    this.saveManager = new SaveManager();
+    this.assets = new AssetManager(this.scene);
+    this.photoMode = new PhotoMode(this.scene, this.camera);
+    this.controlsManager.attachPhotoMode(this.photoMode);
+    
+    // Rumble the gamepad or controller when Bean picks something up, pushes it, etc.
+    this.interactionManager.onInteractionObservable.add(({ action }) => {
+      this.controlsManager.pulse(0.3, 60);
+      if (action === 'sniff') {
+        this.audioManager.playSound('sniff', this.bean.getMouthPosition());
+        this.bean.getMood().stimulate('discovery');
+      } else if (action === 'pickUp') {
+        this.bean.getMood().stimulate('play');
+      }
+    });
+    // Bean's own barks are exciting; anything else loud nearby is scary
+    this.noiseEvents.onNoiseObservable.add((event) => {
+      const level = getNoiseLevel(event, this.bean.getMouthPosition());
+      if (event.source !== 'bark' && level >= this.SCARY_NOISE_LEVEL) {
+        this.bean.getMood().stimulate('loudNoise', Math.min(1, level));
+      }
+    });
+    this.bean.onLocomotionStateChangedObservable.add(({ to }) => {
+      if (to === LocomotionState.LIE_DOWN) {
+        this.audioManager.playSound('whine', this.bean.getMouthPosition(), { volume: 0.5 });
+      }
+    });
     
     this.setupLighting();
+    this.applySettings();
+    this.settings.onChangedObservable.add(() => this.applySettings());
     this.setupEventListeners();
     
     if (import.meta.env.DEV) {
@@ -95,32 +152,57 @@ export class Game {
       new Vector3(0, 1, 0),
       this.scene
     );
-    hemisphericLight.intensity = 0.6;
-    hemisphericLight.groundColor = new Color3(0.33, 0.33, 0.33);
     
     const directionalLight = new DirectionalLight(
       'directionalLight',
       new Vector3(-1, -2, -1),
       this.scene
     );
-    directionalLight.position = new Vector3(10, 20, 10);
-    directionalLight.intensity = 0.8;
     
-    const shadowGenerator = new ShadowGenerator(2048, directionalLight);
-    shadowGenerator.useBlurExponentialShadowMap = true;
-    shadowGenerator.blurScale = 2;
-    shadowGenerator.setDarkness(0.3);
+    // Worlds and Bean find this through the scene to register shadow casters
+    this.shadows = new ShadowService(this.scene, directionalLight, { mapSize: SHADOW_MAP_SIZES.high });
+    
+    // Moves the sun and colors the sky; indoor lamps follow it
+    this.timeOfDay = new TimeOfDay(this.scene, directionalLight, hemisphericLight);
+    this.timeOfDay.onLampsChangedObservable.add(on => this.world?.setLampsOn(on));
+    // Fog, shadow darkness, sky and the clock's palette change with each world
+    this.environment = new EnvironmentManager(this.scene, this.shadows, this.timeOfDay);
+  }
+  
+  // Pushes the current settings into the engine and scene, called on every change
+  private applySettings(): void {
+    const settings = this.settings.get();
+    
+    // Render scale caps the device pixel ratio (lower is faster, especially in VR)
+    this.engine.setHardwareScalingLevel(1 / Math.min(window.devicePixelRatio, settings.renderScale));
+    this.camera.fov = Tools.ToRadians(settings.fov);
+    this.environment.setFogEnabled(settings.fog);
+    this.environment.setFogDistance(settings.fogStart, settings.fogEnd);
+    this.timeOfDay.setDayLength(settings.dayLength * 60);
+    this.timeOfDay.setRealTime(settings.realTimeOfDay);
+    
+    this.shadows.setEnabled(settings.shadowQuality !== 'off');
+    if (settings.shadowQuality !== 'off') {
+      this.shadows.setMapSize(SHADOW_MAP_SIZES[settings.shadowQuality]);
+    }
     
-    (this.scene as any).shadowGenerators = [shadowGenerator];
+    this.audioManager.setMasterVolume(settings.masterVolume);
+    this.audioManager.setBusVolume('music', settings.musicVolume);
+    this.audioManager.setBusVolume('effects', settings.effectsVolume);
+    this.audioManager.setBusVolume('ambience', settings.ambienceVolume);
   }
 
   async init(): Promise<void> {
     // Initialize bean and controls first
     await this.bean.init();
     await this.controlsManager.init();
+    await this.audioManager.init();
     
     // Initialize VR menu
-    this.vrMenu = new VRMenu(this.scene);
+    this.vrMenu = new VRMenu(this.scene, this.settings);
+    this.photoModeOverlay = new PhotoModeOverlay(this.photoMode, this.inputs);
+    this.loadingScreen = new LoadingScreen(this.scene);
+    this.loadingScreen.onCancelObservable.add(() => this.cancelLoad());
     
     await this.setupWebXR();
     
@@ -136,6 +218,9 @@ export class Game {
   private showMainMenu(): void {
     // Disable controls while in menu
     this.controlsManager.setEnabled(false);
+    this.audioManager.setMusicState('menu');
+    this.audioManager.playMusic('menu');
+    this.environment.reset();
     
     // Hide game UI while in menu
     const info = document.getElementById('info');
@@ -145,37 +230,53 @@ export class Game {
     if (crosshair) crosshair.style.display = 'none';
     
     // Create and show menu
+    this.mainMenu?.dispose();
     this.mainMenu = new MainMenu((worldId, useTeleport) => {
       this.useTeleportation = useTeleport;
       this.loadWorld(worldId);
-    });
+    }, this.saveManager, (snapshot) => {
+      const { useTeleportation, ...settings } = snapshot.settings;
+      this.useTeleportation = useTeleportation;
+      this.settings.restore(settings);
+      this.loadWorld(snapshot.worldId, snapshot);
+    }, this.settings, this.inputs);
     this.mainMenu.show();
+
+    // Get the world "Continue" would load ready while the player is on the menu
+    const latest = this.saveManager.getLatest();
+    if (latest) this.assets.preloadWorld(latest.worldId);
   }
   
-  private async loadWorld(worldId: string): Promise<void> {
+  private async loadWorld(worldId: string, snapshot?: SaveSnapshot): Promise<void> {
+    this.loadController?.abort();
+    const controller = new AbortController();
+    this.loadController = controller;
+    const { signal } = controller;
+
+    const inVR = this.xrHelper?.baseExperience.state === WebXRState.IN_XR;
+    const title = `Loading ${WorldRegistry.get(worldId)?.title ?? 'world'}`;
+    await this.loadingScreen?.show(title, inVR);
+    if (signal.aborted) return;
+
     // Dispose current world if exists
+    this.interactionManager.clear();
     if (this.world) {
       this.world.dispose();
+      this.world = undefined;
+      this.worldId = undefined;
     }
     
-    // Show loading
-    const loadingElement = document.getElementById('loading');
-    if (loadingElement) {
-      loadingElement.style.display = 'block';
-      loadingElement.textContent = 'Loading world...';
-    }
-    
+    let world: BaseWorld | undefined;
     try {
       // Create new world based on selection
-      if (worldId === 'low-poly') {
-        this.world = new LowPolyWorld(this.scene);
-      } else if (worldId === 'home') {
-        this.world = new HomeWorld(this.scene);
-      } else {
-        throw new Error(`Unknown world: ${worldId}`);
-      }
+      world = WorldRegistry.create(worldId, this.scene);
+      this.world = world;
       
-      await this.world.init();
+      await world.init({
+        signal,
+        onProgress: progress => this.loadingScreen?.setProgress(progress)
+      });
+      signal.throwIfAborted();
       
       // Update XR floor meshes if needed
       if (this.xrHelper && this.xrHelper.teleportation) {
@@ -185,8 +286,24 @@ export class Game {
         });
       }
       
-      // Reset player position
-      this.bean.resetPosition();
+      if (snapshot) {
+        this.restoreSnapshot(snapshot);
+      } else {
+        // Place player at the world's spawn point
+        const spawn = this.world.getSpawnPoint();
+        this.bean.resetPosition(spawn.position, spawn.rotation);
+      }
+      this.worldId = worldId;
+      const definition = WorldRegistry.get(worldId);
+      this.environment.apply(this.world.getEnvironment());
+      this.world.setLampsOn(this.timeOfDay.lampsOn);
+      this.audioManager.startAmbient(definition?.ambience ?? 'house');
+      this.visitedFloors.clear();
+      this.exploreTime = 0;
+      this.bean.getMood().reset();
+      this.bean.setCameraPoints(this.world.getCameraPoints());
+      this.audioManager.setMusicState('idle');
+      this.audioManager.playMusic(definition?.music ?? 'house');
       
       // Show game UI
       const info = document.getElementById('info');
@@ -194,15 +311,62 @@ export class Game {
       
       // Enable controls and start game
       this.controlsManager.setEnabled(true);
+      this.loadingScreen?.hide(world.getLoadWarnings().join('\n'));
       
     } catch (error) {
+      // Cancelling already went back to the menu and threw the world away
+      if (signal.aborted) return;
       console.error('Failed to load world:', error);
-      alert('Failed to load world. Please try again.');
-      this.showMainMenu();
+      world?.dispose();
+      if (this.world === world) this.world = undefined;
+      const message = error instanceof Error ? error.message : String(error);
+      this.loadingScreen?.showError(message, () => {
+        this.loadingScreen?.hide();
+        this.showMainMenu();
+      });
     } finally {
-      if (loadingElement) {
-        loadingElement.style.display = 'none';
-      }
+      if (this.loadController === controller) this.loadController = undefined;
+    }
+  }
+
+  // Stops the world load and goes straight back to the menu
+  private cancelLoad(): void {
+    if (!this.loadController) return;
+    this.loadController.abort();
+    this.loadController = undefined;
+    this.loadingScreen?.hide();
+    this.returnToMenu();
+  }
+
+  private createSnapshot(): SaveSnapshot | null {
+    if (!this.world || !this.worldId) return null;
+    
+    const { objects, openDoors } = this.interactionManager.captureState();
+    return {
+      version: SAVE_VERSION,
+      savedAt: new Date().toISOString(),
+      worldId: this.worldId,
+      bean: {
+        position: [this.bean.position.x, this.bean.getFeetHeight(), this.bean.position.z],
+        rotation: this.bean.rotation.y,
+        cameraView: this.bean.cameraView
+      },
+      objects,
+      openDoors,
+      settings: { ...this.settings.get(), useTeleportation: this.useTeleportation }
+    };
+  }
+  
+  private restoreSnapshot(snapshot: SaveSnapshot): void {
+    this.bean.resetPosition(Vector3.FromArray(snapshot.bean.position), snapshot.bean.rotation);
+    this.controlsManager.setCameraView(snapshot.bean.cameraView);
+    this.interactionManager.restoreState(snapshot.objects, snapshot.openDoors);
+  }
+  
+  private autosave(): void {
+    const snapshot = this.createSnapshot();
+    if (snapshot) {
+      this.saveManager.save(AUTOSAVE_SLOT, snapshot);
     }
   }
 
@@ -262,6 +426,7 @@ export class Game {
           if (state === WebXRState.IN_XR) {
             console.log('Entered VR mode');
             this.controlsManager.setVRMode(true, this.xrHelper);
+            this.interactionManager.setVRMode(true);
             
             const info = document.getElementById('info');
             if (info) info.style.display = 'none';
@@ -271,6 +436,7 @@ export class Game {
           } else if (state === WebXRState.NOT_IN_XR) {
             console.log('Exited VR mode');
             this.controlsManager.setVRMode(false);
+            this.interactionManager.setVRMode(false);
             
             const info = document.getElementById('info');
             if (info) info.style.display = 'block';
@@ -308,13 +474,57 @@ export class Game {
   private update(deltaTime: number): void {
     if (!this.isRunning) return;
     
+    // Photo mode freezes Bean and the world; only its camera moves
+    if (this.photoMode.isActive) {
+      this.controlsManager.update(deltaTime);
+      this.photoMode.update(deltaTime);
+      return;
+    }
+    
+    this.barkCooldown = Math.max(0, this.barkCooldown - deltaTime);
     this.controlsManager.update(deltaTime);
     this.bean.update(deltaTime, this.engine.getDeltaTime() / 1000);
     if (this.world) {
       this.world.update(deltaTime, this.engine.getDeltaTime() / 1000);
+      this.timeOfDay.update(deltaTime);
+      this.interactionManager.update(this.controlsManager.getInteractionRay(), deltaTime);
+      this.audioManager.updateBean(deltaTime, this.getBeanAudioState());
+      this.updateMusicState(deltaTime);
     }
   }
 
+  // Running brings in the beat; stepping onto a floor Bean hasn't been on yet
+  // plays the exploring layers for a while
+  private updateMusicState(deltaTime: number): void {
+    const ground = this.bean.getGroundMesh();
+    if (ground && this.world?.getFloorMeshes().some(mesh => mesh === ground) && !this.visitedFloors.has(ground)) {
+      // The floor Bean starts on isn't new
+      if (this.visitedFloors.size > 0) {
+        this.exploreTime = this.EXPLORE_DURATION;
+        this.bean.getMood().stimulate('discovery');
+      }
+      this.visitedFloors.add(ground);
+    }
+    this.exploreTime = Math.max(0, this.exploreTime - deltaTime);
+
+    if (this.bean.isRunning && this.bean.isMoving) {
+      this.audioManager.setMusicState('running');
+    } else {
+      this.audioManager.setMusicState(this.exploreTime > 0 ? 'exploring' : 'idle');
+    }
+  }
+
+  private getBeanAudioState(): BeanAudioState {
+    const ground = this.bean.getGroundMesh();
+    return {
+      position: new Vector3(this.bean.position.x, this.bean.getFeetHeight(), this.bean.position.z),
+      speed: this.bean.getSpeed(),
+      surface: ground ? findSurface(ground) ?? DEFAULT_SURFACE : null,
+      isMoving: this.bean.isMoving,
+      isPanting: this.bean.getMood().isPanting
+    };
+  }
+
   private setupEventListeners(): void {
     window.addEventListener('resize', () => {
       this.engine.resize();
@@ -325,15 +535,81 @@ export class Game {
     });
     
     window.addEventListener('returnToMenu', () => {
+      // Leaving while a world loads is the same as pressing Cancel
+      if (this.loadController) {
+        this.cancelLoad();
+        return;
+      }
+      this.autosave();
       this.returnToMenu();
     });
+    
+    // Save when the tab is hidden or closed, since reloading would otherwise lose the session
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.autosave();
+      }
+    });
+    window.addEventListener('pagehide', () => {
+      this.autosave();
+    });
+    
+    // A fresh snapshot straight into a manual slot, without leaving the world
+    window.addEventListener('quickSave', () => {
+      const snapshot = this.loadController ? null : this.createSnapshot();
+      if (snapshot) {
+        this.saveManager.save(QUICKSAVE_SLOT, snapshot);
+      }
+    });
+    
+    window.addEventListener('interact', () => {
+      this.interactionManager.interact();
+    });
+    
+    window.addEventListener('bark', () => {
+      this.bark();
+    });
+    
+    window.addEventListener('photoMode', () => {
+      this.togglePhotoMode();
+    });
+  }
+  
+  private togglePhotoMode(): void {
+    if (this.photoMode.isActive) {
+      this.photoMode.exit();
+    } else if (this.world && this.xrHelper?.baseExperience.state !== WebXRState.IN_XR) {
+      this.interactionManager.hidePrompt();
+      this.audioManager.stopBeanSounds();
+      this.photoMode.enter();
+    }
   }
   
+  // A spatial woof, a squash of Bean's head, and a noise the world can react to
+  private bark(): void {
+    if (this.barkCooldown > 0 || !this.world) return;
+    this.barkCooldown = this.BARK_COOLDOWN;
+    
+    const mouth = this.bean.getMouthPosition();
+    this.audioManager.playSound('bark', mouth, { playbackRate: 0.95 + Math.random() * 0.1 });
+    this.animationManager.pulse(this.bean.getHead(), 1.15, 200);
+    this.controlsManager.pulse(0.4, 80);
+    this.bean.getMood().stimulate('bark');
+    this.noiseEvents.emit({ source: 'bark', position: mouth, loudness: 1 });
+  }
+
   private returnToMenu(): void {
+    this.photoMode.exit();
+    this.bean.releaseCameraViews();
+    this.audioManager.stopAmbient();
+    this.audioManager.stopBeanSounds();
+
     // Dispose current world
+    this.interactionManager.clear();
     if (this.world) {
       this.world.dispose();
       this.world = undefined;
+      this.worldId = undefined;
     }
     
     // Show menu
@@ -342,6 +618,9 @@ export class Game {
 
   dispose(): void {
     this.stop();
+    this.loadController?.abort();
+    this.photoModeOverlay?.dispose();
+    this.loadingScreen?.dispose();
     this.scene.dispose();
     this.engine.dispose();
   }
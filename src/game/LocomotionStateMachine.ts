@@ -0,0 +1,135 @@
+import { Observable } from '@babylonjs/core';
+
+export enum LocomotionState {
+  IDLE = 'idle',
+  WALK = 'walk',
+  RUN = 'run',
+  JUMP = 'jump',
+  FALL = 'fall',
+  LAND = 'land',
+  CROUCH = 'crouch',
+  SIT = 'sit',
+  LIE_DOWN = 'lieDown'
+}
+
+export interface LocomotionInput {
+  isMoving: boolean;
+  isRunning: boolean;
+  isGrounded: boolean;
+  verticalVelocity: number;
+  crouchHeld: boolean;  // Also forced on while there is no headroom to stand
+}
+
+export interface LocomotionStateChange {
+  from: LocomotionState;
+  to: LocomotionState;
+}
+
+// How long the landing squash lasts before Bean can walk off again
+const LAND_DURATION = 0.15;
+// Shorter airborne spells (e.g. stepping off the carpet) don't trigger a landing
+const MIN_FALL_TIME_FOR_LAND = 0.2;
+
+const AIRBORNE_STATES = [LocomotionState.JUMP, LocomotionState.FALL];
+const REST_STATES = [LocomotionState.SIT, LocomotionState.LIE_DOWN];
+
+/**
+ * Decides Bean's locomotion state each frame from movement and physics input.
+ * Sit and lie down are toggles that persist until Bean moves, jumps or toggles
+ * them off; everything else is derived from the current input.
+ */
+export class LocomotionStateMachine {
+  private current: LocomotionState = LocomotionState.IDLE;
+  private stateTime: number = 0;
+  private airTime: number = 0;
+  private requestedRest: LocomotionState | null = null;
+
+  readonly onStateChangedObservable = new Observable<LocomotionStateChange>();
+
+  get state(): LocomotionState {
+    return this.current;
+  }
+
+  get timeInState(): number {
+    return this.stateTime;
+  }
+
+  isAirborne(): boolean {
+    return AIRBORNE_STATES.includes(this.current);
+  }
+
+  isResting(): boolean {
+    return REST_STATES.includes(this.current);
+  }
+
+  canJump(): boolean {
+    return !this.isAirborne() && this.current !== LocomotionState.LIE_DOWN;
+  }
+
+  toggleSit(): void {
+    this.toggleRest(LocomotionState.SIT);
+  }
+
+  toggleLieDown(): void {
+    this.toggleRest(LocomotionState.LIE_DOWN);
+  }
+
+  private toggleRest(state: LocomotionState): void {
+    if (this.isAirborne()) return;
+    this.requestedRest = this.requestedRest === state ? null : state;
+  }
+
+  update(input: LocomotionInput, deltaTime: number): LocomotionState {
+    this.stateTime += deltaTime;
+    this.airTime = this.isAirborne() ? this.airTime + deltaTime : 0;
+    this.setState(this.nextState(input));
+    return this.current;
+  }
+
+  private nextState(input: LocomotionInput): LocomotionState {
+    if (!input.isGrounded) {
+      this.requestedRest = null;
+      if (input.verticalVelocity > 0 && this.current !== LocomotionState.FALL) {
+        return LocomotionState.JUMP;
+      }
+      return LocomotionState.FALL;
+    }
+
+    if (this.isAirborne() && this.airTime >= MIN_FALL_TIME_FOR_LAND) {
+      return LocomotionState.LAND;
+    }
+    if (this.current === LocomotionState.LAND && this.stateTime < LAND_DURATION) {
+      return LocomotionState.LAND;
+    }
+
+    // Any movement gets Bean back on its feet
+    if (input.isMoving) {
+      this.requestedRest = null;
+    }
+    if (this.requestedRest) {
+      return this.requestedRest;
+    }
+
+    if (input.crouchHeld) {
+      return LocomotionState.CROUCH;
+    }
+    if (input.isMoving) {
+      return input.isRunning ? LocomotionState.RUN : LocomotionState.WALK;
+    }
+    return LocomotionState.IDLE;
+  }
+
+  private setState(state: LocomotionState): void {
+    if (state === this.current) return;
+
+    const change = { from: this.current, to: state };
+    this.current = state;
+    this.stateTime = 0;
+    this.onStateChangedObservable.notifyObservers(change);
+  }
+
+  reset(): void {
+    this.requestedRest = null;
+    this.setState(LocomotionState.IDLE);
+  }
+}
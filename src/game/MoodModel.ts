@@ -0,0 +1,158 @@
+import { Observable } from '@babylonjs/core';
+import { LocomotionState } from './LocomotionStateMachine';
+
+export type Mood = 'happy' | 'curious' | 'tired' | 'scared' | 'excited';
+export const MOODS: Mood[] = ['happy', 'curious', 'tired', 'scared', 'excited'];
+
+// Things that happen to Bean, each nudging some moods up and others down
+export type MoodStimulus = 'discovery' | 'play' | 'bark' | 'loudNoise';
+
+const STIMULI: Record<MoodStimulus, Partial<Record<Mood, number>>> = {
+  discovery: { curious: 0.6, happy: 0.1, tired: -0.2 },
+  play: { happy: 0.3, excited: 0.3, tired: -0.2 },
+  bark: { excited: 0.25, tired: -0.1 },
+  loudNoise: { scared: 0.8, happy: -0.3, tired: -0.5 }
+};
+
+/**
+ * How a mood shows on Bean. Moods are blended by how strongly Bean feels each
+ * one, so expressions change gradually.
+ */
+export interface MoodExpression {
+  wagSpeed: number;      // Wags per second
+  wagAmplitude: number;  // Tail swing either side (rad)
+  tailLift: number;      // -1 tucked between the legs, 0 relaxed, 1 held high
+  earLift: number;       // -1 flat back, 0 relaxed, 1 pricked up
+  eyeOpenness: number;   // 1 wide open, lower for heavy lids
+  blinkInterval: number; // Average seconds between blinks
+}
+
+export const MOOD_EXPRESSIONS: Record<Mood, MoodExpression> = {
+  happy: { wagSpeed: 1.2, wagAmplitude: 0.35, tailLift: 0.2, earLift: 0, eyeOpenness: 1, blinkInterval: 4 },
+  curious: { wagSpeed: 0.6, wagAmplitude: 0.15, tailLift: 0.6, earLift: 1, eyeOpenness: 1, blinkInterval: 6 },
+  tired: { wagSpeed: 0.4, wagAmplitude: 0.1, tailLift: -0.3, earLift: -0.3, eyeOpenness: 0.45, blinkInterval: 2 },
+  scared: { wagSpeed: 0, wagAmplitude: 0, tailLift: -1, earLift: -1, eyeOpenness: 1, blinkInterval: 8 },
+  excited: { wagSpeed: 3, wagAmplitude: 0.6, tailLift: 0.8, earLift: 0.6, eyeOpenness: 1, blinkInterval: 5 }
+};
+
+// Levels settle back towards these; a content Bean is a bit happy
+const BASELINE: Record<Mood, number> = { happy: 0.4, curious: 0, tired: 0, scared: 0, excited: 0 };
+const DECAY = 0.08;          // Level per second moods fade back towards the baseline
+const RUN_EXCITEMENT = 0.2;  // Excitement gained per second of running
+const IDLE_DELAY = 10;       // Seconds of doing nothing before Bean starts getting sleepy
+const IDLE_TIREDNESS = 0.05; // Tiredness gained per second once idle (double lying down)
+const PANT_THRESHOLD = 2;    // Seconds of running before Bean starts panting
+const EXERTION_MAX = 6;      // Caps how long Bean keeps panting after stopping
+
+export interface MoodChange {
+  from: Mood;
+  to: Mood;
+}
+
+/**
+ * Bean's emotional state: a level from 0 to 1 for each mood, pushed around by
+ * what Bean is doing and by stimuli from the game, and fading back to content
+ * over time. The strongest mood is the current one.
+ */
+export class MoodModel {
+  private levels: Record<Mood, number> = { ...BASELINE };
+  private current: Mood = 'happy';
+  private idleTime: number = 0;
+  private exertion: number = 0;
+  private panting: boolean = false;
+
+  readonly onMoodChangedObservable = new Observable<MoodChange>();
+
+  get mood(): Mood {
+    return this.current;
+  }
+
+  get isPanting(): boolean {
+    return this.panting;
+  }
+
+  getLevel(mood: Mood): number {
+    return this.levels[mood];
+  }
+
+  stimulate(stimulus: MoodStimulus, strength: number = 1): void {
+    Object.entries(STIMULI[stimulus]).forEach(([mood, amount]) => {
+      this.adjust(mood as Mood, amount * strength);
+    });
+    this.updateCurrent();
+  }
+
+  update(state: LocomotionState, isMoving: boolean, deltaTime: number): void {
+    const running = state === LocomotionState.RUN && isMoving;
+    const resting = state === LocomotionState.SIT || state === LocomotionState.LIE_DOWN;
+
+    MOODS.forEach(mood => {
+      const level = this.levels[mood];
+      const step = DECAY * deltaTime;
+      this.levels[mood] = Math.abs(BASELINE[mood] - level) <= step
+        ? BASELINE[mood]
+        : level + Math.sign(BASELINE[mood] - level) * step;
+    });
+
+    if (running) {
+      this.adjust('excited', (RUN_EXCITEMENT + DECAY) * deltaTime);
+      this.adjust('tired', -0.1 * deltaTime);
+    }
+
+    this.idleTime = isMoving ? 0 : this.idleTime + deltaTime;
+    if (this.idleTime > IDLE_DELAY) {
+      this.adjust('tired', (IDLE_TIREDNESS * (state === LocomotionState.LIE_DOWN ? 2 : 1) + DECAY) * deltaTime);
+    } else if (isMoving && !resting) {
+      this.adjust('tired', -0.05 * deltaTime);
+    }
+
+    // A good run leaves Bean panting for a while
+    this.exertion = running
+      ? Math.min(EXERTION_MAX, this.exertion + deltaTime)
+      : Math.max(0, this.exertion - deltaTime);
+    if (!this.panting && this.exertion > PANT_THRESHOLD) {
+      this.panting = true;
+    } else if (this.panting && this.exertion === 0) {
+      this.panting = false;
+    }
+
+    this.updateCurrent();
+  }
+
+  // Every mood's expression weighted by how strongly Bean feels it
+  getExpression(): MoodExpression {
+    const total = MOODS.reduce((sum, mood) => sum + this.levels[mood], 0);
+    if (total === 0) {
+      return { ...MOOD_EXPRESSIONS.happy };
+    }
+    const expression: MoodExpression = { wagSpeed: 0, wagAmplitude: 0, tailLift: 0, earLift: 0, eyeOpenness: 0, blinkInterval: 0 };
+    MOODS.forEach(mood => {
+      const weight = this.levels[mood] / total;
+      (Object.keys(expression) as (keyof MoodExpression)[]).forEach(key => {
+        expression[key] += MOOD_EXPRESSIONS[mood][key] * weight;
+      });
+    });
+    return expression;
+  }
+
+  reset(): void {
+    this.levels = { ...BASELINE };
+    this.idleTime = 0;
+    this.exertion = 0;
+    this.panting = false;
+    this.updateCurrent();
+  }
+
+  private adjust(mood: Mood, amount: number): void {
+    this.levels[mood] = Math.max(0, Math.min(1, this.levels[mood] + amount));
+  }
+
+  private updateCurrent(): void {
+    const strongest = MOODS.reduce((best, mood) => (this.levels[mood] > this.levels[best] ? mood : best), 'happy' as Mood);
+    if (strongest !== this.current) {
+      const from = this.current;
+      this.current = strongest;
+      this.onMoodChangedObservable.notifyObservers({ from, to: strongest });
+    }
+  }
+}
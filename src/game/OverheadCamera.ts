@@ -0,0 +1,93 @@
+import { Scene, TargetCamera, Vector3, Plane, Scalar } from '@babylonjs/core';
+import { springDamp } from './FollowCamera';
+
+export interface OverheadCameraOptions {
+  height: number;     // Starting height above the target (m)
+  minHeight: number;  // Zoom limits (m)
+  maxHeight: number;
+  tilt: number;       // Lean back from straight down, so walls read as walls (rad)
+  cutaway: number;    // Everything higher than this above Bean's feet is cut away, ceilings included (m)
+  stiffness: number;  // Spring frequency for following the target (rad/s)
+}
+
+const DEFAULT_OPTIONS: OverheadCameraOptions = {
+  height: 18,
+  minHeight: 8,
+  maxHeight: 40,
+  tilt: 0.25,
+  cutaway: 7.5,
+  stiffness: 6
+};
+
+const MAX_DELTA_TIME = 0.1;
+
+/**
+ * Top-down map view: looks down on the target from high above with north (+Z)
+ * at the top, and cuts the world away above a fixed height with a clip plane
+ * so rooms can be seen into through their ceilings.
+ */
+export class OverheadCamera {
+  private scene: Scene;
+  private camera: TargetCamera;
+  private options: OverheadCameraOptions;
+  private zoomHeight: number;
+  private pivot: Vector3 = Vector3.Zero();
+  private pivotVelocity = [{ value: 0 }, { value: 0 }, { value: 0 }];
+  private needsSnap: boolean = true;
+  private clipping: boolean = false;
+
+  constructor(scene: Scene, camera: TargetCamera, options: Partial<OverheadCameraOptions> = {}) {
+    this.scene = scene;
+    this.camera = camera;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.zoomHeight = this.options.height;
+  }
+
+  get height(): number {
+    return this.zoomHeight;
+  }
+
+  // Multiplies the height, e.g. from the scroll wheel or a pinch
+  zoom(factor: number): void {
+    this.zoomHeight = Scalar.Clamp(this.zoomHeight * factor, this.options.minHeight, this.options.maxHeight);
+  }
+
+  snap(): void {
+    this.needsSnap = true;
+  }
+
+  // Removes the cutaway, for switching to another view
+  release(): void {
+    if (this.clipping) {
+      this.scene.clipPlane = null;
+      this.clipping = false;
+    }
+    this.needsSnap = true;
+  }
+
+  // `floor` is the height of Bean's feet, which the cutaway follows
+  update(target: Vector3, floor: number, deltaTime: number): void {
+    const dt = Math.min(deltaTime, MAX_DELTA_TIME);
+    if (this.needsSnap || dt <= 0) {
+      this.pivot.copyFrom(target);
+      this.pivotVelocity.forEach(velocity => { velocity.value = 0; });
+      this.needsSnap = false;
+    } else {
+      this.pivot.x = springDamp(this.pivot.x, target.x, this.pivotVelocity[0], this.options.stiffness, dt);
+      this.pivot.y = springDamp(this.pivot.y, target.y, this.pivotVelocity[1], this.options.stiffness, dt);
+      this.pivot.z = springDamp(this.pivot.z, target.z, this.pivotVelocity[2], this.options.stiffness, dt);
+    }
+
+    const { tilt } = this.options;
+    this.camera.position.set(
+      this.pivot.x,
+      this.pivot.y + Math.cos(tilt) * this.zoomHeight,
+      this.pivot.z - Math.sin(tilt) * this.zoomHeight
+    );
+    this.camera.setTarget(this.pivot.clone());
+
+    // Babylon discards whatever is on the positive side of the clip plane
+    this.scene.clipPlane = new Plane(0, 1, 0, -(floor + this.options.cutaway));
+    this.clipping = true;
+  }
+}
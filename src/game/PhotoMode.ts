@@ -0,0 +1,224 @@
+import {
+  Scene,
+  UniversalCamera,
+  Vector3,
+  Axis,
+  Scalar,
+  Tools,
+  Observable,
+  ColorCurves,
+  DefaultRenderingPipeline,
+  DepthOfFieldEffectBlurLevel
+} from '@babylonjs/core';
+
+export type PhotoFilter = 'none' | 'mono' | 'sepia' | 'warm' | 'cool' | 'vivid';
+export const PHOTO_FILTERS: PhotoFilter[] = ['none', 'mono', 'sepia', 'warm', 'cool', 'vivid'];
+
+interface FilterLook {
+  saturation: number;  // Color curve values, -100 to 100
+  hue: number;         // Tint hue (degrees)
+  density: number;     // Tint strength, 0 for none
+  contrast: number;
+  vignette: boolean;
+}
+
+const FILTER_LOOKS: Record<PhotoFilter, FilterLook> = {
+  none: { saturation: 0, hue: 30, density: 0, contrast: 1, vignette: false },
+  mono: { saturation: -100, hue: 30, density: 0, contrast: 1.2, vignette: true },
+  sepia: { saturation: -80, hue: 35, density: 45, contrast: 1.05, vignette: true },
+  warm: { saturation: 10, hue: 30, density: 20, contrast: 1.05, vignette: false },
+  cool: { saturation: 0, hue: 210, density: 20, contrast: 1.05, vignette: false },
+  vivid: { saturation: 45, hue: 30, density: 0, contrast: 1.25, vignette: false }
+};
+
+export interface PhotoModeState {
+  active: boolean;
+  filter: PhotoFilter;
+  depthOfField: boolean;
+  uiHidden: boolean;
+  capturing: boolean;  // A photo is being taken; overlays hide so they stay out of it
+}
+
+const FLY_SPEED = 4;          // m/s, tripled while running
+const FLY_RANGE = 15;         // How far the camera can stray from where photo mode started (m)
+const MAX_PITCH = 1.5;        // Up and down look limits (rad)
+const MIN_FOV = 0.2;          // Zoom limits (rad)
+const MAX_FOV = 1.4;
+const FOCUS_RANGE = 100;      // Furthest the autofocus looks for something (m)
+const FOCUS_SPEED = 6;        // How fast focus follows what's in the middle of the frame (blend per second)
+const ALL_LAYERS = 0xFFFFFFFF;
+const HEAD_CLEARANCE = 0.5;   // How far the camera flies before Bean is shown, so a first-person start isn't inside Bean's head (m)
+
+/**
+ * Pauses play for taking pictures: a free-fly camera that stays near where it
+ * started, depth of field focused on whatever is in the middle of the frame,
+ * color filters, and PNG capture straight from the canvas. Game stops updating
+ * Bean and the world while it's active; this only owns the camera and effects.
+ */
+export class PhotoMode {
+  private scene: Scene;
+  private camera: UniversalCamera;
+  private pipeline?: DefaultRenderingPipeline;
+  private origin: Vector3 = Vector3.Zero();
+  private saved?: { position: Vector3; rotation: Vector3; fov: number; layerMask: number };
+  private focus: number = 10;  // Focus distance (m)
+  private current: PhotoModeState = { active: false, filter: 'none', depthOfField: true, uiHidden: false, capturing: false };
+
+  readonly onChangedObservable = new Observable<PhotoModeState>();
+
+  constructor(scene: Scene, camera: UniversalCamera) {
+    this.scene = scene;
+    this.camera = camera;
+  }
+
+  get isActive(): boolean {
+    return this.current.active;
+  }
+
+  get state(): PhotoModeState {
+    return { ...this.current };
+  }
+
+  enter(): void {
+    if (this.current.active) return;
+    const camera = this.camera;
+    this.saved = {
+      position: camera.position.clone(),
+      rotation: camera.rotation.clone(),
+      fov: camera.fov,
+      layerMask: camera.layerMask
+    };
+    this.origin.copyFrom(camera.position);
+    this.updateLayers();
+    this.scene.animationsEnabled = false;
+
+    this.pipeline = new DefaultRenderingPipeline('photoMode', false, this.scene, [camera]);
+    this.pipeline.imageProcessingEnabled = true;
+    this.pipeline.imageProcessing.colorCurvesEnabled = true;
+    this.pipeline.imageProcessing.colorCurves = new ColorCurves();
+    this.pipeline.depthOfFieldBlurLevel = DepthOfFieldEffectBlurLevel.Medium;
+    this.pipeline.depthOfField.fStop = 2;
+
+    this.setState({ active: true, uiHidden: false, capturing: false });
+    this.applyEffects();
+  }
+
+  exit(): void {
+    if (!this.current.active) return;
+    this.pipeline?.dispose();
+    this.pipeline = undefined;
+    if (this.saved) {
+      this.camera.position.copyFrom(this.saved.position);
+      this.camera.rotation.copyFrom(this.saved.rotation);
+      this.camera.fov = this.saved.fov;
+      this.camera.layerMask = this.saved.layerMask;
+      this.saved = undefined;
+    }
+    this.scene.animationsEnabled = true;
+    this.setState({ active: false, uiHidden: false, capturing: false });
+  }
+
+  // Moves along the view direction; rise is straight up or down
+  fly(forward: number, strafe: number, rise: number, fast: boolean, deltaTime: number): void {
+    if (!this.current.active) return;
+    const speed = FLY_SPEED * (fast ? 3 : 1) * deltaTime;
+    const move = this.camera.getDirection(Axis.Z).scale(forward)
+      .addInPlace(this.camera.getDirection(Axis.X).scale(strafe))
+      .addInPlaceFromFloats(0, rise, 0);
+    if (move.lengthSquared() > 1) move.normalize();
+    this.camera.position.addInPlace(move.scaleInPlace(speed));
+
+    const offset = this.camera.position.subtract(this.origin);
+    if (offset.length() > FLY_RANGE) {
+      this.camera.position.copyFrom(this.origin).addInPlace(offset.normalize().scaleInPlace(FLY_RANGE));
+    }
+    this.updateLayers();
+  }
+
+  look(yaw: number, pitch: number): void {
+    if (!this.current.active) return;
+    this.camera.rotation.y += yaw;
+    this.camera.rotation.x = Scalar.Clamp(this.camera.rotation.x + pitch, -MAX_PITCH, MAX_PITCH);
+  }
+
+  // Narrows or widens the field of view, e.g. from the scroll wheel
+  zoom(factor: number): void {
+    if (!this.current.active) return;
+    this.camera.fov = Scalar.Clamp(this.camera.fov * factor, MIN_FOV, MAX_FOV);
+  }
+
+  cycleFilter(): void {
+    const next = PHOTO_FILTERS[(PHOTO_FILTERS.indexOf(this.current.filter) + 1) % PHOTO_FILTERS.length];
+    this.setState({ filter: next });
+    this.applyEffects();
+  }
+
+  toggleDepthOfField(): void {
+    this.setState({ depthOfField: !this.current.depthOfField });
+    this.applyEffects();
+  }
+
+  toggleUI(): void {
+    this.setState({ uiHidden: !this.current.uiHidden });
+  }
+
+  // Autofocus on whatever is in the middle of the frame
+  update(deltaTime: number): void {
+    if (!this.current.active || !this.pipeline || !this.current.depthOfField) return;
+    const hit = this.scene.pickWithRay(this.camera.getForwardRay(FOCUS_RANGE), mesh =>
+      mesh.isEnabled() && mesh.isVisible && mesh.isPickable
+    );
+    const target = hit?.hit ? hit.distance : FOCUS_RANGE;
+    this.focus += (target - this.focus) * Math.min(1, deltaTime * FOCUS_SPEED);
+    this.pipeline.depthOfField.focusDistance = this.focus * 1000;  // Millimeters
+  }
+
+  // Saves the next frame as a PNG. The engine is created with preserveDrawingBuffer,
+  // so the canvas still holds the finished frame once it has been drawn.
+  takePhoto(): void {
+    const engine = this.scene.getEngine();
+    const canvas = engine.getRenderingCanvas();
+    if (!this.current.active || this.current.capturing || !canvas) return;
+
+    this.setState({ capturing: true });
+    engine.onEndFrameObservable.addOnce(() => {
+      canvas.toBlob(blob => {
+        if (blob) {
+          const name = `bean-${new Date().toISOString().replace(/[:.]/g, '-')}.png`;
+          Tools.Download(blob, name);
+          console.log(`Saved photo ${name}`);
+        } else {
+          console.warn('Could not capture the photo');
+        }
+        this.setState({ capturing: false });
+      }, 'image/png');
+    });
+  }
+
+  // Bean's model is hidden from the first-person camera, but belongs in photos once the
+  // camera is out of Bean's head; until then the view's own mask keeps the head out of shot
+  private updateLayers(): void {
+    if (!this.saved) return;
+    const clear = Vector3.Distance(this.camera.position, this.origin) > HEAD_CLEARANCE;
+    this.camera.layerMask = clear ? ALL_LAYERS : this.saved.layerMask;
+  }
+
+  private applyEffects(): void {
+    if (!this.pipeline) return;
+    const look = FILTER_LOOKS[this.current.filter];
+    const curves = this.pipeline.imageProcessing.colorCurves;
+    if (curves) {
+      curves.globalSaturation = look.saturation;
+      curves.globalHue = look.hue;
+      curves.globalDensity = look.density;
+    }
+    this.pipeline.imageProcessing.contrast = look.contrast;
+    this.pipeline.imageProcessing.vignetteEnabled = look.vignette;
+    this.pipeline.depthOfFieldEnabled = this.current.depthOfField;
+  }
+
+  private setState(change: Partial<PhotoModeState>): void {
+    this.current = { ...this.current, ...change };
+    this.onChangedObservable.notifyObservers(this.state);
+  }
+}
@@ -0,0 +1,160 @@
+import {
+  Scene,
+  DirectionalLight,
+  AbstractMesh,
+  Node,
+  ShadowGenerator,
+  CascadedShadowGenerator,
+  Observer,
+  Nullable
+} from '@babylonjs/core';
+
+export interface ShadowServiceOptions {
+  mapSize: number;            // Shadow map resolution (px)
+  darkness: number;           // 0 for black shadows, 1 for none
+  maxCasterVertices: number;  // Meshes bigger than this don't cast, unless essential
+  vertexBudget: number;       // Most vertices drawn into the shadow map across all casters
+  cascadeDistance: number;    // How far cascaded shadows reach from the camera (m)
+}
+
+const DEFAULT_OPTIONS: ShadowServiceOptions = {
+  mapSize: 2048,
+  darkness: 0.3,
+  maxCasterVertices: 10000,
+  vertexBudget: 300000,
+  cascadeDistance: 150
+};
+
+const CASCADES = 4;
+
+// One service per scene, so worlds and Bean can find it from the scene they're built in
+const services = new WeakMap<Scene, ShadowService>();
+
+/**
+ * Owns the sun's shadow generator. Worlds and Bean register casters and
+ * receivers here; casters drop out when their mesh is disposed, so a world's
+ * meshes leave the shadow map with it. Casters are held to a vertex budget,
+ * and large worlds can switch to cascaded shadow maps.
+ */
+export class ShadowService {
+  private scene: Scene;
+  private light: DirectionalLight;
+  private options: ShadowServiceOptions;
+  private shadowGenerator: ShadowGenerator;
+  private casters: Map<AbstractMesh, { vertices: number; observer: Nullable<Observer<Node>> }> = new Map();
+  private vertexCount: number = 0;
+  private isCascaded: boolean = false;
+
+  static get(scene: Scene): ShadowService | undefined {
+    return services.get(scene);
+  }
+
+  constructor(scene: Scene, light: DirectionalLight, options: Partial<ShadowServiceOptions> = {}) {
+    this.scene = scene;
+    this.light = light;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.shadowGenerator = this.createGenerator(false);
+    services.set(scene, this);
+  }
+
+  get generator(): ShadowGenerator {
+    return this.shadowGenerator;
+  }
+
+  get cascaded(): boolean {
+    return this.isCascaded;
+  }
+
+  // Vertices currently drawn into the shadow map
+  get vertices(): number {
+    return this.vertexCount;
+  }
+
+  // Returns false when the mesh is over the per-mesh limit or the budget is spent.
+  // Essential casters (Bean) always get in.
+  addCaster(mesh: AbstractMesh, essential: boolean = false): boolean {
+    if (this.casters.has(mesh)) return true;
+    const vertices = mesh.getTotalVertices();
+    if (!essential && (vertices > this.options.maxCasterVertices ||
+        this.vertexCount + vertices > this.options.vertexBudget)) {
+      return false;
+    }
+
+    const observer = mesh.onDisposeObservable.addOnce(() => this.removeCaster(mesh));
+    this.casters.set(mesh, { vertices, observer });
+    this.vertexCount += vertices;
+    this.shadowGenerator.addShadowCaster(mesh, false);
+    return true;
+  }
+
+  removeCaster(mesh: AbstractMesh): void {
+    const caster = this.casters.get(mesh);
+    if (!caster) return;
+    mesh.onDisposeObservable.remove(caster.observer);
+    this.casters.delete(mesh);
+    this.vertexCount -= caster.vertices;
+    this.shadowGenerator.removeShadowCaster(mesh, false);
+  }
+
+  addReceiver(mesh: AbstractMesh): void {
+    mesh.receiveShadows = true;
+  }
+
+  hasCaster(mesh: AbstractMesh): boolean {
+    return this.casters.has(mesh);
+  }
+
+  // Cascades keep shadows sharp near the camera across big worlds; needs WebGL 2
+  setCascaded(cascaded: boolean): void {
+    const supported = cascaded && CascadedShadowGenerator.IsSupported;
+    if (cascaded && !supported) {
+      console.warn('Cascaded shadows are not supported here, using a single shadow map');
+    }
+    if (supported === this.isCascaded) return;
+
+    this.shadowGenerator.dispose();
+    this.shadowGenerator = this.createGenerator(supported);
+    this.casters.forEach((_caster, mesh) => this.shadowGenerator.addShadowCaster(mesh, false));
+  }
+
+  setMapSize(size: number): void {
+    this.options.mapSize = size;
+    if (this.shadowGenerator.mapSize !== size) {
+      this.shadowGenerator.mapSize = size;
+    }
+  }
+
+  setDarkness(darkness: number): void {
+    this.options.darkness = darkness;
+    this.shadowGenerator.setDarkness(darkness);
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.light.shadowEnabled = enabled;
+  }
+
+  dispose(): void {
+    Array.from(this.casters.keys()).forEach(mesh => this.removeCaster(mesh));
+    this.shadowGenerator.dispose();
+    services.delete(this.scene);
+  }
+
+  private createGenerator(cascaded: boolean): ShadowGenerator {
+    this.isCascaded = cascaded;
+    let generator: ShadowGenerator;
+    if (cascaded) {
+      const cascades = new CascadedShadowGenerator(this.options.mapSize, this.light);
+      cascades.numCascades = CASCADES;
+      cascades.shadowMaxZ = this.options.cascadeDistance;
+      cascades.stabilizeCascades = true;
+      cascades.usePercentageCloserFiltering = true;
+      generator = cascades;
+    } else {
+      generator = new ShadowGenerator(this.options.mapSize, this.light);
+      generator.useBlurExponentialShadowMap = true;
+      generator.blurScale = 2;
+    }
+    generator.setDarkness(this.options.darkness);
+    return generator;
+  }
+}
@@ -0,0 +1,230 @@
+import {
+  Scene,
+  DirectionalLight,
+  HemisphericLight,
+  Color3,
+  Color4,
+  Vector3,
+  Observable
+} from '@babylonjs/core';
+
+// Lighting at one time of day; the clock blends between neighbouring keyframes
+export interface SkyKeyframe {
+  hour: number;            // 0-24
+  sky: Color3;             // Background and fog color
+  sunColor: Color3;        // The moon's color at night
+  sunIntensity: number;
+  ambientIntensity: number;
+  ambientGround: Color3;   // Hemispheric light from below
+}
+
+export type SkyPalette = SkyKeyframe[];
+
+// Plain daylight, also the fixed lighting for worlds that opt out of the clock
+export const NOON: SkyKeyframe = {
+  hour: 12,
+  sky: new Color3(0.53, 0.81, 0.92),
+  sunColor: new Color3(1, 1, 1),
+  sunIntensity: 0.8,
+  ambientIntensity: 0.6,
+  ambientGround: new Color3(0.33, 0.33, 0.33)
+};
+const NOON_SUN_DIRECTION = new Vector3(-1, -2, -1);
+
+const NIGHT: Omit<SkyKeyframe, 'hour'> = {
+  sky: new Color3(0.02, 0.03, 0.08),
+  sunColor: new Color3(0.5, 0.6, 0.9),
+  sunIntensity: 0.15,
+  ambientIntensity: 0.15,
+  ambientGround: new Color3(0.04, 0.04, 0.08)
+};
+
+export const DEFAULT_PALETTE: SkyPalette = [
+  { hour: 5, ...NIGHT },
+  {
+    hour: 6.5,
+    sky: new Color3(0.85, 0.55, 0.4),
+    sunColor: new Color3(1, 0.6, 0.35),
+    sunIntensity: 0.4,
+    ambientIntensity: 0.35,
+    ambientGround: new Color3(0.2, 0.15, 0.15)
+  },
+  {
+    hour: 8,
+    sky: new Color3(0.5, 0.75, 0.9),
+    sunColor: new Color3(1, 0.9, 0.8),
+    sunIntensity: 0.7,
+    ambientIntensity: 0.5,
+    ambientGround: new Color3(0.3, 0.3, 0.3)
+  },
+  NOON,
+  {
+    hour: 17,
+    sky: new Color3(0.6, 0.75, 0.85),
+    sunColor: new Color3(1, 0.85, 0.7),
+    sunIntensity: 0.7,
+    ambientIntensity: 0.55,
+    ambientGround: new Color3(0.3, 0.28, 0.26)
+  },
+  {
+    hour: 19,
+    sky: new Color3(0.9, 0.45, 0.3),
+    sunColor: new Color3(1, 0.5, 0.3),
+    sunIntensity: 0.35,
+    ambientIntensity: 0.3,
+    ambientGround: new Color3(0.2, 0.12, 0.12)
+  },
+  { hour: 20.5, ...NIGHT }
+];
+
+export interface TimeOfDayOptions {
+  enabled: boolean;       // Worlds with lighting baked in (e.g. scans) opt out and keep fixed daylight
+  daylight: SkyKeyframe;  // The fixed lighting used while disabled
+  startHour: number;      // Clock time when the world loads
+  lampsOn: number;        // Hour indoor lamps switch on in the evening
+  lampsOff: number;       // and off in the morning
+  palette: SkyPalette;
+}
+
+export const DEFAULT_TIME_OF_DAY: TimeOfDayOptions = {
+  enabled: true,
+  daylight: NOON,
+  startHour: 10,
+  lampsOn: 19.5,
+  lampsOff: 6.5,
+  palette: DEFAULT_PALETTE
+};
+
+const DEFAULT_DAY_LENGTH = 20 * 60;  // Real seconds per game day
+const SUN_TILT = -0.4;               // The sun's path leans to the south (-Z)
+const MIN_ELEVATION = 0.2;           // Keeps low suns from casting endless shadows
+const SUN_DISTANCE = 25;             // How far back the light sits for its shadow map (m)
+
+// Blends the palette at an hour, wrapping round midnight
+export function sampleSky(palette: SkyPalette, hour: number): SkyKeyframe {
+  const h = ((hour % 24) + 24) % 24;
+  const next = palette.findIndex(key => key.hour > h);
+  const after = palette[next >= 0 ? next : 0];
+  const before = palette[next > 0 ? next - 1 : palette.length - 1];
+
+  const span = ((after.hour - before.hour) + 24) % 24 || 24;
+  const t = (((h - before.hour) + 24) % 24) / span;
+  return {
+    hour: h,
+    sky: Color3.Lerp(before.sky, after.sky, t),
+    sunColor: Color3.Lerp(before.sunColor, after.sunColor, t),
+    sunIntensity: before.sunIntensity + (after.sunIntensity - before.sunIntensity) * t,
+    ambientIntensity: before.ambientIntensity + (after.ambientIntensity - before.ambientIntensity) * t,
+    ambientGround: Color3.Lerp(before.ambientGround, after.ambientGround, t)
+  };
+}
+
+// Which way the light shines: the sun rises in the east (+X) at 6 and sets in the
+// west at 18; at night the moon takes over from the opposite side of the sky
+export function sunDirection(hour: number): Vector3 {
+  const angle = (hour - 6) / 12 * Math.PI;
+  let toSun = new Vector3(Math.cos(angle), Math.sin(angle), SUN_TILT);
+  if (toSun.y < 0) toSun = toSun.negate();
+  toSun.y = Math.max(toSun.y, MIN_ELEVATION);
+  return toSun.normalize().negate();
+}
+
+/**
+ * Game clock that moves the sun, colors the sky and fog, and says when indoor
+ * lamps should be on. Runs a full day in dayLength real seconds, or follows the
+ * player's local time. Each world can set its own palette or opt out.
+ */
+export class TimeOfDay {
+  private scene: Scene;
+  private sun: DirectionalLight;
+  private ambient: HemisphericLight;
+  private options: TimeOfDayOptions = DEFAULT_TIME_OF_DAY;
+  private clock: number = DEFAULT_TIME_OF_DAY.startHour;
+  private dayLength: number = DEFAULT_DAY_LENGTH;
+  private realTime: boolean = false;
+  private lamps: boolean = false;
+
+  readonly onLampsChangedObservable = new Observable<boolean>();
+
+  constructor(scene: Scene, sun: DirectionalLight, ambient: HemisphericLight) {
+    this.scene = scene;
+    this.sun = sun;
+    this.ambient = ambient;
+    this.apply();
+  }
+
+  // Hours since midnight, 0-24
+  get hour(): number {
+    return this.clock;
+  }
+
+  get lampsOn(): boolean {
+    return this.lamps;
+  }
+
+  get isEnabled(): boolean {
+    return this.options.enabled;
+  }
+
+  // Called per world; anything left out uses the defaults
+  configure(options: Partial<TimeOfDayOptions> = {}): void {
+    const palette = [...(options.palette ?? DEFAULT_PALETTE)].sort((a, b) => a.hour - b.hour);
+    this.options = { ...DEFAULT_TIME_OF_DAY, ...options, palette };
+    this.clock = this.realTime ? localHour() : this.options.startHour;
+    this.apply();
+  }
+
+  setHour(hour: number): void {
+    this.clock = ((hour % 24) + 24) % 24;
+    this.apply();
+  }
+
+  // Real seconds for a whole game day
+  setDayLength(seconds: number): void {
+    this.dayLength = Math.max(1, seconds);
+  }
+
+  // Follow the clock on the player's computer instead of running at dayLength
+  setRealTime(enabled: boolean): void {
+    this.realTime = enabled;
+    if (enabled) this.setHour(localHour());
+  }
+
+  update(deltaTime: number): void {
+    if (!this.options.enabled) return;
+    this.clock = this.realTime
+      ? localHour()
+      : (this.clock + deltaTime * 24 / this.dayLength) % 24;
+    this.apply();
+  }
+
+  private apply(): void {
+    const { enabled, daylight, palette, lampsOn, lampsOff } = this.options;
+    const sky = enabled ? sampleSky(palette, this.clock) : daylight;
+    const direction = enabled ? sunDirection(this.clock) : NOON_SUN_DIRECTION.normalizeToNew();
+
+    this.sun.direction = direction;
+    this.sun.position = direction.scale(-SUN_DISTANCE);
+    this.sun.diffuse.copyFrom(sky.sunColor);
+    this.sun.specular.copyFrom(sky.sunColor);
+    this.sun.intensity = sky.sunIntensity;
+    this.ambient.intensity = sky.ambientIntensity;
+    this.ambient.groundColor.copyFrom(sky.ambientGround);
+    this.scene.clearColor = Color4.FromColor3(sky.sky, 1);
+    this.scene.fogColor = sky.sky.clone();
+
+    // The lamp hours wrap round midnight
+    const night = enabled && (lampsOn > lampsOff
+      ? this.clock >= lampsOn || this.clock < lampsOff
+      : this.clock >= lampsOn && this.clock < lampsOff);
+    if (night !== this.lamps) {
+      this.lamps = night;
+      this.onLampsChangedObservable.notifyObservers(night);
+    }
+  }
+}
+
+function localHour(): number {
+  const now = new Date();
+  return now.getHours() + now.getMinutes() / 60 + now.getSeconds() / 3600;
+}
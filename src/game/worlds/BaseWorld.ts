@@ -1,9 +1,30 @@
-import { Scene, Mesh, TransformNode } from '@babylonjs/core';
+import { Scene, Mesh, TransformNode, Vector3 } from '@babylonjs/core';
+import type { EnvironmentProfile } from '../EnvironmentManager';
+import { ShadowService } from '../ShadowService';
+
+export interface SpawnPoint {
+  position: Vector3;  // Floor-level point Bean stands on
+  rotation: number;   // Yaw in radians
+}
+
+export interface LoadProgress {
+  fraction: number;  // 0-1, or -1 while the total isn't known
+  message: string;
+}
+
+export interface WorldLoadContext {
+  signal?: AbortSignal;  // Aborted when the player cancels; worlds stop at their next await
+  onProgress?: (progress: LoadProgress) => void;
+}
 
 export abstract class BaseWorld {
   protected scene: Scene;
   protected roomGroup: TransformNode;
   protected floorMeshes: Mesh[] = [];
+  protected spawnPoints: Map<string, SpawnPoint> = new Map();
+  protected cameraPoints: Vector3[] = [];  // Where the cinematic camera films from
+  protected environment: Partial<EnvironmentProfile> = {};  // Sky, fog and lighting; the rest are defaults
+  protected warnings: string[] = [];  // Problems that didn't stop the world loading, shown to the player
   protected isLoaded: boolean = false;
 
   constructor(scene: Scene) {
@@ -11,26 +32,66 @@ export abstract class BaseWorld {
     this.roomGroup = new TransformNode('world', scene);
   }
 
-  abstract init(): Promise<void>;
+  abstract init(context?: WorldLoadContext): Promise<void>;
+
+  getLoadWarnings(): string[] {
+    return this.warnings;
+  }
+
+  // Waits for a frame to be drawn, so the loading screen shows progress between chunks of a long load.
+  // With no render loop running (headless tests) there's nothing to draw, so it only yields.
+  protected nextFrame(): Promise<void> {
+    return new Promise(resolve => {
+      if (this.scene.getEngine().activeRenderLoops.length === 0) {
+        setTimeout(resolve, 0);
+        return;
+      }
+      this.scene.onAfterRenderObservable.addOnce(() => resolve());
+    });
+  }
   
   getFloorMeshes(): Mesh[] {
     return this.floorMeshes;
   }
 
+  getSpawnPoint(name: string = 'default'): SpawnPoint {
+    return this.spawnPoints.get(name) ??
+      this.spawnPoints.values().next().value ??
+      { position: Vector3.Zero(), rotation: 0 };
+  }
+
+  getEnvironment(): Partial<EnvironmentProfile> {
+    return this.environment;
+  }
+
+  getCameraPoints(): Vector3[] {
+    return this.cameraPoints;
+  }
+
   update(_deltaTime: number, _elapsedTime: number): void {
     // Override in subclasses for animated elements
   }
 
+  setLampsOn(_on: boolean): void {
+    // Override in subclasses with indoor lamps, switched by the time of day
+  }
+
   dispose(): void {
     this.roomGroup.dispose();
     this.floorMeshes = [];
+    this.spawnPoints.clear();
+    this.cameraPoints = [];
+    this.warnings = [];
     this.isLoaded = false;
   }
 
-  protected addToShadowMap(mesh: Mesh): void {
-    const shadowGenerators = (this.scene as any).shadowGenerators;
-    if (shadowGenerators && shadowGenerators.length > 0) {
-      shadowGenerators[0].addShadowCaster(mesh);
-    }
+  // Casters leave the shadow map by themselves when the world's meshes are disposed;
+  // returns false when the shadow service's vertex budget leaves the mesh out
+  protected addToShadowMap(mesh: Mesh): boolean {
+    return ShadowService.get(this.scene)?.addCaster(mesh) ?? false;
+  }
+
+  protected receiveShadows(mesh: Mesh): void {
+    ShadowService.get(this.scene)?.addReceiver(mesh);
   }
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+import {
+  Scene,
+  TransformNode,
+  Mesh,
+  MeshBuilder,
+  Material,
+  Vector3,
+  Matrix,
+  Scalar
+} from '@babylonjs/core';
+import { makeInteractable, Interactable } from '../../interaction/Interactable';
+import { makeNoiseListener } from '../../interaction/NoiseEvents';
+
+// Seconds awake before dozing off again
+const AWAKE_DURATION = 8;
+// How fast the cat sits up or curls back down (pose blend per second)
+const POSE_SPEED = 3;
+// How fast the head turns towards a noise (rad/s)
+const TURN_SPEED = 4;
+
+const ASLEEP_DESCRIPTION = 'Fast asleep and smells like warm blankets';
+const AWAKE_DESCRIPTION = 'Wide awake and not impressed';
+
+/**
+ * A cat curled up asleep that wakes when it hears a loud enough noise (see
+ * NoiseEvents), sits up and stares at whatever woke it, then goes back to sleep.
+ */
+export class Cat {
+  readonly root: TransformNode;
+  readonly meshes: Mesh[] = [];
+  private body: Mesh;
+  private head: TransformNode;
+  private interactable: Interactable;
+  private awakeTime: number = 0;
+  private wakefulness: number = 0;  // 0 curled up asleep, 1 sitting up
+  private headYaw: number = 0;
+  private targetHeadYaw: number = 0;
+  private elapsedTime: number = 0;
+
+  constructor(scene: Scene, name: string, material: Material | null, hearing: number) {
+    this.root = new TransformNode(name, scene);
+
+    this.body = MeshBuilder.CreateSphere(`${name}Body`, { diameter: 0.6, segments: 12 }, scene);
+    this.body.scaling = new Vector3(0.8, 0.5, 1.2);
+    this.body.parent = this.root;
+    this.meshes.push(this.body);
+
+    // The head pivots where it meets the body so it can nod down and turn
+    this.head = new TransformNode(`${name}Neck`, scene);
+    this.head.parent = this.root;
+    this.head.position = new Vector3(0, 0.15, 0.3);
+
+    const skull = MeshBuilder.CreateSphere(`${name}Head`, { diameter: 0.32, segments: 12 }, scene);
+    skull.position = new Vector3(0, 0.05, 0.1);
+    skull.parent = this.head;
+    this.meshes.push(skull);
+
+    [-1, 1].forEach(side => {
+      const ear = MeshBuilder.CreateCylinder(`${name}Ear${side < 0 ? 'Left' : 'Right'}`, {
+        height: 0.12,
+        diameterTop: 0,
+        diameterBottom: 0.09,
+        tessellation: 4
+      }, scene);
+      ear.position = new Vector3(side * 0.08, 0.22, 0.08);
+      ear.rotation.z = -side * 0.3;
+      ear.parent = this.head;
+      this.meshes.push(ear);
+    });
+
+    const tail = MeshBuilder.CreateCylinder(`${name}Tail`, { height: 0.5, diameter: 0.07, tessellation: 8 }, scene);
+    tail.position = new Vector3(0.2, 0.05, -0.3);
+    tail.rotation = new Vector3(Math.PI / 2, 0.8, 0);
+    tail.parent = this.root;
+    this.meshes.push(tail);
+
+    this.meshes.forEach(mesh => {
+      mesh.material = material;
+      mesh.receiveShadows = true;
+    });
+
+    this.interactable = { kind: 'sniffable', label: 'cat', description: ASLEEP_DESCRIPTION };
+    makeInteractable(this.root, this.interactable);
+    makeNoiseListener(this.root, { threshold: hearing, onHear: (event) => this.wake(event.position) });
+    this.applyPose();
+  }
+
+  get isAwake(): boolean {
+    return this.awakeTime > 0;
+  }
+
+  // Sits up and looks towards the noise; more noise keeps it awake for longer
+  wake(from: Vector3): void {
+    this.awakeTime = AWAKE_DURATION;
+    this.interactable.description = AWAKE_DESCRIPTION;
+
+    const local = Vector3.TransformCoordinates(from, Matrix.Invert(this.root.computeWorldMatrix(true)));
+    // The head can only turn so far without the rest of the cat
+    this.targetHeadYaw = Scalar.Clamp(Math.atan2(local.x, local.z), -1.2, 1.2);
+  }
+
+  update(deltaTime: number): void {
+    this.elapsedTime += deltaTime;
+
+    if (this.isAwake) {
+      this.awakeTime = Math.max(0, this.awakeTime - deltaTime);
+      if (!this.isAwake) {
+        this.interactable.description = ASLEEP_DESCRIPTION;
+        this.targetHeadYaw = 0;
+      }
+    }
+
+    const targetWakefulness = this.isAwake ? 1 : 0;
+    const step = POSE_SPEED * deltaTime;
+    this.wakefulness = Math.abs(targetWakefulness - this.wakefulness) <= step
+      ? targetWakefulness
+      : this.wakefulness + Math.sign(targetWakefulness - this.wakefulness) * step;
+
+    const turn = TURN_SPEED * deltaTime;
+    const remaining = this.targetHeadYaw - this.headYaw;
+    this.headYaw = Math.abs(remaining) <= turn ? this.targetHeadYaw : this.headYaw + Math.sign(remaining) * turn;
+
+    this.applyPose();
+  }
+
+  private applyPose(): void {
+    const awake = this.wakefulness;
+    // Slow breathing while asleep
+    const breath = (1 - awake) * Math.sin(this.elapsedTime * 1.5) * 0.03;
+
+    this.body.scaling.y = Scalar.Lerp(0.5, 0.75, awake) + breath;
+    this.body.position.y = Scalar.Lerp(0.15, 0.22, awake);
+    this.head.position.y = Scalar.Lerp(0.12, 0.4, awake);
+    // Asleep, the head rests on the paws, tucked down and to one side
+    this.head.rotation.x = Scalar.Lerp(0.5, -0.1, awake);
+    this.head.rotation.y = Scalar.Lerp(-0.4, this.headYaw, awake);
+  }
+}
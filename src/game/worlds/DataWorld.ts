@@ -0,0 +1,287 @@
+import {
+  Scene,
+  MeshBuilder,
+  StandardMaterial,
+  Color3,
+  Vector3,
+  Mesh,
+  TransformNode,
+  Tools,
+  MirrorTexture,
+  Plane
+} from '@babylonjs/core';
+import { BaseWorld, WorldLoadContext } from './BaseWorld';
+import { Door } from './Door';
+import { Cat } from './Cat';
+import { Lamp } from './Lamp';
+import { makeInteractable, Interactable } from '../../interaction/Interactable';
+import { setSurface } from '../../audio/Surfaces';
+import { setCameraOcclusion } from '../CameraOcclusion';
+import {
+  SceneDescription,
+  ObjectDescription,
+  PrimitiveDescription,
+  DoorDescription,
+  CatDescription,
+  MirrorDescription,
+  LampDescription,
+  MaterialDescription,
+  parseSceneDescription
+} from './SceneDescription';
+
+const OBJECTS_PER_FRAME = 10;  // Objects built between loading screen updates
+
+/**
+ * World built from a declarative scene description (see SceneDescription.ts).
+ * Accepts either an already-imported JSON object or a URL to fetch at init time.
+ */
+export class DataWorld extends BaseWorld {
+  private source: string | object;
+  private materials: Map<string, StandardMaterial> = new Map();
+  private doors: Door[] = [];
+  private cats: Cat[] = [];
+  private mirrors: StandardMaterial[] = [];
+  private lamps: Lamp[] = [];
+  protected description?: SceneDescription;
+
+  constructor(scene: Scene, source: string | object) {
+    super(scene);
+    this.source = source;
+  }
+
+  async init({ signal, onProgress }: WorldLoadContext = {}): Promise<void> {
+    onProgress?.({ fraction: -1, message: 'Fetching world description' });
+    this.description = await this.loadDescription(signal);
+    signal?.throwIfAborted();
+    this.createMaterials(this.description.materials);
+
+    const { objects } = this.description;
+    for (let i = 0; i < objects.length; i++) {
+      // Each object takes far less than a frame, so the loading screen gets one now and then
+      if (i % OBJECTS_PER_FRAME === 0) {
+        onProgress?.({ fraction: i / objects.length, message: `Building ${objects[i].name}` });
+        await this.nextFrame();
+        signal?.throwIfAborted();
+      }
+      this.createObject(objects[i], this.roomGroup);
+    }
+    this.createSpawnPoints(this.description);
+    this.cameraPoints = (this.description.cameraPoints ?? []).map(point => Vector3.FromArray(point.position));
+    this.isLoaded = true;
+  }
+
+  private async loadDescription(signal?: AbortSignal): Promise<SceneDescription> {
+    if (typeof this.source !== 'string') {
+      return parseSceneDescription(this.source);
+    }
+
+    const response = await fetch(this.source, { signal });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch world description ${this.source}: ${response.status}`);
+    }
+    return parseSceneDescription(await response.json(), this.source);
+  }
+
+  private createMaterials(materials: Record<string, MaterialDescription>): void {
+    for (const [key, description] of Object.entries(materials)) {
+      const material = new StandardMaterial(`${key}Material`, this.scene);
+      material.diffuseColor = Color3.FromArray(description.diffuse);
+      material.specularColor = description.specular
+        ? Color3.FromArray(description.specular)
+        : new Color3(0.1, 0.1, 0.1);
+      if (description.emissive) {
+        material.emissiveColor = Color3.FromArray(description.emissive);
+      }
+      if (description.alpha !== undefined) {
+        material.alpha = description.alpha;
+      }
+      this.materials.set(key, material);
+    }
+  }
+
+  private createObject(description: ObjectDescription, parent: TransformNode): TransformNode {
+    let node: TransformNode;
+    if (description.type === 'group') {
+      node = new TransformNode(description.name, this.scene);
+    } else if (description.type === 'door') {
+      node = this.createDoor(description);
+    } else if (description.type === 'cat') {
+      node = this.createCat(description);
+    } else if (description.type === 'mirror') {
+      node = this.createMirror(description);
+    } else if (description.type === 'lamp') {
+      node = this.createLamp(description);
+    } else {
+      node = this.createPrimitive(description);
+    }
+
+    node.parent = parent;
+    if (description.position) node.position = Vector3.FromArray(description.position);
+    if (description.rotation) {
+      node.rotation = new Vector3(
+        Tools.ToRadians(description.rotation[0]),
+        Tools.ToRadians(description.rotation[1]),
+        Tools.ToRadians(description.rotation[2])
+      );
+    }
+    if (description.scaling) node.scaling = Vector3.FromArray(description.scaling);
+    if (description.interaction) makeInteractable(node, { ...description.interaction });
+    if (description.camera) setCameraOcclusion(node, description.camera);
+
+    description.children?.forEach(child => this.createObject(child, node));
+    return node;
+  }
+
+  private createPrimitive(description: PrimitiveDescription): Mesh {
+    let mesh: Mesh;
+    switch (description.type) {
+      case 'box':
+        mesh = MeshBuilder.CreateBox(description.name, {
+          width: description.size[0],
+          height: description.size[1],
+          depth: description.size[2]
+        }, this.scene);
+        break;
+      case 'cylinder':
+        mesh = MeshBuilder.CreateCylinder(description.name, {
+          height: description.height,
+          diameter: description.diameter,
+          diameterTop: description.diameterTop,
+          diameterBottom: description.diameterBottom,
+          tessellation: description.tessellation
+        }, this.scene);
+        break;
+      case 'sphere':
+        mesh = MeshBuilder.CreateSphere(description.name, {
+          diameter: description.diameter,
+          segments: description.segments
+        }, this.scene);
+        break;
+      case 'ground':
+        mesh = MeshBuilder.CreateGround(description.name, {
+          width: description.width,
+          height: description.depth
+        }, this.scene);
+        break;
+    }
+
+    if (description.material) {
+      mesh.material = this.materials.get(description.material) ?? null;
+    }
+    if (description.receiveShadows ?? true) {
+      this.receiveShadows(mesh);
+    }
+    // Floors always collide so Bean's controller can stand on them
+    mesh.checkCollisions = (description.collision ?? false) || (description.floor ?? false);
+    if (description.castShadows ?? true) {
+      this.addToShadowMap(mesh);
+    }
+    if (description.floor) {
+      this.floorMeshes.push(mesh);
+    }
+    if (description.surface) {
+      setSurface(mesh, description.surface);
+    }
+    return mesh;
+  }
+
+  // Doorway frame at floor level, with the leaf hanging off a hinge at one edge
+  private createDoor(description: DoorDescription): TransformNode {
+    const [width, height, thickness] = description.size;
+    const side = description.hinge ?? 'left';
+    const frame = new TransformNode(description.name, this.scene);
+
+    const hinge = new TransformNode(`${description.name}Hinge`, this.scene);
+    hinge.parent = frame;
+    hinge.position.x = side === 'left' ? -width / 2 : width / 2;
+
+    const leaf = MeshBuilder.CreateBox(`${description.name}Leaf`, { width, height, depth: thickness }, this.scene);
+    leaf.parent = hinge;
+    leaf.position = new Vector3(side === 'left' ? width / 2 : -width / 2, height / 2, 0);
+    if (description.material) {
+      leaf.material = this.materials.get(description.material) ?? null;
+    }
+    leaf.checkCollisions = true;
+    this.receiveShadows(leaf);
+    this.addToShadowMap(leaf);
+
+    const door = new Door(frame, hinge, leaf, side, Tools.ToRadians(description.openAngle ?? 100));
+    const interactable: Interactable = {
+      kind: 'openable',
+      label: description.label ?? 'door',
+      isOpen: false,
+      onInteract: (from) => interactable.isOpen ? door.open(from) : door.close()
+    };
+    makeInteractable(leaf, interactable);
+    this.doors.push(door);
+    return frame;
+  }
+
+  private createCat(description: CatDescription): TransformNode {
+    const material = description.material ? this.materials.get(description.material) ?? null : null;
+    const cat = new Cat(this.scene, description.name, material, description.hearing ?? 0.2);
+    cat.meshes.forEach(mesh => this.addToShadowMap(mesh));
+    this.cats.push(cat);
+    return cat.root;
+  }
+
+  private createMirror(description: MirrorDescription): Mesh {
+    const [width, height] = description.size;
+    const mesh = MeshBuilder.CreatePlane(description.name, { width, height }, this.scene);
+
+    const size = description.resolution ?? 512;
+    const reflection = new MirrorTexture(`${description.name}Reflection`, { width: size, height: size }, this.scene, true);
+    // A render list rather than layer masks, so Bean's model shows even while hidden from the camera
+    reflection.renderListPredicate = (candidate) => candidate !== mesh;
+    // The plane only moves with the world, so its reflection plane is worked out on the first render
+    reflection.onBeforeRenderObservable.addOnce(() => {
+      const normal = Vector3.TransformNormal(Vector3.Forward(), mesh.computeWorldMatrix(true)).normalize();
+      reflection.mirrorPlane = Plane.FromPositionAndNormal(mesh.getAbsolutePosition(), normal);
+    });
+
+    const material = new StandardMaterial(`${description.name}Material`, this.scene);
+    material.diffuseColor = new Color3(0.05, 0.05, 0.05);
+    material.specularColor = new Color3(0.5, 0.5, 0.5);
+    material.reflectionTexture = reflection;
+    mesh.material = material;
+    this.mirrors.push(material);
+    return mesh;
+  }
+
+  private createLamp(description: LampDescription): Mesh {
+    const color = description.color ? Color3.FromArray(description.color) : new Color3(1, 0.85, 0.6);
+    const lamp = new Lamp(this.scene, description.name, color, description.intensity ?? 1, description.range ?? 20);
+    this.lamps.push(lamp);
+    return lamp.bulb;
+  }
+
+  private createSpawnPoints(description: SceneDescription): void {
+    description.spawnPoints.forEach(spawn => {
+      this.spawnPoints.set(spawn.name, {
+        position: Vector3.FromArray(spawn.position),
+        rotation: Tools.ToRadians(spawn.rotation ?? 0)
+      });
+    });
+  }
+
+  update(deltaTime: number, _elapsedTime: number): void {
+    this.doors.forEach(door => door.update(deltaTime));
+    this.cats.forEach(cat => cat.update(deltaTime));
+  }
+
+  setLampsOn(on: boolean): void {
+    this.lamps.forEach(lamp => lamp.setOn(on));
+  }
+
+  dispose(): void {
+    super.dispose();
+    this.lamps.forEach(lamp => lamp.dispose());
+    this.lamps = [];
+    this.doors = [];
+    this.cats = [];
+    this.mirrors.forEach(material => material.dispose(false, true));
+    this.mirrors = [];
+    this.materials.forEach(material => material.dispose());
+    this.materials.clear();
+  }
+}
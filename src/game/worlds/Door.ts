@@ -0,0 +1,54 @@
+import { TransformNode, Mesh, Vector3, Matrix } from '@babylonjs/core';
+
+export type DoorHinge = 'left' | 'right';
+
+// How fast doors swing (rad/s)
+const SWING_SPEED = 3;
+
+/**
+ * A door leaf that swings on a hinge node inside a doorway frame node.
+ * It always opens away from whoever opens it, so Bean is never swatted by the
+ * door it just nosed open.
+ */
+export class Door {
+  readonly mesh: Mesh;
+  private frame: TransformNode;
+  private hinge: TransformNode;
+  private leafDirection: number;  // +1 when the leaf extends along the frame's +X from the hinge
+  private openAngle: number;
+  private targetAngle: number = 0;
+
+  constructor(frame: TransformNode, hinge: TransformNode, mesh: Mesh, side: DoorHinge, openAngle: number) {
+    this.frame = frame;
+    this.hinge = hinge;
+    this.mesh = mesh;
+    this.leafDirection = side === 'left' ? 1 : -1;
+    this.openAngle = openAngle;
+  }
+
+  get isOpen(): boolean {
+    return this.targetAngle !== 0;
+  }
+
+  open(from: Vector3): void {
+    // Which side of the doorway is the opener on?
+    const local = Vector3.TransformCoordinates(from, Matrix.Invert(this.frame.getWorldMatrix()));
+    const swingTowardZ = local.z > 0 ? -1 : 1;
+    // A positive yaw swings a leaf that extends along +X towards -Z
+    this.targetAngle = -swingTowardZ * this.leafDirection * this.openAngle;
+  }
+
+  close(): void {
+    this.targetAngle = 0;
+  }
+
+  update(deltaTime: number): void {
+    const remaining = this.targetAngle - this.hinge.rotation.y;
+    if (remaining === 0) return;
+
+    const step = SWING_SPEED * deltaTime;
+    this.hinge.rotation.y = Math.abs(remaining) <= step
+      ? this.targetAngle
+      : this.hinge.rotation.y + Math.sign(remaining) * step;
+  }
+}
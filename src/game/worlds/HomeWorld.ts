@@ -1,23 +1,46 @@
 import {
-  SceneLoader,
   Vector3,
+  Ray,
   Mesh,
   AbstractMesh,
   StandardMaterial,
-  Color3
+  Color3,
+  InstantiatedEntries
 } from '@babylonjs/core';
 import '@babylonjs/loaders/glTF';
-import { BaseWorld } from './BaseWorld';
+import { BaseWorld, LoadProgress, WorldLoadContext } from './BaseWorld';
+import { WorldRegistry } from './WorldRegistry';
+import { setSurface, tagSurfacesByName } from '../../audio/Surfaces';
+import { AssetManager, AssetProgress } from '../../assets/AssetManager';
+import type { EnvironmentProfile } from '../EnvironmentManager';
+
+const DOWNLOAD_SHARE = 0.8;    // Part of the progress bar the download fills
+const MESHES_PER_FRAME = 10;  // Scan meshes prepared between loading screen updates
+const MEGABYTE = 1024 * 1024;
+const SCAN_ASSET = 'homeScan';  // Id in public/assets/manifest.json
 
 export class HomeWorld extends BaseWorld {
-  async init(): Promise<void> {
+  // The scan's lighting is baked into its textures, so the sun stays put and shadows
+  // stay light; it's a whole street, so the fog starts further out
+  protected environment: Partial<EnvironmentProfile> = {
+    fog: { start: 40, end: 250 },
+    shadowDarkness: 0.6,
+    cascadedShadows: true,
+    timeOfDay: { enabled: false }
+  };
+  private scan?: InstantiatedEntries;  // This visit's copy of the cached scan
+
+  async init(context: WorldLoadContext = {}): Promise<void> {
     try {
       console.log('Loading High Street world from /assets/8_16_2025.glb...');
-      await this.loadGLTFModel();
+      await this.loadGLTFModel(context);
       this.setupFloorCollision();
+      this.setupSpawnPoint();
       this.isLoaded = true;
       console.log('High Street world loaded successfully');
     } catch (error) {
+      // A cancelled load goes back to the menu rather than into the fallback world
+      if (context.signal?.aborted) throw error;
       console.error('Failed to load High Street world:', error);
       // Try to create a basic floor as fallback
       this.createFallbackWorld();
@@ -31,8 +54,10 @@ export class HomeWorld extends BaseWorld {
     // Create a simple floor so the player can still walk around
     const ground = Mesh.CreateGround('fallbackGround', 50, 50, 2, this.scene);
     ground.position.y = 0;
-    ground.receiveShadows = true;
+    this.receiveShadows(ground);
+    ground.checkCollisions = true;
     ground.parent = this.roomGroup;
+    setSurface(ground, 'tile');
     this.floorMeshes.push(ground);
     
     // Add a simple material
@@ -40,31 +65,44 @@ export class HomeWorld extends BaseWorld {
     mat.diffuseColor = new Color3(0.5, 0.5, 0.5);
     ground.material = mat;
     
-    alert('Failed to load the photogrammetry model. Showing fallback environment.');
+    this.warnings.push('Failed to load the photogrammetry model. Showing fallback environment.');
   }
 
-  private async loadGLTFModel(): Promise<void> {
-    // Use absolute path for the asset
-    const result = await SceneLoader.ImportMeshAsync(
-      '',
-      '/assets/',
-      '8_16_2025_optimized.glb',
-      this.scene
-    );
+  private async loadGLTFModel({ signal, onProgress }: WorldLoadContext): Promise<void> {
+    // The scan is downloaded and parsed once, then copied into the scene each visit.
+    // Its materials and textures are shared with the cached copy, so they're left alone on dispose.
+    const assets = AssetManager.get(this.scene) ?? new AssetManager(this.scene);
+    const entries = await assets.instantiate(SCAN_ASSET, {
+      signal,
+      onProgress: progress => onProgress?.(downloadProgress(progress))
+    });
+    this.scan = entries;
+    const meshes = entries.rootNodes
+      .flatMap(node => [node, ...node.getChildMeshes(false)])
+      .filter((node): node is AbstractMesh => node instanceof AbstractMesh);
 
-    console.log('Loaded meshes:', result.meshes.length);
+    console.log('Loaded meshes:', meshes.length);
     
-    // Process loaded meshes
-    result.meshes.forEach((mesh) => {
+    // Process loaded meshes, giving the loading screen a frame now and then
+    for (let i = 0; i < meshes.length; i++) {
+      const mesh = meshes[i];
+      if (i % MESHES_PER_FRAME === 0) {
+        onProgress?.({
+          fraction: DOWNLOAD_SHARE + (1 - DOWNLOAD_SHARE) * i / meshes.length,
+          message: `Preparing meshes ${i + 1}/${meshes.length}`
+        });
+        await this.nextFrame();
+        if (signal?.aborted) {
+          this.disposeScan();
+          signal.throwIfAborted();
+        }
+      }
       if (mesh instanceof Mesh) {
         // Set up the mesh
         mesh.parent = this.roomGroup;
-        mesh.receiveShadows = true;
-        
-        // Add to shadow map if it's not too complex
-        if (mesh.getTotalVertices() < 10000) {
-          this.addToShadowMap(mesh);
-        }
+        this.receiveShadows(mesh);
+        // Dense scan chunks are left out by the shadow service's vertex budget
+        this.addToShadowMap(mesh);
         
         // Check if this mesh should be a floor (based on name or position)
         if (this.isFloorMesh(mesh)) {
@@ -80,8 +118,17 @@ export class HomeWorld extends BaseWorld {
         
         // Enable collisions
         mesh.checkCollisions = true;
+        
+        // Split dense scan meshes so the character controller only tests nearby triangles
+        if (mesh.getTotalVertices() > 20000) {
+          mesh.subdivide(Math.ceil(mesh.getTotalVertices() / 5000));
+          mesh.createOrUpdateSubmeshesOctree();
+        }
       }
-    });
+    }
+
+    // The scan has no surface tags, so guess from mesh names; it's mostly street
+    tagSurfacesByName(meshes, 'tile');
 
     // Scale the environment to 2x size and flip along X axis to correct mirroring
     const scaleFactor = 2; // Make environment 2x larger
@@ -91,6 +138,17 @@ export class HomeWorld extends BaseWorld {
     this.centerWorld();
   }
 
+  dispose(): void {
+    this.disposeScan();
+    super.dispose();
+  }
+
+  // Only the copy goes; the cached scan stays loaded for the next visit
+  private disposeScan(): void {
+    this.scan?.dispose();
+    this.scan = undefined;
+  }
+
   private isFloorMesh(mesh: AbstractMesh): boolean {
     // Heuristic: consider meshes with 'floor' in name or at low Y position as floors
     const name = mesh.name.toLowerCase();
@@ -122,10 +180,25 @@ export class HomeWorld extends BaseWorld {
       floorMesh.isVisible = false;
       floorMesh.checkCollisions = true;
       floorMesh.parent = this.roomGroup;
+      setSurface(floorMesh, 'tile');
       this.floorMeshes.push(floorMesh);
     }
   }
 
+  private setupSpawnPoint(): void {
+    // The scan is raised after centering, so find the walkable surface under the origin
+    this.roomGroup.computeWorldMatrix(true);
+    this.roomGroup.getChildMeshes().forEach(mesh => mesh.computeWorldMatrix(true));
+    
+    const ray = new Ray(new Vector3(0, 50, 0), Vector3.Down(), 100);
+    const pickInfo = this.scene.pickWithRay(ray, (mesh) => {
+      return mesh.checkCollisions && mesh.isDescendantOf(this.roomGroup);
+    });
+    
+    const floorY = pickInfo?.pickedPoint?.y ?? 0;
+    this.spawnPoints.set('default', { position: new Vector3(0, floorY, 0), rotation: 0 });
+  }
+
   private centerWorld(): void {
     // Calculate the bounding box of all meshes
     let minX = Infinity, minY = Infinity, minZ = Infinity;
@@ -152,4 +225,26 @@ export class HomeWorld extends BaseWorld {
     console.log(`World centered at: ${-centerX}, ${-minY}, ${-centerZ}`);
     console.log(`World size: ${maxX - minX} x ${maxY - minY} x ${maxZ - minZ}`);
   }
-}
\ No newline at end of file
+}
+
+// Downloading is most of the wait; splitting dense meshes takes the rest of the bar
+function downloadProgress({ loaded, total }: AssetProgress): LoadProgress {
+  const megabytes = (loaded / MEGABYTE).toFixed(1);
+  if (total <= 0) {
+    return { fraction: -1, message: `Downloading scan (${megabytes} MB)` };
+  }
+  return {
+    fraction: DOWNLOAD_SHARE * Math.min(1, loaded / total),
+    message: `Downloading scan (${megabytes} of ${(total / MEGABYTE).toFixed(1)} MB)`
+  };
+}
+
+WorldRegistry.register({
+  id: 'home',
+  title: 'Home',
+  description: 'Photogrammetry scan',
+  order: 1,
+  ambience: 'garden',
+  music: 'street',
+  create: (scene) => new HomeWorld(scene)
+});
@@ -0,0 +1,58 @@
+import {
+  Scene,
+  Mesh,
+  MeshBuilder,
+  PointLight,
+  StandardMaterial,
+  Color3,
+  Vector3
+} from '@babylonjs/core';
+
+const BULB_DIAMETER = 0.4;
+
+/**
+ * An indoor lamp: a glowing bulb with a point light, switched on and off by
+ * the time of day. The bulb is the lamp's root, so it's placed like any mesh.
+ */
+export class Lamp {
+  readonly bulb: Mesh;
+  private light: PointLight;
+  private material: StandardMaterial;
+  private color: Color3;
+  private isOn: boolean = true;
+
+  constructor(scene: Scene, name: string, color: Color3, intensity: number, range: number) {
+    this.color = color;
+    this.bulb = MeshBuilder.CreateSphere(name, { diameter: BULB_DIAMETER, segments: 8 }, scene);
+    this.bulb.isPickable = false;
+
+    this.material = new StandardMaterial(`${name}Material`, scene);
+    this.material.diffuseColor = new Color3(0.9, 0.9, 0.85);
+    this.material.specularColor = Color3.Black();
+    this.bulb.material = this.material;
+
+    this.light = new PointLight(`${name}Light`, Vector3.Zero(), scene);
+    this.light.parent = this.bulb;
+    this.light.diffuse = color;
+    this.light.specular = color.scale(0.3);
+    this.light.intensity = intensity;
+    this.light.range = range;
+    this.setOn(false);
+  }
+
+  get on(): boolean {
+    return this.isOn;
+  }
+
+  setOn(on: boolean): void {
+    if (this.isOn === on) return;
+    this.isOn = on;
+    this.light.setEnabled(on);
+    this.material.emissiveColor = on ? this.color : Color3.Black();
+  }
+
+  // The bulb and light go with the world's node tree; only the material is the lamp's own
+  dispose(): void {
+    this.material.dispose();
+  }
+}
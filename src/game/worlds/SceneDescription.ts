@@ -0,0 +1,460 @@
+// Declarative world layout format, loaded by DataWorld.
+// Positions are in meters, rotations in degrees, colors are 0-1 RGB triples.
+
+import { SurfaceType, SURFACE_TYPES } from '../../audio/Surfaces';
+import { CameraOcclusion, CAMERA_OCCLUSIONS } from '../CameraOcclusion';
+
+export type Vec3Tuple = [number, number, number];
+export type Color3Tuple = [number, number, number];
+
+export interface MaterialDescription {
+  diffuse: Color3Tuple;
+  specular?: Color3Tuple;
+  emissive?: Color3Tuple;
+  alpha?: number;
+}
+
+export interface SpawnPointDescription {
+  name: string;
+  position: Vec3Tuple;  // Floor-level point Bean stands on
+  rotation?: number;    // Yaw in degrees, 0 faces +Z
+}
+
+// Somewhere the cinematic camera can film from; it aims itself at Bean
+export interface CameraPointDescription {
+  name: string;
+  position: Vec3Tuple;
+}
+
+export interface InteractionDescription {
+  kind: 'sniffable' | 'carryable' | 'pushable';  // Carryable and pushable need a primitive, not a group
+  label: string;          // Shown in prompts, e.g. "sock"
+  description?: string;   // What Bean learns from sniffing it
+}
+
+interface ObjectDescriptionBase {
+  name: string;
+  position?: Vec3Tuple;
+  rotation?: Vec3Tuple;
+  scaling?: Vec3Tuple;
+  interaction?: InteractionDescription;
+  camera?: CameraOcclusion;  // In the follow camera's way: block, fade or none (default block if it collides)
+  children?: ObjectDescription[];
+}
+
+interface PrimitiveDescriptionBase extends ObjectDescriptionBase {
+  material?: string;
+  collision?: boolean;       // Blocks Bean (default false)
+  floor?: boolean;           // Walkable, collides and is used as XR teleport target (default false)
+  surface?: SurfaceType;     // What footsteps sound like: wood, carpet, tile or grass (default wood)
+  castShadows?: boolean;     // Default true
+  receiveShadows?: boolean;  // Default true
+}
+
+export interface GroupDescription extends ObjectDescriptionBase {
+  type: 'group';
+}
+
+export interface BoxDescription extends PrimitiveDescriptionBase {
+  type: 'box';
+  size: Vec3Tuple;  // Width, height, depth
+}
+
+export interface CylinderDescription extends PrimitiveDescriptionBase {
+  type: 'cylinder';
+  height: number;
+  diameter?: number;
+  diameterTop?: number;
+  diameterBottom?: number;
+  tessellation?: number;
+}
+
+export interface SphereDescription extends PrimitiveDescriptionBase {
+  type: 'sphere';
+  diameter: number;
+  segments?: number;
+}
+
+export interface GroundDescription extends PrimitiveDescriptionBase {
+  type: 'ground';
+  width: number;
+  depth: number;
+}
+
+// Hinged door leaf that swings open when Bean interacts with it or pushes against it
+export interface DoorDescription extends ObjectDescriptionBase {
+  type: 'door';
+  size: Vec3Tuple;             // Leaf width, height, thickness; position is the bottom center of the doorway
+  material?: string;
+  hinge?: 'left' | 'right';    // Hinge side seen from -Z, in the door's own frame (default left)
+  openAngle?: number;          // Degrees (default 100)
+  label?: string;              // Prompt label (default "door")
+}
+
+// Cat curled up asleep that wakes when Bean barks nearby; always sniffable
+export interface CatDescription extends ObjectDescriptionBase {
+  type: 'cat';
+  material?: string;
+  hearing?: number;  // Quietest noise level (0-1) that wakes it, lower sleeps lighter (default 0.2)
+}
+
+// Flat mirror facing -Z in its own frame (rotate it to face the room); reflects Bean even in first person
+export interface MirrorDescription extends ObjectDescriptionBase {
+  type: 'mirror';
+  size: [number, number];  // Width, height
+  resolution?: number;     // Reflection texture size in pixels (default 512)
+}
+
+// Indoor lamp: a glowing bulb with a point light that comes on at night
+export interface LampDescription extends ObjectDescriptionBase {
+  type: 'lamp';
+  color?: Color3Tuple;  // Default warm white
+  intensity?: number;   // Default 1
+  range?: number;       // How far the light reaches in meters (default 20)
+}
+
+export type PrimitiveDescription =
+  | BoxDescription
+  | CylinderDescription
+  | SphereDescription
+  | GroundDescription;
+
+export type ObjectDescription =
+  | GroupDescription
+  | DoorDescription
+  | CatDescription
+  | MirrorDescription
+  | LampDescription
+  | PrimitiveDescription;
+
+export interface SceneDescription {
+  version: number;
+  name: string;
+  materials: Record<string, MaterialDescription>;
+  spawnPoints: SpawnPointDescription[];
+  cameraPoints?: CameraPointDescription[];
+  objects: ObjectDescription[];
+}
+
+export const SCENE_DESCRIPTION_VERSION = 1;
+
+const OBJECT_TYPES = ['group', 'door', 'cat', 'mirror', 'lamp', 'box', 'cylinder', 'sphere', 'ground'];
+const INTERACTION_KINDS = ['sniffable', 'carryable', 'pushable'];
+
+export class SceneDescriptionError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid world description "${source}":\n  - ${issues.join('\n  - ')}`);
+    this.name = 'SceneDescriptionError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Checks untrusted JSON against the scene description format and returns it typed.
+ * Every problem found is collected so designers can fix a file in one pass.
+ */
+export function parseSceneDescription(data: unknown, source: string = 'inline'): SceneDescription {
+  const validator = new DescriptionValidator();
+  validator.validateRoot(data);
+
+  if (validator.issues.length > 0) {
+    throw new SceneDescriptionError(source, validator.issues);
+  }
+
+  return data as SceneDescription;
+}
+
+class DescriptionValidator {
+  issues: string[] = [];
+  private materialNames: Set<string> = new Set();
+  private objectNames: Set<string> = new Set();
+
+  validateRoot(data: unknown): void {
+    if (!this.isObject(data)) {
+      this.fail('', 'expected a JSON object at the top level');
+      return;
+    }
+
+    if (data.version !== SCENE_DESCRIPTION_VERSION) {
+      this.fail('version', `expected ${SCENE_DESCRIPTION_VERSION}, got ${JSON.stringify(data.version)}`);
+    }
+    this.expectString(data, 'name', '');
+
+    if (this.isObject(data.materials)) {
+      for (const [key, material] of Object.entries(data.materials)) {
+        this.materialNames.add(key);
+        this.validateMaterial(material, `materials.${key}`);
+      }
+    } else {
+      this.fail('materials', 'expected an object mapping material names to materials');
+    }
+
+    if (Array.isArray(data.spawnPoints) && data.spawnPoints.length > 0) {
+      data.spawnPoints.forEach((spawn, index) => this.validateSpawnPoint(spawn, `spawnPoints[${index}]`));
+    } else {
+      this.fail('spawnPoints', 'expected a non-empty array');
+    }
+
+    if (Array.isArray(data.cameraPoints)) {
+      data.cameraPoints.forEach((point, index) => this.validateCameraPoint(point, `cameraPoints[${index}]`));
+    } else if (data.cameraPoints !== undefined) {
+      this.fail('cameraPoints', 'expected an array');
+    }
+
+    if (Array.isArray(data.objects)) {
+      data.objects.forEach((object, index) => this.validateObject(object, `objects[${index}]`));
+    } else {
+      this.fail('objects', 'expected an array');
+    }
+  }
+
+  private validateMaterial(material: unknown, path: string): void {
+    if (!this.isObject(material)) {
+      this.fail(path, 'expected an object');
+      return;
+    }
+    this.expectColor(material, 'diffuse', path, true);
+    this.expectColor(material, 'specular', path, false);
+    this.expectColor(material, 'emissive', path, false);
+    if (material.alpha !== undefined && !this.isNumberInRange(material.alpha, 0, 1)) {
+      this.fail(`${path}.alpha`, 'expected a number between 0 and 1');
+    }
+  }
+
+  private validateSpawnPoint(spawn: unknown, path: string): void {
+    if (!this.isObject(spawn)) {
+      this.fail(path, 'expected an object');
+      return;
+    }
+    this.expectString(spawn, 'name', path);
+    this.expectVec3(spawn, 'position', path, true);
+    this.expectNumber(spawn, 'rotation', path, false);
+  }
+
+  private validateCameraPoint(point: unknown, path: string): void {
+    if (!this.isObject(point)) {
+      this.fail(path, 'expected an object');
+      return;
+    }
+    this.expectString(point, 'name', path);
+    this.expectVec3(point, 'position', path, true);
+  }
+
+  private validateObject(object: unknown, path: string): void {
+    if (!this.isObject(object)) {
+      this.fail(path, 'expected an object');
+      return;
+    }
+
+    if (this.expectString(object, 'name', path)) {
+      const name = object.name as string;
+      if (this.objectNames.has(name)) {
+        this.fail(`${path}.name`, `duplicate object name "${name}"`);
+      }
+      this.objectNames.add(name);
+    }
+
+    this.expectVec3(object, 'position', path, false);
+    this.expectVec3(object, 'rotation', path, false);
+    this.expectVec3(object, 'scaling', path, false);
+    if (object.camera !== undefined && !CAMERA_OCCLUSIONS.includes(object.camera as CameraOcclusion)) {
+      this.fail(`${path}.camera`, `expected one of ${CAMERA_OCCLUSIONS.join(', ')}, got ${JSON.stringify(object.camera)}`);
+    }
+
+    const type = object.type;
+    if (typeof type !== 'string' || !OBJECT_TYPES.includes(type)) {
+      this.fail(`${path}.type`, `expected one of ${OBJECT_TYPES.join(', ')}, got ${JSON.stringify(type)}`);
+      return;
+    }
+
+    if (type !== 'group' && type !== 'mirror' && type !== 'lamp') {
+      this.expectMaterial(object, path);
+    }
+    if (type !== 'group' && type !== 'door' && type !== 'cat' && type !== 'mirror' && type !== 'lamp') {
+      this.expectBoolean(object, 'collision', path);
+      this.expectBoolean(object, 'floor', path);
+      this.expectBoolean(object, 'castShadows', path);
+      this.expectBoolean(object, 'receiveShadows', path);
+      if (object.surface !== undefined && !SURFACE_TYPES.includes(object.surface as SurfaceType)) {
+        this.fail(`${path}.surface`, `expected one of ${SURFACE_TYPES.join(', ')}, got ${JSON.stringify(object.surface)}`);
+      }
+    }
+
+    switch (type) {
+      case 'door':
+        this.expectVec3(object, 'size', path, true);
+        if (object.hinge !== undefined && object.hinge !== 'left' && object.hinge !== 'right') {
+          this.fail(`${path}.hinge`, `expected "left" or "right", got ${JSON.stringify(object.hinge)}`);
+        }
+        this.expectNumber(object, 'openAngle', path, false);
+        if (object.label !== undefined) {
+          this.expectString(object, 'label', path);
+        }
+        if (object.interaction !== undefined) {
+          this.fail(`${path}.interaction`, 'doors are always openable and cannot set an interaction');
+        }
+        break;
+      case 'cat':
+        if (object.hearing !== undefined && !this.isNumberInRange(object.hearing, 0, 1)) {
+          this.fail(`${path}.hearing`, 'expected a number between 0 and 1');
+        }
+        if (object.interaction !== undefined) {
+          this.fail(`${path}.interaction`, 'cats are always sniffable and cannot set an interaction');
+        }
+        break;
+      case 'mirror':
+        if (!Array.isArray(object.size) || object.size.length !== 2 ||
+            !object.size.every(value => typeof value === 'number' && value > 0)) {
+          this.fail(`${path}.size`, 'expected [width, height] in meters');
+        }
+        if (object.resolution !== undefined && !this.isNumberInRange(object.resolution, 16, 4096)) {
+          this.fail(`${path}.resolution`, 'expected a number between 16 and 4096');
+        }
+        if (object.interaction !== undefined) {
+          this.fail(`${path}.interaction`, 'mirrors cannot set an interaction');
+        }
+        break;
+      case 'lamp':
+        this.expectColor(object, 'color', path, false);
+        if (object.intensity !== undefined && !this.isNumberInRange(object.intensity, 0, 10)) {
+          this.fail(`${path}.intensity`, 'expected a number between 0 and 10');
+        }
+        if (object.range !== undefined && !this.isNumberInRange(object.range, 0.1, 100)) {
+          this.fail(`${path}.range`, 'expected a number between 0.1 and 100');
+        }
+        if (object.interaction !== undefined) {
+          this.fail(`${path}.interaction`, 'lamps cannot set an interaction');
+        }
+        break;
+      case 'box':
+        this.expectVec3(object, 'size', path, true);
+        break;
+      case 'cylinder':
+        this.expectNumber(object, 'height', path, true);
+        this.expectNumber(object, 'diameter', path, false);
+        this.expectNumber(object, 'diameterTop', path, false);
+        this.expectNumber(object, 'diameterBottom', path, false);
+        this.expectNumber(object, 'tessellation', path, false);
+        if (object.diameter === undefined &&
+            (object.diameterTop === undefined || object.diameterBottom === undefined)) {
+          this.fail(path, 'cylinder needs "diameter" or both "diameterTop" and "diameterBottom"');
+        }
+        break;
+      case 'sphere':
+        this.expectNumber(object, 'diameter', path, true);
+        this.expectNumber(object, 'segments', path, false);
+        break;
+      case 'ground':
+        this.expectNumber(object, 'width', path, true);
+        this.expectNumber(object, 'depth', path, true);
+        break;
+    }
+
+    if (object.interaction !== undefined && type !== 'door' && type !== 'cat' && type !== 'mirror' && type !== 'lamp') {
+      this.validateInteraction(object.interaction, `${path}.interaction`, type);
+    }
+
+    if (object.children !== undefined) {
+      if (Array.isArray(object.children)) {
+        object.children.forEach((child, index) => this.validateObject(child, `${path}.children[${index}]`));
+      } else {
+        this.fail(`${path}.children`, 'expected an array');
+      }
+    }
+  }
+
+  private expectMaterial(object: Record<string, unknown>, path: string): void {
+    if (object.material === undefined) return;
+    if (typeof object.material !== 'string') {
+      this.fail(`${path}.material`, 'expected a material name');
+    } else if (!this.materialNames.has(object.material)) {
+      this.fail(`${path}.material`, `unknown material "${object.material}"`);
+    }
+  }
+
+  private validateInteraction(interaction: unknown, path: string, objectType: string): void {
+    if (!this.isObject(interaction)) {
+      this.fail(path, 'expected an object');
+      return;
+    }
+    const kind = interaction.kind;
+    if (typeof kind !== 'string' || !INTERACTION_KINDS.includes(kind)) {
+      this.fail(`${path}.kind`, `expected one of ${INTERACTION_KINDS.join(', ')}, got ${JSON.stringify(kind)}`);
+    } else if (kind !== 'sniffable' && objectType === 'group') {
+      this.fail(`${path}.kind`, `"${kind}" objects must be a single primitive, not a group`);
+    }
+    this.expectString(interaction, 'label', path);
+    if (interaction.description !== undefined) {
+      this.expectString(interaction, 'description', path);
+    }
+  }
+
+  private expectString(object: Record<string, unknown>, key: string, path: string): boolean {
+    const value = object[key];
+    if (typeof value !== 'string' || value.length === 0) {
+      this.fail(this.join(path, key), 'expected a non-empty string');
+      return false;
+    }
+    return true;
+  }
+
+  private expectNumber(object: Record<string, unknown>, key: string, path: string, required: boolean): void {
+    const value = object[key];
+    if (value === undefined) {
+      if (required) this.fail(this.join(path, key), 'is required');
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(this.join(path, key), `expected a number, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  private expectBoolean(object: Record<string, unknown>, key: string, path: string): void {
+    const value = object[key];
+    if (value !== undefined && typeof value !== 'boolean') {
+      this.fail(this.join(path, key), `expected true or false, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  private expectVec3(object: Record<string, unknown>, key: string, path: string, required: boolean): void {
+    const value = object[key];
+    if (value === undefined) {
+      if (required) this.fail(this.join(path, key), 'is required');
+      return;
+    }
+    if (!Array.isArray(value) || value.length !== 3 ||
+        !value.every(component => typeof component === 'number' && Number.isFinite(component))) {
+      this.fail(this.join(path, key), `expected an array of 3 numbers, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  private expectColor(object: Record<string, unknown>, key: string, path: string, required: boolean): void {
+    const value = object[key];
+    if (value === undefined) {
+      if (required) this.fail(this.join(path, key), 'is required');
+      return;
+    }
+    if (!Array.isArray(value) || value.length !== 3 ||
+        !value.every(component => this.isNumberInRange(component, 0, 1))) {
+      this.fail(this.join(path, key), `expected an RGB array of 3 numbers between 0 and 1, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isNumberInRange(value: unknown, min: number, max: number): boolean {
+    return typeof value === 'number' && value >= min && value <= max;
+  }
+
+  private join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+  }
+
+  private fail(path: string, message: string): void {
+    this.issues.push(path ? `${path}: ${message}` : message);
+  }
+}
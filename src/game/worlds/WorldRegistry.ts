@@ -0,0 +1,44 @@
+import { Scene } from '@babylonjs/core';
+import type { BaseWorld } from './BaseWorld';
+import type { AmbienceName } from '../../audio/SoundLibrary';
+import type { MusicTrackName } from '../../audio/MusicLibrary';
+
+export interface WorldDefinition {
+  id: string;
+  title: string;
+  description: string;
+  thumbnail?: string;  // URL of a preview image shown on the menu button
+  order?: number;      // Menu position, lower first (defaults to 0)
+  ambience?: AmbienceName;  // Background loop while playing (defaults to 'house')
+  music?: MusicTrackName;   // Layered music track while playing (defaults to 'house')
+  create: (scene: Scene) => BaseWorld;
+}
+
+export class WorldRegistry {
+  private static worlds: Map<string, WorldDefinition> = new Map();
+
+  static register(definition: WorldDefinition): void {
+    if (this.worlds.has(definition.id)) {
+      console.warn(`World "${definition.id}" is already registered, replacing it`);
+    }
+    this.worlds.set(definition.id, definition);
+  }
+
+  static get(id: string): WorldDefinition | undefined {
+    return this.worlds.get(id);
+  }
+
+  static getAll(): WorldDefinition[] {
+    // Array.sort is stable, so worlds with the same order keep registration order
+    return Array.from(this.worlds.values())
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  }
+
+  static create(id: string, scene: Scene): BaseWorld {
+    const definition = this.worlds.get(id);
+    if (!definition) {
+      throw new Error(`Unknown world: ${id}`);
+    }
+    return definition.create(scene);
+  }
+}
@@ -0,0 +1,6 @@
+// Importing every *World module runs its WorldRegistry.register() call,
+// so dropping a new world file into this folder is enough to list it
+import.meta.glob('./*World.ts', { eager: true });
+
+export { WorldRegistry } from './WorldRegistry';
+export type { WorldDefinition } from './WorldRegistry';
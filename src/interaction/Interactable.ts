@@ -0,0 +1,29 @@
+import { Node, Vector3 } from '@babylonjs/core';
+
+export type InteractableKind = 'sniffable' | 'carryable' | 'pushable' | 'openable';
+
+export interface Interactable {
+  kind: InteractableKind;
+  label: string;            // Shown in prompts, e.g. "sock"
+  description?: string;     // What Bean learns from sniffing it
+  isOpen?: boolean;         // Openables only, toggled on interact
+  onInteract?: (from: Vector3) => void;  // World behaviour (e.g. swinging a door), given Bean's position
+}
+
+// Interactables are stored in node metadata so worlds can tag meshes without
+// knowing about the interaction system
+export function makeInteractable(node: Node, interactable: Interactable): void {
+  node.metadata = { ...(node.metadata ?? {}), interactable };
+}
+
+// Finds the interactable a node belongs to, so picking a couch cushion
+// resolves to the tagged couch group
+export function findInteractable(node: Node | null): { node: Node; interactable: Interactable } | null {
+  for (let current = node; current; current = current.parent) {
+    const interactable = current.metadata?.interactable as Interactable | undefined;
+    if (interactable) {
+      return { node: current, interactable };
+    }
+  }
+  return null;
+}
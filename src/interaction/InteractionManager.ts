@@ -0,0 +1,357 @@
+import {
+  Scene,
+  Node,
+  AbstractMesh,
+  Vector3,
+  Ray,
+  Observable
+} from '@babylonjs/core';
+import { Bean } from '../game/Bean';
+import { Interactable, findInteractable } from './Interactable';
+import { InteractionPrompt } from './InteractionPrompt';
+import { ObjectSnapshot } from '../save/SaveManager';
+
+export type InteractionAction = 'sniff' | 'pickUp' | 'drop' | 'push' | 'open' | 'close';
+
+export interface InteractionEvent {
+  action: InteractionAction;
+  node: Node;
+  interactable: Interactable;
+}
+
+interface InteractionTarget {
+  node: Node;
+  interactable: Interactable;
+  point: Vector3;
+}
+
+interface CarriedObject {
+  mesh: AbstractMesh;
+  interactable: Interactable;
+  parent: Node | null;
+  checkCollisions: boolean;
+  isPickable: boolean;
+}
+
+// How far from Bean's mouth an object can be reached (m)
+const REACH = 2;
+// How long a sniff description stays up (s)
+const SNIFF_MESSAGE_TIME = 3;
+// How far a pushable moves each time Bean bumps into it (m)
+const PUSH_STEP = 0.04;
+// How far a pushable moves when nudged with the interact button (m)
+const PUSH_NUDGE = 0.5;
+// Gap kept between a dropped object and a wall in front of Bean (m)
+const DROP_CLEARANCE = 0.2;
+const PROMPT_HEIGHT = 0.4;
+
+/**
+ * Lets Bean sniff, carry, push and open tagged world objects (see Interactable.ts).
+ * The controls supply a targeting ray each frame (crosshair on desktop, controller
+ * pointer in VR) and the game forwards 'interact' events to interact().
+ */
+export class InteractionManager {
+  private scene: Scene;
+  private bean: Bean;
+  private prompt: InteractionPrompt;
+  private target: InteractionTarget | null = null;
+  private carried: CarriedObject | null = null;
+  private message: { text: string; node: Node; timeLeft: number } | null = null;
+  private isVRMode: boolean = false;
+
+  readonly onInteractionObservable = new Observable<InteractionEvent>();
+
+  constructor(scene: Scene, bean: Bean, prompt: InteractionPrompt = new InteractionPrompt(scene)) {
+    this.scene = scene;
+    this.bean = bean;
+    this.prompt = prompt;
+
+    // Walking into a pushable shoves it along, walking into a closed door opens it
+    this.bean.onCollideObservable.add(({ mesh, direction }) => {
+      const found = findInteractable(mesh);
+      if (found?.node !== mesh) return;
+      if (found.interactable.kind === 'pushable') {
+        this.push(mesh, direction, PUSH_STEP);
+      } else if (found.interactable.kind === 'openable' && !found.interactable.isOpen) {
+        this.toggleOpen(mesh, found.interactable);
+      }
+    });
+  }
+
+  setVRMode(enabled: boolean): void {
+    this.isVRMode = enabled;
+  }
+
+  // Takes the prompt off screen until the next update, e.g. while play is paused
+  hidePrompt(): void {
+    this.prompt.hide();
+  }
+
+  getTarget(): Interactable | null {
+    return this.target?.interactable ?? null;
+  }
+
+  getCarried(): AbstractMesh | null {
+    return this.carried?.mesh ?? null;
+  }
+
+  update(ray: Ray | null, deltaTime: number): void {
+    if (this.message) {
+      this.message.timeLeft -= deltaTime;
+      if (this.message.timeLeft <= 0) this.message = null;
+    }
+
+    if (this.carried) {
+      this.holdCarried();
+    }
+
+    this.target = ray ? this.findTarget(ray) : null;
+    this.updatePrompt();
+  }
+
+  interact(): void {
+    // Bean's mouth is full: the only thing to do is put it down
+    if (this.carried) {
+      this.drop();
+      return;
+    }
+    if (!this.target) return;
+
+    const { node, interactable } = this.target;
+    switch (interactable.kind) {
+      case 'sniffable':
+        this.message = {
+          text: interactable.description ?? `Smells like ${interactable.label}`,
+          node,
+          timeLeft: SNIFF_MESSAGE_TIME
+        };
+        this.notify('sniff', node, interactable);
+        break;
+      case 'carryable':
+        if (node instanceof AbstractMesh) {
+          this.pickUp(node, interactable);
+        }
+        break;
+      case 'pushable':
+        if (node instanceof AbstractMesh) {
+          const away = node.getAbsolutePosition().subtract(this.bean.position);
+          this.push(node, away, PUSH_NUDGE);
+        }
+        break;
+      case 'openable':
+        this.toggleOpen(node, interactable);
+        return;
+    }
+    interactable.onInteract?.(this.bean.position);
+  }
+
+  // Puts down anything Bean is carrying, e.g. before the world is unloaded
+  clear(): void {
+    if (this.carried) {
+      this.drop();
+    }
+    this.target = null;
+    this.message = null;
+    this.prompt.hide();
+  }
+
+  // Where everything Bean can move has ended up, and which doors are open, for save games
+  captureState(): { objects: ObjectSnapshot[]; openDoors: string[] } {
+    const objects: ObjectSnapshot[] = [];
+    const openDoors: string[] = [];
+
+    for (const mesh of this.scene.meshes) {
+      const interactable = mesh.metadata?.interactable as Interactable | undefined;
+      if (interactable?.kind === 'openable' && interactable.isOpen) {
+        openDoors.push(mesh.name);
+      } else if (interactable?.kind === 'carryable' || interactable?.kind === 'pushable') {
+        const position = mesh.getAbsolutePosition();
+        objects.push({
+          name: mesh.name,
+          position: [position.x, position.y, position.z],
+          rotation: mesh.rotation.y,
+          ...(mesh === this.carried?.mesh ? { carried: true } : {})
+        });
+      }
+    }
+    return { objects, openDoors };
+  }
+
+  restoreState(objects: ObjectSnapshot[], openDoors: string[]): void {
+    this.clear();
+
+    for (const state of objects) {
+      const mesh = this.scene.getMeshByName(state.name);
+      const interactable = mesh?.metadata?.interactable as Interactable | undefined;
+      if (!mesh || !interactable) {
+        console.warn(`Saved object ${state.name} no longer exists in this world`);
+        continue;
+      }
+      if (state.carried) {
+        this.pickUp(mesh, interactable);
+      } else {
+        mesh.rotationQuaternion = null;
+        mesh.rotation.y = state.rotation;
+        mesh.setAbsolutePosition(Vector3.FromArray(state.position));
+        mesh.computeWorldMatrix(true);
+      }
+    }
+
+    for (const name of openDoors) {
+      const mesh = this.scene.getMeshByName(name);
+      const interactable = mesh?.metadata?.interactable as Interactable | undefined;
+      if (mesh && interactable?.kind === 'openable' && !interactable.isOpen) {
+        this.toggleOpen(mesh, interactable);
+      }
+    }
+  }
+
+  private findTarget(ray: Ray): InteractionTarget | null {
+    const pickInfo = this.scene.pickWithRay(ray, (mesh) => this.isTargetable(mesh));
+    if (!pickInfo?.hit || !pickInfo.pickedMesh || !pickInfo.pickedPoint) {
+      return null;
+    }
+
+    const found = findInteractable(pickInfo.pickedMesh);
+    if (!found || Vector3.Distance(this.bean.getMouthPosition(), pickInfo.pickedPoint) > REACH) {
+      return null;
+    }
+    return { ...found, point: pickInfo.pickedPoint };
+  }
+
+  // Anything visible can block the ray, so targets behind walls aren't reachable
+  private isTargetable(mesh: AbstractMesh): boolean {
+    return mesh.isPickable &&
+           mesh.isVisible &&
+           mesh.isEnabled() &&
+           mesh !== this.carried?.mesh &&
+           !this.bean.ownsMesh(mesh);
+  }
+
+  private pickUp(mesh: AbstractMesh, interactable: Interactable): void {
+    this.carried = {
+      mesh,
+      interactable,
+      parent: mesh.parent,
+      checkCollisions: mesh.checkCollisions,
+      isPickable: mesh.isPickable
+    };
+    mesh.setParent(null);
+    mesh.checkCollisions = false;
+    mesh.isPickable = false;
+    this.holdCarried();
+    this.notify('pickUp', mesh, interactable);
+  }
+
+  private holdCarried(): void {
+    const mesh = this.carried!.mesh;
+    mesh.rotationQuaternion = null;
+    mesh.position.copyFrom(this.bean.getMouthPosition());
+    mesh.rotation.set(0, this.bean.rotation.y, 0);
+  }
+
+  private drop(): void {
+    const { mesh, interactable, parent, checkCollisions, isPickable } = this.carried!;
+    this.carried = null;
+
+    // Pull the drop point back if Bean's nose is against a wall
+    const mouth = this.bean.getMouthPosition();
+    const origin = new Vector3(this.bean.position.x, mouth.y, this.bean.position.z);
+    const reach = mouth.subtract(origin);
+    const distance = reach.length();
+    const dropPoint = mouth.clone();
+    if (distance > 0) {
+      const direction = reach.scale(1 / distance);
+      const wall = this.scene.pickWithRay(new Ray(origin, direction, distance + DROP_CLEARANCE), (m) => this.isSolid(m, mesh));
+      if (wall?.hit) {
+        dropPoint.copyFrom(origin.add(direction.scale(Math.max(0, wall.distance - DROP_CLEARANCE))));
+      }
+    }
+
+    mesh.position.copyFrom(dropPoint);
+    mesh.rotation.set(0, this.bean.rotation.y, 0);
+    mesh.computeWorldMatrix(true);
+
+    // Settle it on whatever is below
+    const floor = this.scene.pickWithRay(new Ray(dropPoint, Vector3.Down(), 100), (m) => this.isSolid(m, mesh));
+    if (floor?.hit && floor.pickedPoint) {
+      const bottom = mesh.getBoundingInfo().boundingBox.minimumWorld.y;
+      mesh.position.y += floor.pickedPoint.y - bottom;
+      mesh.computeWorldMatrix(true);
+    }
+
+    mesh.setParent(parent);
+    mesh.checkCollisions = checkCollisions;
+    mesh.isPickable = isPickable;
+    this.notify('drop', mesh, interactable);
+  }
+
+  private toggleOpen(node: Node, interactable: Interactable): void {
+    interactable.isOpen = !interactable.isOpen;
+    interactable.onInteract?.(this.bean.position);
+    this.notify(interactable.isOpen ? 'open' : 'close', node, interactable);
+  }
+
+  private push(mesh: AbstractMesh, direction: Vector3, distance: number): void {
+    const horizontal = new Vector3(direction.x, 0, direction.z);
+    if (horizontal.lengthSquared() === 0) return;
+
+    // Size the collision ellipsoid to the object the first time it's pushed,
+    // lifted slightly so it slides over the floor instead of snagging on it
+    if (!mesh.metadata.pushReady) {
+      const extents = mesh.getBoundingInfo().boundingBox.extendSizeWorld;
+      mesh.ellipsoid = new Vector3(extents.x, Math.max(0.01, extents.y - 0.05), extents.z);
+      mesh.ellipsoidOffset = new Vector3(0, 0.05, 0);
+      mesh.metadata.pushReady = true;
+    }
+
+    mesh.moveWithCollisions(horizontal.normalize().scale(distance));
+    mesh.computeWorldMatrix(true);
+    this.notify('push', mesh, mesh.metadata.interactable);
+  }
+
+  private isSolid(mesh: AbstractMesh, ignore: AbstractMesh): boolean {
+    return mesh !== ignore && mesh.checkCollisions && mesh.isEnabled();
+  }
+
+  private updatePrompt(): void {
+    if (this.message) {
+      this.prompt.show(this.message.text, this.promptPosition(this.message.node));
+      return;
+    }
+
+    const button = this.isVRMode ? 'Grip' : 'E';
+    if (this.carried) {
+      this.prompt.show(`${button}: Drop ${this.carried.interactable.label}`, this.promptPosition(this.carried.mesh));
+    } else if (this.target) {
+      const { node, interactable } = this.target;
+      this.prompt.show(`${button}: ${this.verb(interactable)} ${interactable.label}`, this.promptPosition(node));
+    } else {
+      this.prompt.hide();
+    }
+  }
+
+  private verb(interactable: Interactable): string {
+    switch (interactable.kind) {
+      case 'sniffable': return 'Sniff';
+      case 'carryable': return 'Pick up';
+      case 'pushable': return 'Push';
+      case 'openable': return interactable.isOpen ? 'Close' : 'Open';
+    }
+  }
+
+  private promptPosition(node: Node): Vector3 {
+    const { min, max } = node.getHierarchyBoundingVectors(true);
+    return new Vector3((min.x + max.x) / 2, max.y + PROMPT_HEIGHT, (min.z + max.z) / 2);
+  }
+
+  private notify(action: InteractionAction, node: Node, interactable: Interactable): void {
+    this.onInteractionObservable.notifyObservers({ action, node, interactable });
+  }
+
+  dispose(): void {
+    this.clear();
+    this.onInteractionObservable.clear();
+    this.prompt.dispose();
+  }
+}
@@ -0,0 +1,55 @@
+import { Scene, Mesh, MeshBuilder, Vector3 } from '@babylonjs/core';
+import { AdvancedDynamicTexture, Rectangle, TextBlock } from '@babylonjs/gui';
+
+/**
+ * Floating label shown above the targeted object. It is a billboarded plane
+ * rather than a fullscreen overlay so it also shows up inside the headset.
+ */
+export class InteractionPrompt {
+  private scene: Scene;
+  private plane?: Mesh;
+  private text?: TextBlock;
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+  }
+
+  // Created on first use, so nothing is built until something is targeted
+  private create(): void {
+    this.plane = MeshBuilder.CreatePlane('interactionPrompt', { width: 1.6, height: 0.4 }, this.scene);
+    this.plane.billboardMode = Mesh.BILLBOARDMODE_ALL;
+    this.plane.isPickable = false;
+    this.plane.renderingGroupId = 1;  // Draw over furniture so the prompt is never hidden
+
+    const texture = AdvancedDynamicTexture.CreateForMesh(this.plane, 512, 128, false);
+
+    const background = new Rectangle();
+    background.background = 'rgba(0, 0, 0, 0.6)';
+    background.cornerRadius = 20;
+    background.thickness = 0;
+    texture.addControl(background);
+
+    this.text = new TextBlock();
+    this.text.color = 'white';
+    this.text.fontSize = 40;
+    this.text.textWrapping = true;
+    background.addControl(this.text);
+  }
+
+  show(text: string, position: Vector3): void {
+    if (!this.plane) this.create();
+    this.text!.text = text;
+    this.plane!.position.copyFrom(position);
+    this.plane!.setEnabled(true);
+  }
+
+  hide(): void {
+    this.plane?.setEnabled(false);
+  }
+
+  dispose(): void {
+    this.plane?.dispose(false, true);
+    this.plane = undefined;
+    this.text = undefined;
+  }
+}
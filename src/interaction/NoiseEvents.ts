@@ -0,0 +1,60 @@
+import { Node, Scene, TransformNode, Vector3, Observable } from '@babylonjs/core';
+
+export interface NoiseEvent {
+  source: string;     // What made the noise, e.g. "bark"
+  position: Vector3;
+  loudness: number;   // 1 is a full bark, heard at that level within REFERENCE_DISTANCE
+}
+
+export interface NoiseListener {
+  threshold: number;  // Quietest level that gets a reaction; light sleepers are low
+  onHear: (event: NoiseEvent, level: number) => void;
+}
+
+// Distance (m) a noise carries before it starts to fade
+const REFERENCE_DISTANCE = 3;
+
+// How loud a noise is by the time it reaches a point, falling off with the square of distance
+export function getNoiseLevel(event: NoiseEvent, at: Vector3): number {
+  const distance = Vector3.Distance(event.position, at) / REFERENCE_DISTANCE;
+  return event.loudness / (1 + distance * distance);
+}
+
+// Listeners are stored in node metadata, like interactables, so worlds can make
+// things react to noise without any wiring in Game
+export function makeNoiseListener(node: Node, listener: NoiseListener): void {
+  node.metadata = { ...(node.metadata ?? {}), noiseListener: listener };
+}
+
+/**
+ * Game-level sounds that the world can react to. Each emitted noise reaches every
+ * listener in the scene that hears it above its threshold, and is reported on
+ * onNoiseObservable for anything else interested.
+ */
+export class NoiseEvents {
+  private scene: Scene;
+
+  readonly onNoiseObservable = new Observable<NoiseEvent>();
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+  }
+
+  emit(event: NoiseEvent): void {
+    const nodes: TransformNode[] = [...this.scene.transformNodes, ...this.scene.meshes];
+    nodes.forEach(node => {
+      const listener = node.metadata?.noiseListener as NoiseListener | undefined;
+      if (!listener || !node.isEnabled()) return;
+
+      const level = getNoiseLevel(event, node.getAbsolutePosition());
+      if (level >= listener.threshold) {
+        listener.onHear(event, level);
+      }
+    });
+    this.onNoiseObservable.notifyObservers(event);
+  }
+
+  dispose(): void {
+    this.onNoiseObservable.clear();
+  }
+}
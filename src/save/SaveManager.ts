@@ -0,0 +1,195 @@
+import { CameraView, CAMERA_VIEWS } from '../game/Bean';
+import { GameSettings } from '../settings/SettingsManager';
+
+export type Vec3Tuple = [number, number, number];
+
+export interface BeanSnapshot {
+  position: Vec3Tuple;  // Floor-level point Bean stands on
+  rotation: number;     // Yaw in radians
+  cameraView: CameraView;
+}
+
+// A carryable or pushable object that may have been moved from its spawn spot
+export interface ObjectSnapshot {
+  name: string;
+  position: Vec3Tuple;
+  rotation: number;
+  carried?: boolean;
+}
+
+// Every setting the game was played with, plus the main menu's teleport choice.
+// Settings added since the save was made are missing; restoring skips them.
+export interface SettingsSnapshot extends Partial<GameSettings> {
+  useTeleportation: boolean;
+}
+
+export interface SaveSnapshot {
+  version: number;
+  savedAt: string;  // ISO timestamp
+  worldId: string;
+  bean: BeanSnapshot;
+  objects: ObjectSnapshot[];
+  openDoors: string[];
+  settings: SettingsSnapshot;
+}
+
+export const SAVE_VERSION = 1;
+export const AUTOSAVE_SLOT = 'autosave';
+export const SAVE_SLOTS = [AUTOSAVE_SLOT, 'slot-1', 'slot-2', 'slot-3'];
+export const QUICKSAVE_SLOT = 'slot-1';  // Written with a fresh snapshot by the quick save key
+
+const STORAGE_PREFIX = 'bean-simulator:save:';
+
+// Upgrades a snapshot from the keyed version to the next one. When the
+// snapshot format changes, bump SAVE_VERSION and add an entry here.
+// Each migration gets a snapshot of its version and returns the next version's data.
+export type SnapshotMigration = (snapshot: VersionedSnapshot) => unknown;
+const MIGRATIONS: Record<number, SnapshotMigration> = {};
+
+// All a snapshot of any version is known to have
+export interface VersionedSnapshot {
+  version: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Brings an old snapshot up to SAVE_VERSION by running each migration in turn.
+ * Returns null for snapshots from a newer build, with no upgrade path, or that
+ * don't have the current format once upgraded.
+ */
+export function migrateSnapshot(data: unknown, migrations: Record<number, SnapshotMigration> = MIGRATIONS): SaveSnapshot | null {
+  if (!isVersionedSnapshot(data)) {
+    return null;
+  }
+  if (data.version > SAVE_VERSION) {
+    console.warn(`Save was made by a newer version (v${data.version}), ignoring it`);
+    return null;
+  }
+
+  let snapshot: VersionedSnapshot = data;
+  while (snapshot.version < SAVE_VERSION) {
+    const migrate = migrations[snapshot.version];
+    if (!migrate) {
+      console.warn(`No migration from save version ${snapshot.version}, ignoring it`);
+      return null;
+    }
+    const migrated = migrate(snapshot);
+    if (!isRecord(migrated)) {
+      console.warn(`Migration from save version ${snapshot.version} failed, ignoring it`);
+      return null;
+    }
+    snapshot = { ...migrated, version: snapshot.version + 1 };
+  }
+  if (!isSaveSnapshot(snapshot)) {
+    console.warn(`Save is missing parts of the v${SAVE_VERSION} format, ignoring it`);
+    return null;
+  }
+  return snapshot;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isVec3(value: unknown): value is Vec3Tuple {
+  return Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+}
+
+export function isVersionedSnapshot(value: unknown): value is VersionedSnapshot {
+  return isRecord(value) && typeof value.version === 'number';
+}
+
+// The current format; setting values are checked by the settings manager when they're restored
+export function isSaveSnapshot(value: unknown): value is SaveSnapshot {
+  if (!isVersionedSnapshot(value) || value.version !== SAVE_VERSION) return false;
+  const { savedAt, worldId, bean, objects, openDoors, settings } = value;
+  return typeof savedAt === 'string' &&
+    typeof worldId === 'string' &&
+    isRecord(bean) &&
+    isVec3(bean.position) &&
+    typeof bean.rotation === 'number' &&
+    CAMERA_VIEWS.includes(bean.cameraView as CameraView) &&
+    Array.isArray(objects) &&
+    objects.every(object =>
+      isRecord(object) &&
+      typeof object.name === 'string' &&
+      isVec3(object.position) &&
+      typeof object.rotation === 'number' &&
+      (object.carried === undefined || typeof object.carried === 'boolean')
+    ) &&
+    Array.isArray(openDoors) &&
+    openDoors.every(door => typeof door === 'string') &&
+    isRecord(settings) &&
+    typeof settings.useTeleportation === 'boolean';
+}
+
+/**
+ * Stores game snapshots as versioned JSON in localStorage, one key per slot.
+ * Storage failures (private browsing, quota) are logged and never thrown, so a
+ * broken save can't take the game down with it.
+ */
+export class SaveManager {
+  private storage: Storage;
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+  }
+
+  save(slot: string, snapshot: SaveSnapshot): boolean {
+    try {
+      this.storage.setItem(STORAGE_PREFIX + slot, JSON.stringify(snapshot));
+      console.log(`Game saved to ${slot}`);
+      return true;
+    } catch (error) {
+      console.warn(`Failed to save game to ${slot}:`, error);
+      return false;
+    }
+  }
+
+  load(slot: string): SaveSnapshot | null {
+    let raw: string | null;
+    try {
+      raw = this.storage.getItem(STORAGE_PREFIX + slot);
+    } catch (error) {
+      console.warn(`Failed to read save ${slot}:`, error);
+      return null;
+    }
+    if (!raw) return null;
+
+    try {
+      return migrateSnapshot(JSON.parse(raw));
+    } catch (error) {
+      console.warn(`Save ${slot} is corrupted, ignoring it:`, error);
+      return null;
+    }
+  }
+
+  delete(slot: string): void {
+    try {
+      this.storage.removeItem(STORAGE_PREFIX + slot);
+    } catch (error) {
+      console.warn(`Failed to delete save ${slot}:`, error);
+    }
+  }
+
+  // Copies one slot into another, e.g. keeping the last autosave in slot 1
+  copy(from: string, to: string): boolean {
+    const snapshot = this.load(from);
+    return snapshot ? this.save(to, snapshot) : false;
+  }
+
+  list(): { slot: string; snapshot: SaveSnapshot | null }[] {
+    return SAVE_SLOTS.map(slot => ({ slot, snapshot: this.load(slot) }));
+  }
+
+  // Most recently written save across all slots, used by "Continue"
+  getLatest(): SaveSnapshot | null {
+    let latest: SaveSnapshot | null = null;
+    for (const { snapshot } of this.list()) {
+      if (snapshot && (!latest || snapshot.savedAt > latest.savedAt)) {
+        latest = snapshot;
+      }
+    }
+    return latest;
+  }
+}
@@ -0,0 +1,187 @@
+import { Observable } from '@babylonjs/core';
+
+export type ShadowQuality = 'off' | 'low' | 'medium' | 'high';
+
+export interface GameSettings {
+  mouseSensitivity: number;  // Multiplier on the base mouse look speed
+  invertY: boolean;
+  fov: number;               // Vertical field of view (degrees)
+  renderScale: number;       // Highest device pixel ratio rendered at, no higher than the screen's
+  shadowQuality: ShadowQuality;
+  fog: boolean;
+  fogStart: number;          // Closest the fog starts (m); worlds can start it further out
+  fogEnd: number;            // Closest the fog is thickest (m)
+  dayLength: number;         // Real minutes per game day
+  realTimeOfDay: boolean;    // Follow the local clock instead
+  masterVolume: number;      // 0-1
+  musicVolume: number;       // 0-1, on top of the master volume
+  effectsVolume: number;
+  ambienceVolume: number;
+  gamepadDeadZone: number;   // Stick deflection ignored around the centre, 0-0.5
+  gamepadLookSpeed: number;  // Multiplier on the base right stick turn rate
+  gamepadCurve: number;      // Stick response exponent, 1 is linear
+}
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  mouseSensitivity: 1,
+  invertY: false,
+  fov: 60,
+  renderScale: 1.5,
+  shadowQuality: 'high',
+  fog: true,
+  fogStart: 10,
+  fogEnd: 100,
+  dayLength: 20,
+  realTimeOfDay: false,
+  masterVolume: 1,
+  musicVolume: 0.6,
+  effectsVolume: 1,
+  ambienceVolume: 0.7,
+  gamepadDeadZone: 0.15,
+  gamepadLookSpeed: 1,
+  gamepadCurve: 1.5
+};
+
+type NumericSetting =
+  | 'mouseSensitivity'
+  | 'fov'
+  | 'renderScale'
+  | 'fogStart'
+  | 'fogEnd'
+  | 'dayLength'
+  | 'masterVolume'
+  | 'musicVolume'
+  | 'effectsVolume'
+  | 'ambienceVolume'
+  | 'gamepadDeadZone'
+  | 'gamepadLookSpeed'
+  | 'gamepadCurve';
+
+export interface SettingRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const SETTING_RANGES: Record<NumericSetting, SettingRange> = {
+  mouseSensitivity: { min: 0.25, max: 3, step: 0.05 },
+  fov: { min: 50, max: 110, step: 1 },
+  renderScale: { min: 0.5, max: 2, step: 0.1 },
+  fogStart: { min: 10, max: 200, step: 5 },
+  fogEnd: { min: 100, max: 500, step: 10 },
+  dayLength: { min: 5, max: 120, step: 5 },
+  masterVolume: { min: 0, max: 1, step: 0.05 },
+  musicVolume: { min: 0, max: 1, step: 0.05 },
+  effectsVolume: { min: 0, max: 1, step: 0.05 },
+  ambienceVolume: { min: 0, max: 1, step: 0.05 },
+  gamepadDeadZone: { min: 0, max: 0.5, step: 0.01 },
+  gamepadLookSpeed: { min: 0.25, max: 3, step: 0.05 },
+  gamepadCurve: { min: 1, max: 3, step: 0.1 }
+};
+
+// The range a setting is clamped to on this device. Rendering above the screen's
+// pixel density costs time without adding detail, so render scale stops there.
+export function getSettingRange(key: NumericSetting): SettingRange {
+  const range = SETTING_RANGES[key];
+  const pixelRatio = typeof window !== 'undefined' ? window.devicePixelRatio : undefined;
+  if (key !== 'renderScale' || !pixelRatio) return range;
+  return { ...range, max: Math.max(range.min, Math.min(range.max, pixelRatio)) };
+}
+
+export const SHADOW_QUALITIES: ShadowQuality[] = ['off', 'low', 'medium', 'high'];
+
+// Shadow map resolution per quality level
+export const SHADOW_MAP_SIZES: Record<Exclude<ShadowQuality, 'off'>, number> = {
+  low: 512,
+  medium: 1024,
+  high: 2048
+};
+
+export interface SettingsChange {
+  key: keyof GameSettings;
+  settings: Readonly<GameSettings>;
+}
+
+const STORAGE_KEY = 'bean-simulator:settings';
+
+/**
+ * Player preferences, persisted to localStorage. Anything that depends on a
+ * setting subscribes to onChangedObservable so edits apply live.
+ */
+export class SettingsManager {
+  private storage: Storage;
+  private settings: GameSettings;
+
+  readonly onChangedObservable = new Observable<SettingsChange>();
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+    this.settings = this.load();
+  }
+
+  get(): Readonly<GameSettings> {
+    return this.settings;
+  }
+
+  set<K extends keyof GameSettings>(key: K, value: GameSettings[K]): void {
+    const sanitized = this.sanitize(key, value);
+    if (sanitized === undefined || this.settings[key] === sanitized) return;
+
+    this.settings = { ...this.settings, [key]: sanitized };
+    this.save();
+    this.onChangedObservable.notifyObservers({ key, settings: this.settings });
+  }
+
+  // Puts back settings kept elsewhere, e.g. in a saved game; missing or invalid ones are left as they are
+  restore(values: Partial<GameSettings>): void {
+    (Object.keys(DEFAULT_SETTINGS) as (keyof GameSettings)[]).forEach(key => {
+      const value = this.sanitize(key, values[key]);
+      if (value !== undefined) this.set(key, value);
+    });
+  }
+
+  reset(): void {
+    (Object.keys(DEFAULT_SETTINGS) as (keyof GameSettings)[]).forEach(key => {
+      this.set(key, DEFAULT_SETTINGS[key]);
+    });
+  }
+
+  // Keeps stored values that are still valid and falls back to defaults for the rest,
+  // so settings saved by older builds (or edited by hand) can't break the game
+  private load(): GameSettings {
+    let stored: Record<string, unknown> = {};
+    try {
+      stored = JSON.parse(this.storage.getItem(STORAGE_KEY) ?? '{}');
+    } catch (error) {
+      console.warn('Failed to read settings, using defaults:', error);
+    }
+    const settings = { ...DEFAULT_SETTINGS };
+    const assign = <K extends keyof GameSettings>(key: K): void => {
+      // Defaults go through the same checks, since some ranges depend on the device
+      settings[key] = this.sanitize(key, stored?.[key]) ?? this.sanitize(key, DEFAULT_SETTINGS[key]) ?? DEFAULT_SETTINGS[key];
+    };
+    (Object.keys(DEFAULT_SETTINGS) as (keyof GameSettings)[]).forEach(assign);
+    return settings;
+  }
+
+  private save(): void {
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save settings:', error);
+    }
+  }
+
+  private sanitize<K extends keyof GameSettings>(key: K, value: unknown): GameSettings[K] | undefined {
+    const fallback = DEFAULT_SETTINGS[key];
+    if (key in SETTING_RANGES) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+      const { min, max } = getSettingRange(key as NumericSetting);
+      return Math.min(max, Math.max(min, value)) as GameSettings[K];
+    }
+    if (key === 'shadowQuality') {
+      return SHADOW_QUALITIES.includes(value as ShadowQuality) ? value as GameSettings[K] : undefined;
+    }
+    return typeof value === typeof fallback ? value as GameSettings[K] : undefined;
+  }
+}
@@ -0,0 +1,159 @@
+import { Observer } from '@babylonjs/core';
+import { StackPanel, TextBlock, Button, Control } from '@babylonjs/gui';
+import {
+  InputActions,
+  InputAction,
+  InputBinding,
+  INPUT_ACTIONS,
+  ACTION_LABELS,
+  keyBinding,
+  bindingDevice
+} from '../controls/InputActions';
+
+// The devices with a column of their own; the keyboard column also shows mouse buttons
+type BindingColumn = 'keyboard' | 'gamepad';
+
+/**
+ * Lists every input action with its keyboard and mouse bindings and its gamepad
+ * buttons. Clicking a binding waits for the next key or gamepad button press
+ * and rebinds the action to it.
+ */
+export class BindingsMenu {
+  readonly panel: StackPanel;
+  private inputs: InputActions;
+  private buttons: Map<InputAction, Record<BindingColumn, Button>> = new Map();
+  private captureListener?: (e: KeyboardEvent) => void;
+  private captureObserver: Observer<InputBinding> | null = null;
+  private observer: Observer<void> | null;
+
+  constructor(inputs: InputActions, onBack: () => void) {
+    this.inputs = inputs;
+
+    this.panel = new StackPanel('bindingsMenu');
+    this.panel.width = "400px";
+    this.panel.paddingTop = "20px";
+    this.panel.paddingBottom = "20px";
+
+    const title = new TextBlock();
+    title.text = "Controls";
+    title.color = "white";
+    title.fontSize = 32;
+    title.height = "50px";
+    this.panel.addControl(title);
+
+    const hint = new TextBlock();
+    hint.text = "Click a binding, then press a key or button (Esc cancels)";
+    hint.color = "#87ceeb";
+    hint.fontSize = 14;
+    hint.height = "30px";
+    this.panel.addControl(hint);
+
+    INPUT_ACTIONS.forEach(action => this.addRow(action));
+
+    const buttons = new StackPanel();
+    buttons.isVertical = false;
+    buttons.height = "60px";
+    buttons.paddingTop = "10px";
+    buttons.addControl(this.createButton('bindings-reset', 'Reset', '#666666', '170px', () => this.inputs.resetBindings()));
+    buttons.addControl(this.createButton('bindings-back', 'Back', '#4169E1', '170px', () => {
+      this.stopCapture();
+      onBack();
+    }));
+    this.panel.addControl(buttons);
+
+    this.observer = this.inputs.onBindingsChangedObservable.add(() => this.refresh());
+    this.refresh();
+  }
+
+  private addRow(action: InputAction): void {
+    const row = new StackPanel();
+    row.isVertical = false;
+    row.height = "30px";
+
+    const label = new TextBlock();
+    label.text = ACTION_LABELS[action];
+    label.color = "#cccccc";
+    label.fontSize = 15;
+    label.width = "150px";
+    label.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+    row.addControl(label);
+
+    const createBindingButton = (column: BindingColumn, width: string) => {
+      const button = this.createButton(`bind-${column}-${action}`, '', '#333333', width, () => this.startCapture(action, column));
+      button.height = "28px";
+      button.fontSize = 14;
+      row.addControl(button);
+      return button;
+    };
+    this.buttons.set(action, {
+      keyboard: createBindingButton('keyboard', '130px'),
+      gamepad: createBindingButton('gamepad', '100px')
+    });
+
+    this.panel.addControl(row);
+  }
+
+  // Takes the next key press before the game sees it, or the next gamepad button.
+  // Escape cancels either way.
+  private startCapture(action: InputAction, column: BindingColumn): void {
+    this.stopCapture();
+    this.buttons.get(action)![column].textBlock!.text = column === 'keyboard' ? "Press a key..." : "Press a button...";
+
+    this.captureListener = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      this.stopCapture();
+      if (e.code !== 'Escape' && column === 'keyboard') {
+        this.inputs.rebind(action, keyBinding(e.code));
+      }
+    };
+    window.addEventListener('keydown', this.captureListener, true);
+
+    if (column === 'gamepad') {
+      this.captureObserver = this.inputs.onPressObservable.add(binding => {
+        if (bindingDevice(binding) !== 'gamepad') return;
+        this.stopCapture();
+        this.inputs.rebind(action, binding);
+      });
+    }
+  }
+
+  private stopCapture(): void {
+    this.inputs.onPressObservable.remove(this.captureObserver);
+    this.captureObserver = null;
+    if (this.captureListener) {
+      window.removeEventListener('keydown', this.captureListener, true);
+      this.captureListener = undefined;
+      this.refresh();
+    }
+  }
+
+  private refresh(): void {
+    this.buttons.forEach((buttons, action) => {
+      buttons.keyboard.textBlock!.text = this.inputs.describe(action);
+      buttons.gamepad.textBlock!.text = this.inputs.describe(action, ['gamepad']);
+    });
+  }
+
+  private createButton(name: string, text: string, background: string, width: string, onClick: () => void): Button {
+    const button = Button.CreateSimpleButton(name, text);
+    button.width = width;
+    button.height = "50px";
+    button.color = "white";
+    button.fontSize = 18;
+    button.background = background;
+    button.cornerRadius = 10;
+    button.thickness = 0;
+    button.paddingLeft = "5px";
+    button.paddingRight = "5px";
+    button.hoverCursor = "pointer";
+    button.onPointerClickObservable.add(onClick);
+    return button;
+  }
+
+  dispose(): void {
+    this.stopCapture();
+    this.inputs.onBindingsChangedObservable.remove(this.observer);
+    this.panel.dispose();
+  }
+}
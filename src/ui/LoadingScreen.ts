@@ -0,0 +1,290 @@
+import {
+  Scene,
+  Mesh,
+  MeshBuilder,
+  StandardMaterial,
+  Color3,
+  Vector3,
+  Observable,
+  Observer,
+  Nullable
+} from '@babylonjs/core';
+import {
+  AdvancedDynamicTexture,
+  Button,
+  Control,
+  Rectangle,
+  StackPanel,
+  TextBlock
+} from '@babylonjs/gui';
+
+const FADE_TIME = 0.4;      // Seconds to fade to or from black
+const NOTICE_TIME = 5;      // Seconds a load warning stays up once the world is in
+const FADE_DIAMETER = 4;    // Black sphere round the camera that the world fades behind (m)
+const VR_DISTANCE = 1.5;    // How far in front of the player the VR panel floats, inside the sphere (m)
+const VR_PANEL_SIZE = 1.2;  // Width of the VR panel (m)
+
+// One copy of the panel; the desktop and VR screens each have their own
+interface LoadingPanel {
+  root: Rectangle;
+  title: TextBlock;
+  bar: Rectangle;
+  fill: Rectangle;
+  message: TextBlock;
+  button: Button;
+}
+
+/**
+ * Covers world loading: fades the view to black, shows the load's progress
+ * with a Cancel button, and fades back in once the world is ready. In VR the
+ * panel floats in front of the player instead of on the screen. Load errors
+ * and warnings are shown here rather than in browser alerts.
+ */
+export class LoadingScreen {
+  private scene: Scene;
+  private gui: AdvancedDynamicTexture;
+  private panel: LoadingPanel;
+  private vrMesh?: Mesh;
+  private vrTexture?: AdvancedDynamicTexture;
+  private vrPanel?: LoadingPanel;
+  private fade: Mesh;
+  private fadeMaterial: StandardMaterial;
+  private fadeObserver: Nullable<Observer<Scene>> = null;
+  private fadeDone?: () => void;
+  private noticeTimer?: ReturnType<typeof setTimeout>;
+  private onButton: () => void = () => this.onCancelObservable.notifyObservers();
+
+  readonly onCancelObservable = new Observable<void>();
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+
+    this.fade = MeshBuilder.CreateSphere('loadingFade', {
+      diameter: FADE_DIAMETER,
+      segments: 8,
+      sideOrientation: Mesh.BACKSIDE
+    }, scene);
+    this.fadeMaterial = new StandardMaterial('loadingFadeMaterial', scene);
+    this.fadeMaterial.diffuseColor = Color3.Black();
+    this.fadeMaterial.specularColor = Color3.Black();
+    this.fadeMaterial.disableLighting = true;
+    this.fadeMaterial.alpha = 0;
+    this.fade.material = this.fadeMaterial;
+    this.fade.applyFog = false;
+    this.fade.isPickable = false;
+    this.fade.renderingGroupId = 2;
+    this.fade.setEnabled(false);
+
+    this.gui = AdvancedDynamicTexture.CreateFullscreenUI('Loading');
+    this.panel = this.createPanel(this.gui, 1);
+    this.panel.root.isVisible = false;
+  }
+
+  get isVisible(): boolean {
+    return this.panel.root.isVisible || !!this.vrMesh;
+  }
+
+  // Fades to black and shows the panel; resolves once the world is hidden
+  async show(title: string, vr: boolean): Promise<void> {
+    this.clearNotice();
+    this.onButton = () => this.onCancelObservable.notifyObservers();
+    this.panel.root.isVisible = !vr;
+    if (vr) this.createVRPanel();
+    this.eachPanel(panel => {
+      panel.root.verticalAlignment = Control.VERTICAL_ALIGNMENT_CENTER;
+      panel.title.isVisible = true;
+      panel.title.text = title;
+      panel.bar.isVisible = true;
+      panel.button.isVisible = true;
+      panel.button.textBlock!.text = 'Cancel';
+    });
+    this.setProgress({ fraction: 0, message: '' });
+    await this.fadeTo(1);
+  }
+
+  // A fraction below 0 means the size of the load isn't known yet
+  setProgress({ fraction, message }: { fraction: number; message: string }): void {
+    this.eachPanel(panel => {
+      panel.fill.isVisible = fraction >= 0;
+      panel.fill.width = `${Math.round(Math.min(1, Math.max(0, fraction)) * 100)}%`;
+      panel.message.text = message;
+    });
+  }
+
+  // Keeps the screen up with the error until the player goes back
+  showError(message: string, onBack: () => void): void {
+    this.onButton = onBack;
+    this.eachPanel(panel => {
+      panel.title.text = "Couldn't load the world";
+      panel.bar.isVisible = false;
+      panel.message.text = message;
+      panel.button.textBlock!.text = 'Back to menu';
+    });
+  }
+
+  // Fades the world in. A notice, like a fallback world warning, stays on screen for a while.
+  async hide(notice?: string): Promise<void> {
+    this.clearNotice();
+    if (notice) {
+      this.eachPanel(panel => {
+        panel.root.verticalAlignment = Control.VERTICAL_ALIGNMENT_TOP;
+        panel.title.isVisible = false;
+        panel.bar.isVisible = false;
+        panel.button.isVisible = false;
+        panel.message.text = notice;
+      });
+      this.noticeTimer = setTimeout(() => this.hidePanels(), NOTICE_TIME * 1000);
+    } else {
+      this.hidePanels();
+    }
+    await this.fadeTo(0);
+  }
+
+  dispose(): void {
+    this.clearNotice();
+    this.hidePanels();
+    this.stopFade();
+    this.onCancelObservable.clear();
+    this.gui.dispose();
+    this.fadeMaterial.dispose();
+    this.fade.dispose();
+  }
+
+  private createPanel(texture: AdvancedDynamicTexture, scale: number): LoadingPanel {
+    const root = new Rectangle('loadingPanel');
+    root.width = `${420 * scale}px`;
+    root.adaptHeightToChildren = true;
+    root.thickness = 0;
+    root.cornerRadius = 10 * scale;
+    root.background = "rgba(0, 0, 0, 0.7)";
+    root.top = `${20 * scale}px`;
+    texture.addControl(root);
+
+    const stack = new StackPanel();
+    stack.paddingTop = `${16 * scale}px`;
+    stack.paddingBottom = `${16 * scale}px`;
+    root.addControl(stack);
+
+    const title = new TextBlock();
+    title.color = "white";
+    title.fontSize = 24 * scale;
+    title.height = `${40 * scale}px`;
+    stack.addControl(title);
+
+    const bar = new Rectangle('loadingBar');
+    bar.width = `${360 * scale}px`;
+    bar.height = `${14 * scale}px`;
+    bar.thickness = 1;
+    bar.color = "white";
+    bar.background = "rgba(255, 255, 255, 0.1)";
+    stack.addControl(bar);
+
+    const fill = new Rectangle('loadingFill');
+    fill.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+    fill.thickness = 0;
+    fill.background = "#87ceeb";
+    bar.addControl(fill);
+
+    const message = new TextBlock();
+    message.color = "white";
+    message.fontSize = 16 * scale;
+    message.height = `${60 * scale}px`;
+    message.textWrapping = true;
+    message.paddingLeft = `${16 * scale}px`;
+    message.paddingRight = `${16 * scale}px`;
+    stack.addControl(message);
+
+    const button = Button.CreateSimpleButton('loadingButton', 'Cancel');
+    button.width = `${160 * scale}px`;
+    button.height = `${40 * scale}px`;
+    button.color = "white";
+    button.fontSize = 18 * scale;
+    button.background = "#4a4a4a";
+    button.onPointerClickObservable.add(() => this.onButton());
+    stack.addControl(button);
+
+    return { root, title, bar, fill, message, button };
+  }
+
+  // Placed once in front of the player rather than following their head
+  private createVRPanel(): void {
+    const camera = this.scene.activeCamera;
+    if (this.vrMesh || !camera) return;
+
+    this.vrMesh = MeshBuilder.CreatePlane('loadingVRPanel', {
+      width: VR_PANEL_SIZE,
+      height: VR_PANEL_SIZE / 2,
+      sideOrientation: Mesh.DOUBLESIDE
+    }, this.scene);
+    const forward = camera.getForwardRay(1).direction;
+    forward.y = 0;
+    if (forward.lengthSquared() < 0.01) forward.set(0, 0, 1);
+    this.vrMesh.position = camera.globalPosition.add(forward.normalize().scale(VR_DISTANCE));
+    this.vrMesh.lookAt(camera.globalPosition);
+    this.vrMesh.rotation.y += Math.PI;
+    this.vrMesh.renderingGroupId = 3;
+    this.vrMesh.applyFog = false;
+
+    this.vrTexture = AdvancedDynamicTexture.CreateForMesh(this.vrMesh, 1024, 512, false);
+    this.vrPanel = this.createPanel(this.vrTexture, 2);
+    this.vrPanel.root.width = "100%";
+  }
+
+  private hidePanels(): void {
+    this.panel.root.isVisible = false;
+    this.vrTexture?.dispose();
+    this.vrMesh?.dispose();
+    this.vrTexture = undefined;
+    this.vrMesh = undefined;
+    this.vrPanel = undefined;
+  }
+
+  private eachPanel(update: (panel: LoadingPanel) => void): void {
+    update(this.panel);
+    if (this.vrPanel) update(this.vrPanel);
+  }
+
+  private clearNotice(): void {
+    if (this.noticeTimer !== undefined) {
+      clearTimeout(this.noticeTimer);
+      this.noticeTimer = undefined;
+    }
+  }
+
+  // The sphere follows whichever camera is in use, including the XR one.
+  // Without a camera there's nothing to see, so the fade finishes at once.
+  private fadeTo(alpha: number): Promise<void> {
+    this.stopFade();
+    const camera = this.scene.activeCamera;
+    if (!camera) {
+      this.fadeMaterial.alpha = alpha;
+      this.fade.setEnabled(alpha > 0);
+      return Promise.resolve();
+    }
+
+    this.fade.parent = camera;
+    this.fade.position = Vector3.Zero();
+    this.fade.setEnabled(true);
+    return new Promise(resolve => {
+      this.fadeDone = resolve;
+      this.fadeObserver = this.scene.onBeforeRenderObservable.add(() => {
+        const step = this.scene.getEngine().getDeltaTime() / 1000 / FADE_TIME;
+        const current = this.fadeMaterial.alpha;
+        this.fadeMaterial.alpha = alpha > current ? Math.min(alpha, current + step) : Math.max(alpha, current - step);
+        if (this.fadeMaterial.alpha === alpha) {
+          this.fade.setEnabled(alpha > 0);
+          this.stopFade();
+        }
+      });
+    });
+  }
+
+  // Ends the running fade where it is; whoever was waiting on it carries on
+  private stopFade(): void {
+    this.scene.onBeforeRenderObservable.remove(this.fadeObserver);
+    this.fadeObserver = null;
+    const done = this.fadeDone;
+    this.fadeDone = undefined;
+    done?.();
+  }
+}
@@ -1,21 +1,60 @@
-import { AdvancedDynamicTexture, StackPanel, Button, TextBlock, Checkbox } from '@babylonjs/gui';
+import { Observer } from '@babylonjs/core';
+import { AdvancedDynamicTexture, StackPanel, Button, TextBlock, Checkbox, Image } from '@babylonjs/gui';
+import { WorldRegistry, WorldDefinition } from '../game/worlds';
+import { SaveManager, SaveSnapshot, AUTOSAVE_SLOT } from '../save/SaveManager';
+import { SettingsManager } from '../settings/SettingsManager';
+import { SettingsMenu } from './SettingsMenu';
+import { BindingsMenu } from './BindingsMenu';
+import { InputActions } from '../controls/InputActions';
 
 export class MainMenu {
   private gui: AdvancedDynamicTexture;
   private container: StackPanel;
+  private slotPanel: StackPanel;
   private onWorldSelected: (worldName: string, useTeleport: boolean) => void;
+  private onLoadSave: (snapshot: SaveSnapshot) => void;
+  private settingsMenu: SettingsMenu;
+  private bindingsMenu: BindingsMenu;
+  private inputs: InputActions;
+  private instructions?: TextBlock;
+  private bindingsObserver: Observer<void> | null;
+  private saveManager: SaveManager;
   private teleportCheckbox?: Checkbox;
   
-  constructor(onWorldSelected: (worldName: string, useTeleport: boolean) => void) {
+  constructor(
+    onWorldSelected: (worldName: string, useTeleport: boolean) => void,
+    saveManager: SaveManager,
+    onLoadSave: (snapshot: SaveSnapshot) => void,
+    settings: SettingsManager,
+    inputs: InputActions
+  ) {
     this.onWorldSelected = onWorldSelected;
+    this.saveManager = saveManager;
+    this.onLoadSave = onLoadSave;
+    this.inputs = inputs;
     this.gui = AdvancedDynamicTexture.CreateFullscreenUI('MainMenu');
     this.container = new StackPanel();
+    this.slotPanel = new StackPanel();
+    this.settingsMenu = new SettingsMenu(settings, () => this.showPage(this.container), 1, () => {
+      this.showPage(this.bindingsMenu.panel);
+    });
+    this.bindingsMenu = new BindingsMenu(inputs, () => this.showPage(this.settingsMenu.panel));
     this.setupMenu();
+    this.setupSlotPanel();
+    this.setupPage(this.settingsMenu.panel);
+    this.setupPage(this.bindingsMenu.panel);
+    
+    // Help text is generated from the bindings, so keep it current while rebinding
+    this.bindingsObserver = inputs.onBindingsChangedObservable.add(() => this.updateInstructions());
   }
   
   private setupMenu(): void {
+    const worlds = WorldRegistry.getAll();
+    const latest = this.saveManager.getLatest();
+    
     this.container.width = "400px";
-    this.container.height = "500px";
+    // Base height covers title, VR options and instructions; each world adds a button row
+    this.container.height = `${470 + worlds.length * 80 + (latest ? 70 : 0)}px`;
     this.container.paddingTop = "50px";
     this.container.paddingBottom = "50px";
     this.container.background = "rgba(0, 0, 0, 0.8)";
@@ -30,6 +69,21 @@ export class MainMenu {
     title.paddingBottom = "20px";
     this.container.addControl(title);
     
+    // Continue the most recent save, or browse all of them
+    if (latest) {
+      const savesRow = new StackPanel();
+      savesRow.isVertical = false;
+      savesRow.width = "350px";
+      savesRow.height = "70px";
+      savesRow.paddingBottom = "10px";
+      savesRow.addControl(this.createMenuButton('btn-continue', 'Continue', '230px', () => {
+        this.hide();
+        this.onLoadSave(latest);
+      }));
+      savesRow.addControl(this.createMenuButton('btn-saves', 'Saves', '120px', () => this.showSlots()));
+      this.container.addControl(savesRow);
+    }
+    
     const subtitle = new TextBlock();
     subtitle.text = "Choose Your World";
     subtitle.color = "#87ceeb";
@@ -38,33 +92,140 @@ export class MainMenu {
     subtitle.paddingBottom = "30px";
     this.container.addControl(subtitle);
     
-    // World buttons
-    this.createWorldButton(
-      "Low Poly World",
-      "Explore a cozy house with multiple rooms",
-      "low-poly"
-    );
-    
-    this.createWorldButton(
-      "Home",
-      "Photogrammetry scan",
-      "home"
-    );
+    // World buttons, one per registered world
+    worlds.forEach(world => this.createWorldButton(world));
     
     // VR Options
     this.createVROptions();
     
+    const settingsButton = this.createMenuButton('btn-settings', 'Settings', '350px', () => this.showPage(this.settingsMenu.panel));
+    settingsButton.paddingTop = "10px";
+    settingsButton.height = "60px";
+    this.container.addControl(settingsButton);
+    
     // Instructions
-    const instructions = new TextBlock();
-    instructions.text = "Controls:\nWASD/Arrows: Move | Mouse: Look\nZ/X: Rotate | Shift: Run\n1: FPV | 2: Follow";
+    const instructions = this.instructions = new TextBlock();
+    this.updateInstructions();
     instructions.color = "#cccccc";
     instructions.fontSize = 14;
-    instructions.height = "100px";
+    instructions.height = "170px";
     instructions.textWrapping = true;
     instructions.paddingTop = "30px";
     this.container.addControl(instructions);
   }
   
+  private setupSlotPanel(): void {
+    this.slotPanel.width = "400px";
+    this.slotPanel.paddingTop = "30px";
+    this.slotPanel.paddingBottom = "30px";
+    this.slotPanel.background = "rgba(0, 0, 0, 0.8)";
+    this.slotPanel.isVisible = false;
+    this.gui.addControl(this.slotPanel);
+  }
+  
+  private updateInstructions(): void {
+    if (this.instructions) {
+      this.instructions.text = `Controls:\n${this.inputs.getHelpLines().join('\n')}`;
+    }
+  }
+  
+  private setupPage(page: StackPanel): void {
+    page.width = "400px";
+    page.background = "rgba(0, 0, 0, 0.8)";
+    page.isVisible = false;
+    this.gui.addControl(page);
+  }
+  
+  // Shows one page (world list, save slots, settings or key bindings) and hides the rest
+  private showPage(page: StackPanel): void {
+    [this.container, this.slotPanel, this.settingsMenu.panel, this.bindingsMenu.panel].forEach(panel => {
+      panel.isVisible = panel === page;
+    });
+  }
+  
+  private showSlots(): void {
+    this.buildSlotRows();
+    this.showPage(this.slotPanel);
+  }
+  
+  private buildSlotRows(): void {
+    this.slotPanel.clearControls();
+    const slots = this.saveManager.list();
+    const hasAutosave = slots.some(({ slot, snapshot }) => slot === AUTOSAVE_SLOT && snapshot);
+    this.slotPanel.height = `${160 + slots.length * 70}px`;
+    
+    const title = new TextBlock();
+    title.text = "Saved Games";
+    title.color = "white";
+    title.fontSize = 32;
+    title.height = "60px";
+    this.slotPanel.addControl(title);
+    
+    slots.forEach(({ slot, snapshot }) => {
+      const row = new StackPanel();
+      row.isVertical = false;
+      row.width = "350px";
+      row.height = "70px";
+      row.paddingBottom = "10px";
+      
+      const summary = new TextBlock();
+      const name = slot === AUTOSAVE_SLOT ? 'Autosave' : slot.replace('slot-', 'Slot ');
+      summary.text = snapshot
+        ? `${name}\n${WorldRegistry.get(snapshot.worldId)?.title ?? snapshot.worldId}, ${new Date(snapshot.savedAt).toLocaleString()}`
+        : `${name}\nEmpty`;
+      summary.color = snapshot ? "white" : "#888888";
+      summary.fontSize = 13;
+      summary.width = "210px";
+      summary.textHorizontalAlignment = TextBlock.HORIZONTAL_ALIGNMENT_LEFT;
+      row.addControl(summary);
+      
+      if (snapshot) {
+        row.addControl(this.createMenuButton(`btn-load-${slot}`, 'Load', '70px', () => {
+          this.hide();
+          this.onLoadSave(snapshot);
+        }));
+      }
+      // Manual slots can also keep a copy of the last session, which is always in the autosave
+      if (slot !== AUTOSAVE_SLOT && hasAutosave) {
+        row.addControl(this.createMenuButton(`btn-save-${slot}`, 'Save', '70px', () => {
+          this.saveManager.copy(AUTOSAVE_SLOT, slot);
+          this.buildSlotRows();
+        }));
+      }
+      this.slotPanel.addControl(row);
+    });
+    
+    const back = this.createMenuButton('btn-slots-back', 'Back', '350px', () => this.showPage(this.container));
+    back.height = "60px";
+    back.paddingTop = "10px";
+    this.slotPanel.addControl(back);
+  }
+  
+  private createMenuButton(name: string, text: string, width: string, onClick: () => void): Button {
+    const button = Button.CreateSimpleButton(name, text);
+    button.width = width;
+    button.height = "60px";
+    button.color = "white";
+    button.background = "#4169E1";
+    button.cornerRadius = 10;
+    button.thickness = 0;
+    button.paddingLeft = "5px";
+    button.paddingRight = "5px";
+    button.fontSize = 18;
+    button.hoverCursor = "pointer";
+    
+    button.onPointerEnterObservable.add(() => {
+      button.background = "#5179F1";
+    });
+    
+    button.onPointerOutObservable.add(() => {
+      button.background = "#4169E1";
+    });
+    
+    button.onPointerClickObservable.add(onClick);
+    return button;
+  }
+  
   private createVROptions(): void {
     // VR Options panel
     const vrPanel = new StackPanel();
@@ -96,8 +257,8 @@ export class MainMenu {
     this.container.addControl(vrPanel);
   }
   
-  private createWorldButton(title: string, description: string, worldId: string): void {
-    const button = Button.CreateSimpleButton(`btn-${worldId}`, "");
+  private createWorldButton(world: WorldDefinition): void {
+    const button = Button.CreateSimpleButton(`btn-${world.id}`, "");
     button.width = "350px";
     button.height = "80px";
     button.color = "white";
@@ -113,15 +274,25 @@ export class MainMenu {
     panel.isVertical = true;
     button.addControl(panel);
     
+    if (world.thumbnail) {
+      const thumbnail = new Image(`thumb-${world.id}`, world.thumbnail);
+      thumbnail.width = "60px";
+      thumbnail.height = "60px";
+      thumbnail.stretch = Image.STRETCH_UNIFORM;
+      thumbnail.horizontalAlignment = Image.HORIZONTAL_ALIGNMENT_LEFT;
+      thumbnail.left = "10px";
+      button.addControl(thumbnail);
+    }
+    
     const btnTitle = new TextBlock();
-    btnTitle.text = title;
+    btnTitle.text = world.title;
     btnTitle.color = "white";
     btnTitle.fontSize = 20;
     btnTitle.height = "30px";
     panel.addControl(btnTitle);
     
     const btnDesc = new TextBlock();
-    btnDesc.text = description;
+    btnDesc.text = world.description;
     btnDesc.color = "#e0e0e0";
     btnDesc.fontSize = 14;
     btnDesc.height = "25px";
@@ -138,7 +309,7 @@ export class MainMenu {
     button.onPointerClickObservable.add(() => {
       this.hide();
       const useTeleport = this.teleportCheckbox?.isChecked || false;
-      this.onWorldSelected(worldId, useTeleport);
+      this.onWorldSelected(world.id, useTeleport);
     });
     
     this.container.addControl(button);
@@ -146,6 +317,7 @@ export class MainMenu {
   
   show(): void {
     this.gui.rootContainer.isVisible = true;
+    this.showPage(this.container);
     // Add class to help identify menu state
     document.body.classList.add('main-menu-visible');
   }
@@ -157,6 +329,9 @@ export class MainMenu {
   }
   
   dispose(): void {
+    this.inputs.onBindingsChangedObservable.remove(this.bindingsObserver);
+    this.settingsMenu.dispose();
+    this.bindingsMenu.dispose();
     this.gui.dispose();
   }
 }
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { Observer } from '@babylonjs/core';
+import { AdvancedDynamicTexture, StackPanel, TextBlock, Control } from '@babylonjs/gui';
+import { PhotoMode, PhotoModeState } from '../game/PhotoMode';
+import { InputActions, InputAction } from '../controls/InputActions';
+
+// Page elements that are hidden along with the overlay
+const GAME_UI_IDS = ['info', 'crosshair'];
+
+/**
+ * Photo mode's on-screen help: the current filter and depth of field, and the
+ * keys for everything. Hides itself, and the game's own UI, when the player
+ * hides the UI or a photo is being taken.
+ */
+export class PhotoModeOverlay {
+  private gui: AdvancedDynamicTexture;
+  private panel: StackPanel;
+  private lines: TextBlock[] = [];
+  private photoMode: PhotoMode;
+  private inputs: InputActions;
+  private observer: Observer<PhotoModeState> | null;
+  private hiddenElements: HTMLElement[] = [];
+
+  constructor(photoMode: PhotoMode, inputs: InputActions) {
+    this.photoMode = photoMode;
+    this.inputs = inputs;
+    this.gui = AdvancedDynamicTexture.CreateFullscreenUI('PhotoMode');
+
+    this.panel = new StackPanel('photoModePanel');
+    this.panel.width = "320px";
+    this.panel.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+    this.panel.verticalAlignment = Control.VERTICAL_ALIGNMENT_BOTTOM;
+    this.panel.left = "20px";
+    this.panel.top = "-20px";
+    this.panel.paddingTop = "10px";
+    this.panel.paddingBottom = "10px";
+    this.panel.background = "rgba(0, 0, 0, 0.6)";
+    this.gui.addControl(this.panel);
+
+    const title = new TextBlock();
+    title.text = "Photo Mode";
+    title.color = "white";
+    title.fontSize = 22;
+    title.height = "34px";
+    this.panel.addControl(title);
+
+    for (let i = 0; i < 7; i++) {
+      const line = new TextBlock();
+      line.color = i < 2 ? "#87ceeb" : "white";
+      line.fontSize = 14;
+      line.height = "22px";
+      line.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+      line.paddingLeft = "16px";
+      this.panel.addControl(line);
+      this.lines.push(line);
+    }
+
+    this.observer = photoMode.onChangedObservable.add(state => this.refresh(state));
+    this.refresh(photoMode.state);
+  }
+
+  private refresh(state: PhotoModeState): void {
+    const visible = state.active && !state.uiHidden && !state.capturing;
+    this.gui.rootContainer.isVisible = visible;
+    this.setGameUIVisible(!state.active || !state.uiHidden);
+    if (!visible) return;
+
+    const key = (action: InputAction) => this.inputs.describe(action);
+    const text = [
+      `Filter: ${state.filter}`,
+      `Depth of field: ${state.depthOfField ? 'on' : 'off'}`,
+      `Move keys: fly, ${key('Jump')}/${key('Crouch')}: up/down`,
+      `Mouse: look, Wheel: zoom, ${key('Run')}: faster`,
+      `${key('Interact')}: take photo, ${key('PhotoFilter')}: filter`,
+      `${key('DepthOfField')}: depth of field, ${key('HideUI')}: hide UI`,
+      `${key('PhotoMode')}: back to the game`
+    ];
+    this.lines.forEach((line, index) => {
+      line.text = text[index];
+    });
+  }
+
+  // The info panel and crosshair are page elements, so hidden separately from the overlay
+  private setGameUIVisible(visible: boolean): void {
+    if (visible) {
+      this.hiddenElements.forEach(element => {
+        element.style.visibility = '';
+      });
+      this.hiddenElements = [];
+      return;
+    }
+    GAME_UI_IDS.forEach(id => {
+      const element = document.getElementById(id);
+      if (element && !this.hiddenElements.includes(element)) {
+        element.style.visibility = 'hidden';
+        this.hiddenElements.push(element);
+      }
+    });
+  }
+
+  dispose(): void {
+    this.photoMode.onChangedObservable.remove(this.observer);
+    this.observer = null;
+    this.gui.dispose();
+  }
+}
@@ -0,0 +1,198 @@
+import { Observer } from '@babylonjs/core';
+import { StackPanel, TextBlock, Slider, Checkbox, Button, Control } from '@babylonjs/gui';
+import {
+  SettingsManager,
+  SettingsChange,
+  SETTING_RANGES,
+  SHADOW_QUALITIES,
+  getSettingRange,
+  ShadowQuality
+} from '../settings/SettingsManager';
+
+type NumericKey = keyof typeof SETTING_RANGES;
+type BooleanKey = 'invertY' | 'fog' | 'realTimeOfDay';
+
+/**
+ * Settings panel shared by the main menu and the VR menu. Every control writes
+ * straight to the SettingsManager, so changes apply live while the panel is open.
+ * `scale` enlarges the layout for the higher-resolution VR menu texture, and
+ * `onControls` adds a button to the key bindings page where one exists.
+ */
+export class SettingsMenu {
+  readonly panel: StackPanel;
+  private settings: SettingsManager;
+  private scale: number;
+  private refreshers: (() => void)[] = [];
+  private observer: Observer<SettingsChange> | null;
+
+  constructor(settings: SettingsManager, onBack: () => void, scale: number = 1, onControls?: () => void) {
+    this.settings = settings;
+    this.scale = scale;
+
+    this.panel = new StackPanel('settingsMenu');
+    this.panel.width = this.px(360);
+    this.panel.paddingTop = this.px(20);
+    this.panel.paddingBottom = this.px(20);
+
+    const title = new TextBlock();
+    title.text = "Settings";
+    title.color = "white";
+    title.fontSize = 32 * scale;
+    title.height = this.px(50);
+    this.panel.addControl(title);
+
+    this.addSlider('mouseSensitivity', 'Mouse sensitivity', value => `${value.toFixed(2)}x`);
+    this.addCheckbox('invertY', 'Invert mouse Y');
+    this.addSlider('fov', 'Field of view', value => `${Math.round(value)}°`);
+    this.addSlider('renderScale', 'Render scale', value => `${value.toFixed(1)}x`);
+    this.addChoice('shadowQuality', 'Shadows', SHADOW_QUALITIES);
+    this.addCheckbox('fog', 'Fog');
+    this.addSlider('fogStart', 'Fog start', value => `${Math.round(value)} m`);
+    this.addSlider('fogEnd', 'Fog end', value => `${Math.round(value)} m`);
+    this.addSlider('dayLength', 'Day length', value => `${Math.round(value)} min`);
+    this.addCheckbox('realTimeOfDay', 'Use real time of day');
+    this.addSlider('masterVolume', 'Master volume', value => `${Math.round(value * 100)}%`);
+    this.addSlider('musicVolume', 'Music volume', value => `${Math.round(value * 100)}%`);
+    this.addSlider('effectsVolume', 'Effects volume', value => `${Math.round(value * 100)}%`);
+    this.addSlider('ambienceVolume', 'Ambience volume', value => `${Math.round(value * 100)}%`);
+    this.addSlider('gamepadDeadZone', 'Stick dead zone', value => `${Math.round(value * 100)}%`);
+    this.addSlider('gamepadLookSpeed', 'Stick look speed', value => `${value.toFixed(2)}x`);
+    this.addSlider('gamepadCurve', 'Stick response', value => value.toFixed(1));
+
+    if (onControls) {
+      const controls = this.createButton('Controls', '#4169E1', onControls);
+      controls.width = this.px(340);
+      controls.paddingTop = this.px(10);
+      this.panel.addControl(controls);
+    }
+
+    const buttons = new StackPanel();
+    buttons.isVertical = false;
+    buttons.height = this.px(60);
+    buttons.paddingTop = this.px(10);
+    buttons.addControl(this.createButton('Reset', '#666666', () => this.settings.reset()));
+    buttons.addControl(this.createButton('Back', '#4169E1', onBack));
+    this.panel.addControl(buttons);
+
+    // Keep the controls in sync when settings change elsewhere (e.g. Reset)
+    this.observer = this.settings.onChangedObservable.add(() => {
+      this.refreshers.forEach(refresh => refresh());
+    });
+  }
+
+  private addSlider(key: NumericKey, label: string, format: (value: number) => string): void {
+    const { min, max, step } = getSettingRange(key);
+    const row = this.createRow();
+    const text = this.createLabel(row);
+
+    const slider = new Slider();
+    slider.minimum = min;
+    slider.maximum = max;
+    slider.step = step;
+    slider.width = this.px(170);
+    slider.height = this.px(20);
+    slider.color = "#4169E1";
+    slider.background = "#333333";
+    slider.thumbWidth = this.px(20);
+    slider.onValueChangedObservable.add((value) => {
+      this.settings.set(key, value);
+      text.text = `${label}: ${format(this.settings.get()[key])}`;
+    });
+    row.addControl(slider);
+
+    const refresh = () => {
+      slider.value = this.settings.get()[key];
+      text.text = `${label}: ${format(this.settings.get()[key])}`;
+    };
+    refresh();
+    this.refreshers.push(refresh);
+  }
+
+  private addCheckbox(key: BooleanKey, label: string): void {
+    const row = this.createRow();
+    const text = this.createLabel(row);
+    text.text = label;
+
+    const checkbox = new Checkbox();
+    checkbox.width = this.px(20);
+    checkbox.height = this.px(20);
+    checkbox.color = "white";
+    checkbox.background = "#4169E1";
+    checkbox.onIsCheckedChangedObservable.add((checked) => {
+      this.settings.set(key, checked);
+    });
+    row.addControl(checkbox);
+
+    const refresh = () => {
+      checkbox.isChecked = this.settings.get()[key];
+    };
+    refresh();
+    this.refreshers.push(refresh);
+  }
+
+  // Button that cycles through a fixed list of options
+  private addChoice(key: 'shadowQuality', label: string, options: ShadowQuality[]): void {
+    const row = this.createRow();
+    const text = this.createLabel(row);
+    text.text = label;
+
+    const button = this.createButton('', '#4169E1', () => {
+      const index = options.indexOf(this.settings.get()[key]);
+      this.settings.set(key, options[(index + 1) % options.length]);
+    });
+    button.height = this.px(34);
+    button.paddingTop = "0px";
+    row.addControl(button);
+
+    const refresh = () => {
+      const value = this.settings.get()[key];
+      button.textBlock!.text = value.charAt(0).toUpperCase() + value.slice(1);
+    };
+    refresh();
+    this.refreshers.push(refresh);
+  }
+
+  private createRow(): StackPanel {
+    const row = new StackPanel();
+    row.isVertical = false;
+    row.height = this.px(36);
+    this.panel.addControl(row);
+    return row;
+  }
+
+  private createLabel(row: StackPanel): TextBlock {
+    const text = new TextBlock();
+    text.color = "#cccccc";
+    text.fontSize = 16 * this.scale;
+    text.width = this.px(180);
+    text.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+    row.addControl(text);
+    return text;
+  }
+
+  private createButton(text: string, background: string, onClick: () => void): Button {
+    const button = Button.CreateSimpleButton(`settings-${text || 'choice'}`, text);
+    button.width = this.px(170);
+    button.height = this.px(50);
+    button.color = "white";
+    button.fontSize = 18 * this.scale;
+    button.background = background;
+    button.cornerRadius = 10 * this.scale;
+    button.thickness = 0;
+    button.paddingLeft = this.px(5);
+    button.paddingRight = this.px(5);
+    button.hoverCursor = "pointer";
+    button.onPointerClickObservable.add(onClick);
+    return button;
+  }
+
+  private px(value: number): string {
+    return `${Math.round(value * this.scale)}px`;
+  }
+
+  dispose(): void {
+    this.settings.onChangedObservable.remove(this.observer);
+    this.refreshers = [];
+    this.panel.dispose();
+  }
+}
@@ -14,16 +14,24 @@ import {
   TextBlock,
   StackPanel
 } from '@babylonjs/gui';
+import { SettingsManager } from '../settings/SettingsManager';
+import { SettingsMenu } from './SettingsMenu';
+
+// The shared settings panel is scaled to fit its whole height on the 768 px VR menu texture
+const SETTINGS_SCALE = 0.95;
 
 export class VRMenu {
   private scene: Scene;
+  private settings: SettingsManager;
   private menuMesh?: Mesh;
   private menuGroup?: TransformNode;
   private advancedTexture?: AdvancedDynamicTexture;
+  private settingsMenu?: SettingsMenu;
   private isVisible: boolean = false;
   
-  constructor(scene: Scene) {
+  constructor(scene: Scene, settings: SettingsManager) {
     this.scene = scene;
+    this.settings = settings;
     this.setupEventListeners();
   }
   
@@ -106,6 +114,23 @@ export class VRMenu {
     
     panel.addControl(backButton);
     
+    // Settings button, swaps the panel for the settings page
+    const settingsButton = Button.CreateSimpleButton('settingsBtn', 'Settings');
+    settingsButton.width = "600px";
+    settingsButton.height = "120px";
+    settingsButton.color = "white";
+    settingsButton.fontSize = 48;
+    settingsButton.background = "#4169E1";
+    settingsButton.cornerRadius = 20;
+    settingsButton.thickness = 0;
+    settingsButton.paddingTop = "30px";
+    
+    settingsButton.onPointerClickObservable.add(() => {
+      this.showSettings(panel);
+    });
+    
+    panel.addControl(settingsButton);
+    
     // Cancel button
     const cancelButton = Button.CreateSimpleButton('cancelBtn', 'Cancel');
     cancelButton.width = "600px";
@@ -135,9 +160,27 @@ export class VRMenu {
     this.isVisible = true;
   }
   
+  private showSettings(panel: StackPanel): void {
+    if (!this.advancedTexture || this.settingsMenu) return;
+    
+    panel.isVisible = false;
+    this.settingsMenu = new SettingsMenu(this.settings, () => {
+      this.settingsMenu?.dispose();
+      this.settingsMenu = undefined;
+      panel.isVisible = true;
+    }, SETTINGS_SCALE);
+    this.settingsMenu.panel.background = "rgba(0, 0, 0, 0.9)";
+    this.advancedTexture.addControl(this.settingsMenu.panel);
+  }
+  
   hide(): void {
     if (!this.isVisible) return;
     
+    if (this.settingsMenu) {
+      this.settingsMenu.dispose();
+      this.settingsMenu = undefined;
+    }
+    
     if (this.advancedTexture) {
       this.advancedTexture.dispose();
       this.advancedTexture = undefined;
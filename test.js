@@ -1,5 +1,7 @@
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname, basename } from 'path';
+import { pathToFileURL } from 'url';
+import ts from 'typescript';
 
 console.log('🎮 Bean Simulator Test Suite');
 console.log('============================\n');
@@ -7,9 +9,9 @@ console.log('============================\n');
 let testsPass = 0;
 let testsFail = 0;
 
-function test(name, fn) {
+async function test(name, fn) {
   try {
-    fn();
+    await fn();
     console.log(`✅ ${name}`);
     testsPass++;
   } catch (error) {
@@ -24,14 +26,50 @@ function assert(condition, message) {
   }
 }
 
+// Transpiles a TypeScript module (and its relative imports) so it can be run
+// headlessly, e.g. against Babylon's NullEngine. Output lives under
+// node_modules/.cache so bare imports like '@babylonjs/core' still resolve.
+const TEST_BUILD_DIR = 'node_modules/.cache/bean-tests';
+
+function transpileForTest(sourcePath) {
+  const outPath = join(TEST_BUILD_DIR, sourcePath.replace(/\.(ts|json)$/, '.mjs'));
+  mkdirSync(dirname(outPath), { recursive: true });
+  
+  if (sourcePath.endsWith('.json')) {
+    writeFileSync(outPath, `export default ${readFileSync(sourcePath, 'utf8')};`);
+    return outPath;
+  }
+  
+  const { outputText } = ts.transpileModule(readFileSync(sourcePath, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 }
+  });
+  
+  const code = outputText.replace(/from '(\.{1,2}\/[^']+)'/g, (_match, specifier) => {
+    const resolved = join(dirname(sourcePath), specifier);
+    const dependency = existsSync(resolved) ? resolved : `${resolved}.ts`;
+    transpileForTest(dependency);
+    const target = join(dirname(specifier), basename(dependency)).replace(/\.(ts|json)$/, '.mjs');
+    return `from '${target.startsWith('.') ? target : `./${target}`}'`;
+  });
+  
+  writeFileSync(outPath, code);
+  return outPath;
+}
+
+async function loadTsModule(sourcePath) {
+  return import(pathToFileURL(transpileForTest(sourcePath)).href);
+}
+
 // Test 1: Check if all required files exist
-test('All source files exist', () => {
+await test('All source files exist', () => {
   const requiredFiles = [
     'src/main.ts',
     'src/game/Game.ts',
     'src/game/worlds/BaseWorld.ts',
     'src/game/worlds/LowPolyWorld.ts',
     'src/game/worlds/HomeWorld.ts',
+    'src/game/worlds/WorldRegistry.ts',
+    'src/game/worlds/index.ts',
     'src/game/Bean.ts',
     'src/controls/ControlsManager.ts',
     'src/ui/MainMenu.ts',
@@ -47,7 +85,7 @@ test('All source files exist', () => {
 });
 
 // Test 2: Check package.json has correct dependencies
-test('Package.json has Babylon.js dependencies', () => {
+await test('Package.json has Babylon.js dependencies', () => {
   const packageJson = JSON.parse(readFileSync('package.json', 'utf8'));
   assert(packageJson.dependencies['@babylonjs/core'], 'Missing @babylonjs/core');
   assert(packageJson.dependencies['@babylonjs/gui'], 'Missing @babylonjs/gui');
@@ -56,14 +94,14 @@ test('Package.json has Babylon.js dependencies', () => {
 });
 
 // Test 3: Check if TypeScript files have proper imports
-test('Game.ts imports Babylon.js correctly', () => {
+await test('Game.ts imports Babylon.js correctly', () => {
   const gameContent = readFileSync('src/game/Game.ts', 'utf8');
   assert(gameContent.includes("from '@babylonjs/core'"), 'Game.ts missing Babylon.js imports');
   assert(gameContent.includes('WebXRDefaultExperience'), 'Game.ts missing WebXR support');
 });
 
 // Test 4: Check if Bean character is properly defined
-test('Bean.ts has character model setup', () => {
+await test('Bean.ts has character model setup', () => {
   const beanContent = readFileSync('src/game/Bean.ts', 'utf8');
   assert(beanContent.includes('createBeanModel'), 'Bean missing model creation');
   assert(beanContent.includes('tail'), 'Bean missing tail');
@@ -72,13 +110,16 @@ test('Bean.ts has character model setup', () => {
 });
 
 // Test 5: Check if worlds have environment
-test('Worlds have proper environment setup', () => {
+await test('Worlds have proper environment setup', () => {
   const lowPolyContent = readFileSync('src/game/worlds/LowPolyWorld.ts', 'utf8');
-  assert(lowPolyContent.includes('createFloor'), 'LowPolyWorld missing floor');
-  assert(lowPolyContent.includes('createWalls'), 'LowPolyWorld missing walls');
-  assert(lowPolyContent.includes('createFurniture'), 'LowPolyWorld missing furniture');
-  assert(lowPolyContent.includes('couch'), 'LowPolyWorld missing couch');
-  assert(lowPolyContent.includes('piano'), 'LowPolyWorld missing piano');
+  assert(lowPolyContent.includes('extends DataWorld'), 'LowPolyWorld not built from a world description');
+  
+  const layout = JSON.parse(readFileSync('src/game/worlds/data/low-poly.json', 'utf8'));
+  const names = JSON.stringify(layout.objects);
+  assert(layout.objects.some(object => object.floor), 'LowPolyWorld missing floor');
+  assert(names.includes('Wall'), 'LowPolyWorld missing walls');
+  assert(names.includes('couch'), 'LowPolyWorld missing couch');
+  assert(names.includes('piano'), 'LowPolyWorld missing piano');
   
   const homeContent = readFileSync('src/game/worlds/HomeWorld.ts', 'utf8');
   assert(homeContent.includes('loadGLTFModel'), 'HomeWorld missing GLTF loader');
@@ -86,16 +127,18 @@ test('Worlds have proper environment setup', () => {
 });
 
 // Test 6: Check controls implementation
-test('ControlsManager.ts has desktop and VR controls', () => {
+await test('ControlsManager.ts has desktop and VR controls', () => {
   const controlsContent = readFileSync('src/controls/ControlsManager.ts', 'utf8');
   assert(controlsContent.includes('setupKeyboardControls'), 'Missing keyboard controls');
   assert(controlsContent.includes('setupMouseControls'), 'Missing mouse controls');
   assert(controlsContent.includes('setupVRController'), 'Missing VR controller support');
-  assert(controlsContent.includes("keys.get('w')"), 'Missing WASD key mapping');
+  assert(controlsContent.includes("isActive(positive)"), 'Movement not driven by input actions');
+  const actionsContent = readFileSync('src/controls/InputActions.ts', 'utf8');
+  assert(actionsContent.includes("'keyboard:w'"), 'Missing WASD key mapping');
 });
 
 // Test 7: Check HTML has required elements
-test('HTML has UI elements', () => {
+await test('HTML has UI elements', () => {
   const htmlContent = readFileSync('index.html', 'utf8');
   assert(htmlContent.includes('id="app"'), 'Missing app container');
   assert(htmlContent.includes('id="info"'), 'Missing info panel');
@@ -104,20 +147,1430 @@ test('HTML has UI elements', () => {
 });
 
 // Test 8: Check if build configuration is correct
-test('Vite config has HTTPS enabled', () => {
+await test('Vite config has HTTPS enabled', () => {
   const viteContent = readFileSync('vite.config.ts', 'utf8');
   assert(viteContent.includes('https: true'), 'HTTPS not enabled');
   assert(viteContent.includes('basicSsl'), 'SSL plugin not configured');
 });
 
 // Test 9: Check menu system
-test('MainMenu.ts has world selection', () => {
+await test('MainMenu.ts has world selection', () => {
   const menuContent = readFileSync('src/ui/MainMenu.ts', 'utf8');
-  assert(menuContent.includes('Low Poly World'), 'Menu missing Low Poly World');
-  assert(menuContent.includes('Home'), 'Menu missing Home');
+  assert(menuContent.includes('WorldRegistry.getAll()'), 'Menu not built from world registry');
   assert(menuContent.includes('onWorldSelected'), 'Menu missing world selection handler');
 });
 
+// Test 10: Check worlds register themselves
+await test('Worlds are registered with the world registry', () => {
+  const lowPolyContent = readFileSync('src/game/worlds/LowPolyWorld.ts', 'utf8');
+  assert(lowPolyContent.includes("id: 'low-poly'"), 'LowPolyWorld not registered');
+  assert(lowPolyContent.includes('Low Poly World'), 'LowPolyWorld missing menu title');
+  
+  const homeContent = readFileSync('src/game/worlds/HomeWorld.ts', 'utf8');
+  assert(homeContent.includes("id: 'home'"), 'HomeWorld not registered');
+  
+  const gameContent = readFileSync('src/game/Game.ts', 'utf8');
+  assert(gameContent.includes('WorldRegistry.create'), 'Game.loadWorld not using world registry');
+});
+
+// Test 11: Check world description validation
+await test('World descriptions are validated with readable errors', async () => {
+  const { parseSceneDescription, SceneDescriptionError } = await loadTsModule('src/game/worlds/SceneDescription.ts');
+  const layout = JSON.parse(readFileSync('src/game/worlds/data/low-poly.json', 'utf8'));
+  parseSceneDescription(layout, 'low-poly.json');
+  
+  const broken = {
+    version: 1,
+    name: 'Broken',
+    materials: { wall: { diffuse: [2, 0, 0] } },
+    spawnPoints: [{ name: 'default', position: [0, 0] }],
+    cameraPoints: [{ name: 'corner' }],
+    objects: [
+      { name: 'wall', type: 'box', material: 'brick', surface: 'lava' },
+      { name: 'wall', type: 'cone' },
+      { name: 'toys', type: 'group', camera: 'glass', interaction: { kind: 'carryable', label: 'toys' } },
+      { name: 'lamp', type: 'lamp', intensity: -1 }
+    ]
+  };
+  try {
+    parseSceneDescription(broken, 'broken.json');
+    assert(false, 'Broken description was accepted');
+  } catch (error) {
+    assert(error instanceof SceneDescriptionError, `Unexpected error: ${error.message}`);
+    const expected = ['materials.wall.diffuse', 'spawnPoints[0].position', 'objects[0].size',
+      'unknown material "brick"', 'duplicate object name "wall"', 'objects[1].type',
+      'objects[2].interaction.kind', 'objects[0].surface', 'objects[2].camera', 'cameraPoints[0].position',
+      'objects[3].intensity'];
+    for (const fragment of expected) {
+      assert(error.message.includes(fragment), `Error does not mention ${fragment}`);
+    }
+  }
+});
+
+// Test 12: Check data-driven worlds build headlessly
+await test('DataWorld builds the Low Poly layout', async () => {
+  const { NullEngine, Scene } = await import('@babylonjs/core');
+  const { DataWorld } = await loadTsModule('src/game/worlds/DataWorld.ts');
+  const { findSurface, guessSurface, tagSurfacesByName } = await loadTsModule('src/audio/Surfaces.ts');
+  const layout = JSON.parse(readFileSync('src/game/worlds/data/low-poly.json', 'utf8'));
+  
+  const scene = new Scene(new NullEngine());
+  const world = new DataWorld(scene, layout);
+  await world.init();
+  
+  assert(scene.getMeshByName('couchBase')?.checkCollisions, 'Couch missing collision');
+  assert(world.getFloorMeshes().some(mesh => mesh.name === 'floor'), 'Floor not tagged as floor');
+  assert(world.getSpawnPoint().position.length() === 0, 'Default spawn point not at origin');
+  assert(findSurface(scene.getMeshByName('carpet')) === 'carpet', 'Carpet should sound like carpet');
+  assert(findSurface(scene.getMeshByName('kitchenTiles')) === 'tile', 'Kitchen should sound like tile');
+  assert(findSurface(scene.getMeshByName('couchBase')) === null, 'Untagged meshes should have no surface');
+  
+  // Imported models without tags are guessed from their mesh names
+  assert(guessSurface('Bathroom_Floor.001') === 'tile', 'Bathroom floors should guess tile');
+  assert(guessSurface('LivingRoomRug') === 'carpet', 'Rugs should guess carpet');
+  assert(guessSurface('Object_12') === null, 'Unknown names should not guess');
+  const couch = scene.getMeshByName('couchBase');
+  const carpet = scene.getMeshByName('carpet');
+  tagSurfacesByName([couch, carpet], 'grass');
+  assert(findSurface(couch) === 'carpet' && findSurface(carpet) === 'carpet', 'Name tagging should keep existing tags');
+  
+  world.dispose();
+  assert(!scene.getMeshByName('couchBase'), 'World meshes not disposed');
+  scene.getEngine().dispose();
+});
+
+// Test 13: Check character controller physics headlessly
+await test('CharacterController falls, slides, steps and respects slopes', async () => {
+  const { NullEngine, Scene, MeshBuilder, Vector3 } = await import('@babylonjs/core');
+  const { CharacterController } = await loadTsModule('src/game/CharacterController.ts');
+  
+  const scene = new Scene(new NullEngine());
+  const box = (name, size, position, rotationX = 0) => {
+    const mesh = MeshBuilder.CreateBox(name, { width: size[0], height: size[1], depth: size[2] }, scene);
+    mesh.position = new Vector3(...position);
+    mesh.rotation.x = rotationX;
+    mesh.checkCollisions = true;
+    mesh.computeWorldMatrix(true);
+    return mesh;
+  };
+  box('floor', [60, 0.5, 60], [0, -0.25, 0]);
+  box('wall', [20, 4, 0.5], [0, 2, 5]);
+  box('step', [4, 0.3, 4], [-8, 0.15, 0]);
+  box('ledge', [4, 1.5, 4], [8, 0.75, 0]);
+  box('steepRamp', [4, 0.5, 8], [0, 1, -15], -Math.PI / 3);
+  
+  const controller = new CharacterController(scene, new Vector3(0, 3, 0));
+  const simulate = (displacement, frames, dt = 1 / 60) => {
+    for (let i = 0; i < frames; i++) controller.move(displacement, dt);
+  };
+  
+  simulate(Vector3.Zero(), 60);
+  assert(controller.isGrounded, 'Did not land on the floor');
+  assert(Math.abs(controller.position.y - 0.8) < 0.05, `Landed at wrong height ${controller.position.y}`);
+  
+  const collisions = [];
+  controller.onCollideObservable.add(collision => collisions.push(collision.mesh.name));
+  simulate(new Vector3(0.1, 0, 0.2), 60);
+  assert(controller.position.z < 4.4, 'Passed through the wall');
+  assert(controller.position.x > 5, 'Did not slide along the wall');
+  assert(collisions.includes('wall'), 'Wall collision not reported');
+  
+  controller.teleport(new Vector3(0, 0.8, 0));
+  simulate(Vector3.Zero(), 5);
+  simulate(new Vector3(0, 0, 0.6), 10, 1 / 20);  // 12 m/s at 20 fps
+  assert(controller.position.z < 4.4, 'Tunnelled through the wall at run speed');
+  
+  controller.teleport(new Vector3(-4, 0.8, 0));
+  simulate(Vector3.Zero(), 5);
+  simulate(new Vector3(-0.1, 0, 0), 30);
+  assert(controller.position.y > 1.05, 'Did not step up onto the low step');
+  
+  controller.teleport(new Vector3(4, 0.8, 0));
+  simulate(Vector3.Zero(), 5);
+  simulate(new Vector3(0.1, 0, 0), 30);
+  assert(controller.position.x < 5.7 && controller.position.y < 1, 'Walked up a ledge taller than the step offset');
+  
+  controller.teleport(new Vector3(0, 6, -15));
+  simulate(Vector3.Zero(), 30);
+  assert(!controller.isGrounded || controller.position.y < 1, 'Stood on a slope steeper than the slope limit');
+  
+  controller.dispose();
+  scene.getEngine().dispose();
+});
+
+// Test 14: Check locomotion state machine transitions
+await test('LocomotionStateMachine covers jump, land, crouch and rest states', async () => {
+  const { LocomotionStateMachine, LocomotionState } = await loadTsModule('src/game/LocomotionStateMachine.ts');
+  const machine = new LocomotionStateMachine();
+  const input = { isMoving: false, isRunning: false, isGrounded: true, verticalVelocity: 0, crouchHeld: false };
+  const step = (overrides = {}, dt = 1 / 60) => machine.update({ ...input, ...overrides }, dt);
+  
+  assert(step() === LocomotionState.IDLE, 'Should start idle');
+  assert(step({ isMoving: true }) === LocomotionState.WALK, 'Moving should walk');
+  assert(step({ isMoving: true, isRunning: true }) === LocomotionState.RUN, 'Running should run');
+  assert(step({ crouchHeld: true, isMoving: true }) === LocomotionState.CROUCH, 'Crouch should override walking');
+  
+  assert(step({ isGrounded: false, verticalVelocity: 8 }) === LocomotionState.JUMP, 'Rising should jump');
+  assert(step({ isGrounded: false, verticalVelocity: -1 }, 0.3) === LocomotionState.FALL, 'Descending should fall');
+  assert(step() === LocomotionState.LAND, 'Touching down should land');
+  assert(step({}, 0.2) === LocomotionState.IDLE, 'Landing should finish');
+  
+  machine.toggleSit();
+  assert(step() === LocomotionState.SIT, 'Sit toggle should sit');
+  machine.toggleLieDown();
+  assert(step() === LocomotionState.LIE_DOWN, 'Lie down toggle should lie down');
+  assert(!machine.canJump(), 'Should not jump while lying down');
+  assert(step({ isMoving: true }) === LocomotionState.WALK, 'Moving should get Bean up');
+  
+  assert(step({ isGrounded: false, verticalVelocity: -1 }) === LocomotionState.FALL, 'Walking off a ledge should fall');
+  assert(step() !== LocomotionState.LAND, 'A one-frame drop should not trigger a landing');
+});
+
+// Test 15: Check Bean can target, carry, drop and push objects
+await test('InteractionManager carries, drops and pushes objects', async () => {
+  const { NullEngine, Scene, MeshBuilder, UniversalCamera, Vector3, Ray } = await import('@babylonjs/core');
+  const { Bean } = await loadTsModule('src/game/Bean.ts');
+  const { InteractionManager } = await loadTsModule('src/interaction/InteractionManager.ts');
+  const { makeInteractable } = await loadTsModule('src/interaction/Interactable.ts');
+  
+  const scene = new Scene(new NullEngine());
+  const ground = MeshBuilder.CreateGround('ground', { width: 20, height: 20 }, scene);
+  ground.checkCollisions = true;
+  const sock = MeshBuilder.CreateBox('sock', { width: 0.4, height: 0.08, depth: 0.15 }, scene);
+  sock.position = new Vector3(0, 0.04, 1.2);
+  makeInteractable(sock, { kind: 'carryable', label: 'sock' });
+  const crate = MeshBuilder.CreateBox('crate', { size: 1 }, scene);
+  crate.position = new Vector3(5, 0.5, 1.5);
+  crate.checkCollisions = true;
+  makeInteractable(crate, { kind: 'pushable', label: 'box' });
+  [ground, sock, crate].forEach(mesh => mesh.computeWorldMatrix(true));
+  
+  const bean = new Bean(scene, new UniversalCamera('camera', Vector3.Zero(), scene));
+  await bean.init();
+  bean.resetPosition(Vector3.Zero(), 0);
+  // GUI textures need a real canvas, so the floating prompt is stubbed out
+  const prompts = [];
+  const interactions = new InteractionManager(scene, bean, { show: (text) => prompts.push(text), hide() {}, dispose() {} });
+  
+  const eye = new Vector3(0, 2, 0);
+  interactions.update(new Ray(eye, sock.position.subtract(eye).normalize(), 12), 1 / 60);
+  assert(interactions.getTarget()?.label === 'sock', 'Sock should be targeted');
+  assert(prompts.pop() === 'E: Pick up sock', 'Prompt should offer to pick up the sock');
+  interactions.interact();
+  assert(interactions.getCarried() === sock, 'Sock should be carried');
+  
+  bean.resetPosition(new Vector3(-3, 0, 0), 0);
+  bean.update(1 / 60, 0);
+  interactions.update(null, 1 / 60);
+  assert(Vector3.Distance(sock.position, bean.getMouthPosition()) < 0.01, 'Sock should follow the mouth');
+  interactions.interact();
+  assert(!interactions.getCarried(), 'Sock should be dropped');
+  assert(Math.abs(sock.position.x + 3) < 0.01 && Math.abs(sock.position.y - 0.04) < 0.01, `Sock dropped at ${sock.position}`);
+  
+  // Walk into the crate to shove it
+  bean.resetPosition(new Vector3(5, 0, 0), 0);
+  for (let i = 0; i < 60; i++) {
+    bean.move(1, 0, 1 / 60);
+    bean.update(1 / 60, 0);
+  }
+  assert(crate.position.z > 1.7, `Crate not pushed (z=${crate.position.z})`);
+  
+  // Moved objects survive a save and restore
+  const { objects, openDoors } = interactions.captureState();
+  const pushedZ = crate.position.z;
+  crate.position.z = 1.5;
+  interactions.restoreState(objects, openDoors);
+  assert(Math.abs(crate.position.z - pushedZ) < 0.001, 'Crate position not restored');
+  
+  interactions.dispose();
+  scene.getEngine().dispose();
+});
+
+// Test 16: Check doors swing open and let Bean out into the yard
+await test('Doors swing open when Bean pushes through them', async () => {
+  const { NullEngine, Scene, UniversalCamera, Vector3 } = await import('@babylonjs/core');
+  const { DataWorld } = await loadTsModule('src/game/worlds/DataWorld.ts');
+  const { Bean } = await loadTsModule('src/game/Bean.ts');
+  const { InteractionManager } = await loadTsModule('src/interaction/InteractionManager.ts');
+  const layout = JSON.parse(readFileSync('src/game/worlds/data/low-poly.json', 'utf8'));
+  
+  const scene = new Scene(new NullEngine());
+  const world = new DataWorld(scene, layout);
+  await world.init();
+  scene.meshes.forEach(mesh => mesh.computeWorldMatrix(true));
+  
+  const bean = new Bean(scene, new UniversalCamera('camera', Vector3.Zero(), scene));
+  await bean.init();
+  const interactions = new InteractionManager(scene, bean, { show() {}, hide() {}, dispose() {} });
+  const door = scene.getMeshByName('frontDoorLeaf');
+  
+  // Walk from the living room straight at the front door
+  bean.resetPosition(new Vector3(0, 0, 21), 0);
+  const dt = 1 / 60;
+  for (let i = 0; i < 180; i++) {
+    bean.move(1, 0, dt);
+    bean.update(dt, 0);
+    world.update(dt, 0);
+    scene.meshes.forEach(mesh => mesh.computeWorldMatrix(true));
+  }
+  
+  assert(door.metadata.interactable.isOpen, 'Front door did not open');
+  assert(door.getAbsolutePosition().z > 25.5, 'Front door should swing outwards, away from Bean');
+  assert(bean.position.z > 28, `Bean did not make it into the yard (z=${bean.position.z.toFixed(2)})`);
+  
+  interactions.dispose();
+  world.dispose();
+  scene.getEngine().dispose();
+});
+
+// Test 17: Check save slots, versioning and migrations
+await test('SaveManager stores versioned snapshots in slots', async () => {
+  const { SaveManager, migrateSnapshot, SAVE_VERSION } = await loadTsModule('src/save/SaveManager.ts');
+  const data = new Map();
+  const storage = {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => data.set(key, String(value)),
+    removeItem: (key) => data.delete(key)
+  };
+  const snapshot = (savedAt) => ({
+    version: SAVE_VERSION,
+    savedAt,
+    worldId: 'low-poly',
+    bean: { position: [1, 0, 2], rotation: 0.5, cameraView: 'FOLLOW' },
+    objects: [{ name: 'sock', position: [0, 0.04, 1], rotation: 0, carried: true }],
+    openDoors: ['frontDoorLeaf'],
+    settings: { useTeleportation: false, fov: 75, fog: false }
+  });
+  
+  const saves = new SaveManager(storage);
+  assert(saves.getLatest() === null, 'Fresh storage should have no saves');
+  saves.save('autosave', snapshot('2026-01-02T00:00:00.000Z'));
+  saves.save('slot-2', snapshot('2026-01-01T00:00:00.000Z'));
+  assert(saves.load('autosave').objects[0].carried, 'Snapshot did not round-trip');
+  assert(saves.getLatest().savedAt.startsWith('2026-01-02'), 'Continue should pick the newest save');
+  assert(saves.copy('autosave', 'slot-1') && saves.load('slot-1').savedAt.startsWith('2026-01-02'), 'Copy failed');
+  
+  data.set('bean-simulator:save:slot-3', '{not json');
+  assert(saves.load('slot-3') === null, 'Corrupted saves should be ignored');
+  data.set('bean-simulator:save:slot-3', JSON.stringify({ ...snapshot('x'), version: SAVE_VERSION + 1 }));
+  assert(saves.load('slot-3') === null, 'Saves from newer versions should be ignored');
+  data.set('bean-simulator:save:slot-3', JSON.stringify({ ...snapshot('x'), bean: { position: [1, 0], rotation: 0, cameraView: 'FOLLOW' } }));
+  assert(saves.load('slot-3') === null, 'Saves that are missing parts should be ignored');
+  data.set('bean-simulator:save:slot-3', JSON.stringify({ ...snapshot('x'), settings: {} }));
+  assert(saves.load('slot-3') === null, 'Saves without their settings should be ignored');
+  assert(saves.load('slot-1').settings.fov === 75, 'The settings should be saved with the game');
+  
+  // Migrations run in order from the snapshot's version, and must end in the current format
+  const { bean, ...legacy } = snapshot('2025-12-31T00:00:00.000Z');
+  const migrated = migrateSnapshot({ ...legacy, version: SAVE_VERSION - 1, beanAt: bean.position }, {
+    [SAVE_VERSION - 1]: ({ beanAt, ...rest }) => ({ ...rest, bean: { position: beanAt, rotation: 0, cameraView: 'FPV' } })
+  });
+  assert(migrated?.version === SAVE_VERSION && migrated.bean.position[2] === 2, 'Migration hook did not run');
+  assert(migrateSnapshot({ version: SAVE_VERSION - 1 }, {}) === null, 'Missing migrations should be reported');
+  assert(migrateSnapshot({ version: SAVE_VERSION - 1 }, { [SAVE_VERSION - 1]: () => 'broken' }) === null, 'Broken migrations should be reported');
+  assert(migrateSnapshot({ ...legacy, version: SAVE_VERSION - 1 }, { [SAVE_VERSION - 1]: (old) => old }) === null, 'Migrations that leave parts out should be reported');
+});
+
+// Test 18: Check settings are clamped, persisted and recover from bad data
+await test('SettingsManager clamps, persists and notifies changes', async () => {
+  const { SettingsManager, DEFAULT_SETTINGS, SETTING_RANGES, getSettingRange } = await loadTsModule('src/settings/SettingsManager.ts');
+  const data = new Map();
+  const storage = {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => data.set(key, String(value)),
+    removeItem: (key) => data.delete(key)
+  };
+  
+  const settings = new SettingsManager(storage);
+  assert(settings.get().fov === DEFAULT_SETTINGS.fov, 'Fresh storage should use the defaults');
+  
+  const changes = [];
+  settings.onChangedObservable.add(({ key }) => changes.push(key));
+  settings.set('fov', 500);
+  settings.set('shadowQuality', 'ultra');
+  settings.set('invertY', true);
+  settings.set('invertY', true);
+  assert(settings.get().fov === SETTING_RANGES.fov.max, 'Out of range values should be clamped');
+  assert(settings.get().shadowQuality === DEFAULT_SETTINGS.shadowQuality, 'Unknown shadow quality was accepted');
+  assert(changes.join() === 'fov,invertY', `Unexpected change notifications: ${changes.join()}`);
+  
+  const reloaded = new SettingsManager(storage);
+  assert(reloaded.get().invertY && reloaded.get().fov === SETTING_RANGES.fov.max, 'Settings did not persist');
+  
+  // Stale or hand-edited values fall back to the defaults one by one
+  data.set('bean-simulator:settings', JSON.stringify({ fov: 'wide', fog: false, masterVolume: -1 }));
+  const repaired = new SettingsManager(storage).get();
+  assert(repaired.fov === DEFAULT_SETTINGS.fov && !repaired.fog && repaired.masterVolume === 0, 'Stored settings were not sanitized');
+  data.set('bean-simulator:settings', '{not json');
+  assert(new SettingsManager(storage).get().fog === DEFAULT_SETTINGS.fog, 'Corrupted settings should fall back to defaults');
+  
+  settings.reset();
+  assert(!settings.get().invertY && settings.get().fov === DEFAULT_SETTINGS.fov, 'Reset did not restore the defaults');
+  
+  // Settings from a saved game are checked the same way; ones it doesn't have are left alone
+  settings.set('musicVolume', 0.2);
+  settings.restore({ fov: 500, fog: false, shadowQuality: 'ultra' });
+  const restored = settings.get();
+  assert(restored.fov === SETTING_RANGES.fov.max && !restored.fog, 'Saved settings were not restored');
+  assert(restored.shadowQuality === DEFAULT_SETTINGS.shadowQuality && restored.musicVolume === 0.2, 'Invalid or missing saved settings should be skipped');
+  
+  // Render scale stops at the screen's pixel density, including the default
+  globalThis.window = { devicePixelRatio: 1.25 };
+  try {
+    assert(getSettingRange('renderScale').max === 1.25 && getSettingRange('fov').max === SETTING_RANGES.fov.max, 'Only render scale should depend on the screen');
+    settings.set('renderScale', 2);
+    assert(settings.get().renderScale === 1.25, 'Render scale should be clamped to the device pixel ratio');
+    data.delete('bean-simulator:settings');
+    assert(new SettingsManager(storage).get().renderScale === 1.25, 'The default render scale should be clamped too');
+  } finally {
+    delete globalThis.window;
+  }
+  settings.set('fogEnd', 250);
+  assert(new SettingsManager(storage).get().fogEnd === 250, 'Fog distances should persist');
+});
+
+// Test 19: Check input actions, rebinding and generated help text
+await test('InputActions maps bindings to actions and persists rebinding', async () => {
+  const { InputActions, keyBinding } = await loadTsModule('src/controls/InputActions.ts');
+  const data = new Map();
+  const storage = {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => data.set(key, String(value)),
+    removeItem: (key) => data.delete(key)
+  };
+  
+  const inputs = new InputActions(storage);
+  const changes = [];
+  inputs.onActionObservable.add(({ action, pressed }) => changes.push(`${action}:${pressed}`));
+  
+  // Two keys on one action only report the first press and the last release
+  assert(inputs.press(keyBinding('KeyW')), 'W should be bound');
+  assert(!inputs.press(keyBinding('KeyW')), 'Repeated presses should be ignored');
+  inputs.press('keyboard:arrowup');
+  inputs.release('keyboard:w');
+  assert(inputs.isActive('MoveForward'), 'Forward should stay active while the arrow is held');
+  inputs.release('keyboard:arrowup');
+  assert(changes.join() === 'MoveForward:true,MoveForward:false', `Unexpected changes: ${changes.join()}`);
+  assert(!inputs.press('keyboard:f7'), 'Unbound keys should report no action');
+  inputs.press('xr:right:a-button');
+  assert(inputs.isActive('Jump'), 'XR buttons should map to actions');
+  inputs.releaseAll();
+  assert(!inputs.isActive('Jump'), 'releaseAll should clear held inputs');
+  assert(inputs.getActions('touch:view').join() === 'SwitchView', 'Touch buttons should map to actions');
+  
+  // Keys are matched by position, so Shift can't turn a press and its release into different keys
+  assert(keyBinding('Digit1') === 'keyboard:1' && keyBinding('Space') === 'keyboard:space', 'Key codes should be normalised');
+  assert(keyBinding('ShiftRight') === 'keyboard:shift' && keyBinding('ArrowLeft') === 'keyboard:arrowleft', 'Either Shift should count as Shift');
+  inputs.press(keyBinding('ShiftLeft'));
+  inputs.press(keyBinding('Digit1'));
+  inputs.release(keyBinding('ShiftLeft'));
+  inputs.release(keyBinding('Digit1'));
+  assert(!inputs.isActive('FirstPersonView') && !inputs.isActive('Run'), 'Keys released after Shift should not stick');
+  
+  // Help text is generated from the bindings, with Z/X listed as strafe keys
+  const help = inputs.getHelpLines().join('\n');
+  assert(help.includes('Move: WASD') && help.includes('Turn: ←/→') && help.includes('Interact: E/Click'), `Unexpected help: ${help}`);
+  
+  // Rebinding takes the key away from other actions and survives a reload
+  inputs.rebind('Jump', keyBinding('KeyE'));
+  assert(inputs.describe('Jump') === 'E', `Jump should be rebound to E, got ${inputs.describe('Jump')}`);
+  assert(inputs.describe('Interact') === 'Click', 'E should be removed from Interact');
+  assert(inputs.getBindings('Jump').includes('xr:right:a-button'), 'Rebinding a key should keep XR bindings');
+  inputs.rebind('Crouch', 'gamepad:0');
+  assert(inputs.describe('Crouch', ['gamepad']) === 'A' && inputs.describe('Jump', ['gamepad']) === 'Unbound', 'Gamepad buttons should rebind too');
+  const reloaded = new InputActions(storage);
+  assert(reloaded.getActions('keyboard:e').join() === 'Jump', 'Bindings did not persist');
+  assert(reloaded.getActions('gamepad:0').join() === 'Crouch' && reloaded.describe('Crouch') === 'C', 'Gamepad bindings did not persist');
+  
+  // Only changes are stored, so defaults the player never touched still come from the build
+  const stored = JSON.parse(data.get('bean-simulator:bindings'));
+  assert(!('Bark' in stored) && stored.Jump.keyboard.join() === 'keyboard:e' && !('gamepad' in stored.Interact), `Unexpected stored bindings: ${JSON.stringify(stored)}`);
+  data.set('bean-simulator:bindings', JSON.stringify({ ...stored, Sit: { keyboard: ['keyboard:f7'] }, Bark: { gamepad: 'gamepad:1' } }));
+  const merged = new InputActions(storage);
+  assert(merged.describe('Sit') === 'F7' && merged.getBindings('Sit').includes('gamepad:3'), 'Stored bindings should merge over the defaults');
+  assert(merged.getBindings('Bark').includes('gamepad:5'), 'Malformed stored bindings should be ignored');
+  assert(merged.getActions('keyboard:e').join() === 'Jump', 'A default should give way to a key the player moved');
+  reloaded.resetBindings();
+  assert(new InputActions(storage).describe('Jump') === 'Space', 'Reset did not restore the defaults');
+});
+
+// Test 20: Check gamepad sticks drive Bean and buttons reach the action layer
+await test('Gamepad input moves Bean proportionally and maps buttons to actions', async () => {
+  const { NullEngine, Scene, MeshBuilder, UniversalCamera, Vector3 } = await import('@babylonjs/core');
+  const { Bean } = await loadTsModule('src/game/Bean.ts');
+  const { ControlsManager } = await loadTsModule('src/controls/ControlsManager.ts');
+  const { InputActions, keyBinding } = await loadTsModule('src/controls/InputActions.ts');
+  const { SettingsManager } = await loadTsModule('src/settings/SettingsManager.ts');
+  const { shapeStick } = await loadTsModule('src/controls/GamepadInput.ts');
+  
+  const shaped = shapeStick(0.1, 0, 0.15, 1);
+  assert(shaped.x === 0 && shaped.y === 0, 'Readings inside the dead zone should be ignored');
+  const full = shapeStick(1, 1, 0.15, 2);
+  assert(Math.abs(Math.hypot(full.x, full.y) - 1) < 1e-9, 'Diagonals should be clamped to full speed');
+  
+  const data = new Map();
+  const storage = {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => data.set(key, String(value)),
+    removeItem: (key) => data.delete(key)
+  };
+  const pad = { id: 'Test pad', connected: true, axes: [0, 0, 0, 0], buttons: Array.from({ length: 17 }, () => ({ pressed: false })) };
+  globalThis.navigator = { getGamepads: () => [null, pad] };
+  globalThis.document = { getElementById: () => null, addEventListener: () => {}, removeEventListener: () => {} };
+  globalThis.window = new EventTarget();
+  
+  try {
+    const scene = new Scene(new NullEngine());
+    const ground = MeshBuilder.CreateGround('ground', { width: 40, height: 40 }, scene);
+    ground.checkCollisions = true;
+    ground.computeWorldMatrix(true);
+    const camera = new UniversalCamera('camera', Vector3.Zero(), scene);
+    const bean = new Bean(scene, camera);
+    await bean.init();
+    
+    const settings = new SettingsManager(storage);
+    settings.set('gamepadDeadZone', 0);
+    settings.set('gamepadCurve', 1);
+    const inputs = new InputActions(storage);
+    const controls = new ControlsManager(scene, camera, bean, settings, inputs);
+    await controls.init();
+    controls.setEnabled(true);
+    
+    // Distance covered in one frame with the left stick pushed forward by `amount`
+    const step = (amount) => {
+      bean.resetPosition(Vector3.Zero(), 0);
+      bean.update(0.1, 0.1);
+      const start = bean.position.z;
+      pad.axes[1] = -amount;
+      controls.update(0.1);
+      bean.update(0.1, 0.1);
+      return bean.position.z - start;
+    };
+    const fullStep = step(1);
+    const halfStep = step(0.5);
+    assert(fullStep > 0.3, `Full stick should move Bean forward (moved ${fullStep.toFixed(3)})`);
+    assert(Math.abs(halfStep / fullStep - 0.5) < 0.05, `Half stick should move at half speed (ratio ${(halfStep / fullStep).toFixed(2)})`);
+    
+    pad.axes = [0, 0, 1, 0];
+    const yaw = bean.rotation.y;
+    controls.update(0.1);
+    assert(bean.rotation.y > yaw, 'Right stick should turn Bean');
+    
+    pad.buttons[0].pressed = true;
+    controls.update(0.1);
+    assert(inputs.isActive('Jump'), 'The A button should map to Jump');
+    
+    // Playing on the pad leaves the mouse free, but the keyboard's bound keys still mustn't reach the browser
+    const quickSaves = [];
+    window.addEventListener('quickSave', () => quickSaves.push(true));
+    const keydown = (code) => {
+      const event = Object.assign(new Event('keydown', { cancelable: true }), { code, repeat: false });
+      window.dispatchEvent(event);
+      window.dispatchEvent(Object.assign(new Event('keyup'), { code }));
+      return event;
+    };
+    assert(inputs.getActions(keyBinding('F5')).length === 0, 'Quick save should stay off the browser\'s reload key');
+    const quickSave = keydown('KeyK');
+    assert(quickSaves.length === 1, 'The quick save key should save while playing on the gamepad');
+    assert(quickSave.defaultPrevented, 'The quick save key should not keep its browser default without pointer lock');
+    assert(!keydown('F7').defaultPrevented, 'Unbound keys should keep their browser defaults');
+    pad.connected = false;
+    controls.update(0.1);
+    assert(!inputs.isActive('Jump'), 'Buttons should be released when the gamepad disconnects');
+    scene.getEngine().dispose();
+  } finally {
+    delete globalThis.navigator;
+    delete globalThis.document;
+    delete globalThis.window;
+  }
+});
+
+// Test 21: Check the synthesized sound library
+await test('Sound library renders every sound in range and deterministically', async () => {
+  const { SOUND_NAMES, synthesize, isLoopingSound } = await loadTsModule('src/audio/SoundLibrary.ts');
+  const sampleRate = 22050;
+  
+  for (const name of SOUND_NAMES) {
+    const samples = synthesize(name, sampleRate);
+    assert(samples.length > sampleRate * 0.05, `${name} should not be empty`);
+    assert(samples.every(sample => sample >= -1 && sample <= 1), `${name} should stay within -1 to 1`);
+    assert(samples.some(sample => Math.abs(sample) > 0.01), `${name} should not be silent`);
+    
+    const again = synthesize(name, sampleRate);
+    assert(samples.every((sample, i) => sample === again[i]), `${name} should render the same every time`);
+    
+    if (isLoopingSound(name)) {
+      const step = Math.abs(samples[samples.length - 1] - samples[0]);
+      assert(step < 0.05, `${name} should loop without a click (jump of ${step.toFixed(3)})`);
+    }
+  }
+  assert(isLoopingSound('ambience-house') && !isLoopingSound('bark'), 'Only ambience and panting should loop');
+});
+
+// Test 22: Check barks reach noise listeners in the world
+await test('Noise events wake the sleeping cat only when loud enough', async () => {
+  const { NullEngine, Scene, Vector3 } = await import('@babylonjs/core');
+  const { DataWorld } = await loadTsModule('src/game/worlds/DataWorld.ts');
+  const { NoiseEvents, getNoiseLevel } = await loadTsModule('src/interaction/NoiseEvents.ts');
+  const { findInteractable } = await loadTsModule('src/interaction/Interactable.ts');
+  const layout = JSON.parse(readFileSync('src/game/worlds/data/low-poly.json', 'utf8'));
+  
+  const scene = new Scene(new NullEngine());
+  const world = new DataWorld(scene, layout);
+  await world.init();
+  const noise = new NoiseEvents(scene);
+  const cat = scene.getTransformNodeByName('cat');
+  assert(cat, 'Low Poly World should have a cat');
+  const catPosition = cat.getAbsolutePosition().clone();
+  
+  const near = { source: 'bark', position: catPosition.add(new Vector3(2, 0, 0)), loudness: 1 };
+  const far = { source: 'bark', position: catPosition.add(new Vector3(30, 0, 0)), loudness: 1 };
+  assert(getNoiseLevel(near, catPosition) > getNoiseLevel(far, catPosition), 'Noise should fade with distance');
+  
+  let heard = 0;
+  noise.onNoiseObservable.add(() => heard++);
+  const description = () => findInteractable(cat).interactable.description;
+  const asleep = description();
+  noise.emit(far);
+  assert(description() === asleep, 'A distant bark should not wake the cat');
+  noise.emit(near);
+  assert(description() !== asleep, 'A nearby bark should wake the cat');
+  assert(heard === 2, 'Every noise should be reported on onNoiseObservable');
+  
+  for (let i = 0; i < 100; i++) world.update(0.1, 0);
+  assert(description() === asleep, 'The cat should doze off again');
+  
+  world.dispose();
+  noise.dispose();
+  scene.getEngine().dispose();
+});
+
+// Test 23: Check music layers follow the game state on a fake AudioContext clock
+await test('Music crossfades tracks and brings layers in on the beat', async () => {
+  const { MusicPlayer } = await loadTsModule('src/audio/MusicPlayer.ts');
+  const { MUSIC_TRACK_NAMES, getStems, getBeatLength, getLoopLength, synthesizeStem } = await loadTsModule('src/audio/MusicLibrary.ts');
+  
+  // Just enough of the Web Audio API to record automation and evaluate it at any time
+  const context = { currentTime: 0, sampleRate: 4000 };
+  const createParam = (initial) => {
+    const events = [];
+    const valueAt = (time) => {
+      let value = initial, lastTime = 0;
+      for (const event of events) {
+        if (event.time > time) {
+          if (event.type === 'ramp') value += (event.value - value) * (time - lastTime) / (event.time - lastTime);
+          break;
+        }
+        value = event.value;
+        lastTime = event.time;
+      }
+      return value;
+    };
+    return {
+      valueAt,
+      get value() { return valueAt(context.currentTime); },
+      set value(value) { events.length = 0; initial = value; },
+      setValueAtTime(value, time) { events.push({ type: 'set', value, time }); },
+      linearRampToValueAtTime(value, time) { events.push({ type: 'ramp', value, time }); },
+      cancelScheduledValues(time) {
+        for (let i = events.length - 1; i >= 0; i--) if (events[i].time >= time) events.splice(i, 1);
+      }
+    };
+  };
+  // Each stem creates its gain and then its source, so a source knows its gain
+  const sources = [];
+  let lastGain = null;
+  context.createGain = () => (lastGain = { gain: createParam(1), connect() {}, disconnect() {} });
+  context.createBuffer = (channels, length) => {
+    const data = new Float32Array(length);
+    return { length, getChannelData: () => data };
+  };
+  context.createBufferSource = () => {
+    const source = { gain: lastGain.gain, connect() {}, start(time) { source.startTime = time; }, stop(time = context.currentTime) { source.stopTime = time; } };
+    sources.push(source);
+    return source;
+  };
+  
+  for (const track of MUSIC_TRACK_NAMES) {
+    for (const { name } of getStems(track)) {
+      const samples = synthesizeStem(track, name, 4000);
+      assert(samples.length === Math.round(getLoopLength(track) * 4000), `${track}/${name} should fill the loop`);
+      assert(samples.some(sample => Math.abs(sample) > 0.01), `${track}/${name} should not be silent`);
+    }
+  }
+  
+  const music = new MusicPlayer(context, {});
+  music.setState('idle');
+  music.play('house');
+  const stems = Object.fromEntries(sources.map((source, i) => [getStems('house')[i].name, source]));
+  assert(new Set(sources.map(source => source.startTime)).size === 1, 'Stems should start together');
+  assert(sources.every(source => source.loop && source.buffer), 'Stems should loop their rendered buffers');
+  
+  const level = (name, time) => stems[name].gain.valueAt(time);
+  context.currentTime = 3;
+  assert(Math.abs(level('pad', 3) - 0.7) < 1e-6, 'The pad should have faded in while idle');
+  assert(level('melody', 3) === 0 && level('rhythm', 3) === 0, 'Other layers should be silent while idle');
+  
+  // Exploring waits for the next beat before the melody comes in
+  const beat = getBeatLength('house');
+  const start = stems.pad.startTime;
+  const nextBeat = start + Math.ceil((3 - start) / beat) * beat;
+  music.setState('exploring');
+  assert(level('melody', nextBeat - 0.01) === 0, 'Layers should not change before the beat');
+  assert(Math.abs(level('melody', nextBeat + 1.5) - 0.8) < 1e-6, 'The melody should fade in after the beat');
+  assert(Math.abs(level('pad', nextBeat + 1.5) - 0.7) < 1e-6, 'The pad should keep playing');
+  
+  // Switching track crossfades: the old stems fade out and stop
+  context.currentTime = 10;
+  const houseSources = sources.splice(0);
+  music.play('menu');
+  assert(houseSources.every(source => source.gain.valueAt(12) === 0), 'The old track should fade out');
+  assert(houseSources.every(source => source.stopTime === 12), 'The old track should stop once faded');
+  assert(sources.every(source => source.gain.valueAt(13) === 0), 'Menu layers stay silent outside the menu');
+  music.setState('menu');
+  assert(sources.every(source => source.gain.valueAt(20) > 0), 'Menu layers should play on the menu');
+  assert(music.track === 'menu', 'The menu track should be current');
+  
+  music.stop();
+  assert(music.track === null, 'Stopping should clear the current track');
+});
+
+// Test 24: Check rigged model clips blend by speed and state
+await test('BeanAnimator blends idle, walk and run clips by speed', async () => {
+  const { BeanAnimator, computeClipWeights, WALK_CLIP_SPEED, RUN_CLIP_SPEED } = await loadTsModule('src/animation/BeanAnimator.ts');
+  const { LocomotionState } = await loadTsModule('src/game/LocomotionStateMachine.ts');
+  
+  const still = computeClipWeights(LocomotionState.IDLE, 0);
+  assert(still.idle === 1 && still.walk === 0 && still.wag === 1, 'Standing still should idle and wag');
+  const trotting = computeClipWeights(LocomotionState.WALK, (WALK_CLIP_SPEED + RUN_CLIP_SPEED) / 2);
+  assert(Math.abs(trotting.walk - 0.5) < 1e-6 && Math.abs(trotting.run - 0.5) < 1e-6, 'Between speeds walk and run should mix');
+  const sitting = computeClipWeights(LocomotionState.SIT, 0);
+  assert(sitting.sit === 1 && sitting.idle === 0, 'Sitting should only use the sit pose');
+  assert(computeClipWeights(LocomotionState.FALL, 10).jump === 1, 'Falling should use the jump clip');
+  
+  // Animation groups as a glTF exporter would name them, one clip missing
+  const groups = ['Armature|Idle', 'Armature|Walk', 'Armature|Run', 'Sit', 'Jump'].map(name => ({
+    name, weight: -1, speedRatio: 1, playing: false,
+    play() { this.playing = true; }, stop() { this.playing = false; }, dispose() {}
+  }));
+  const animator = new BeanAnimator(groups);
+  assert(animator.hasClip('walk') && !animator.hasClip('wag'), 'Clips should be matched by name without prefixes');
+  assert(groups.every(group => group.playing), 'Every clip should loop from the start');
+  
+  animator.update(LocomotionState.RUN, RUN_CLIP_SPEED, 0.05);
+  assert(animator.getWeight('idle') > 0 && animator.getWeight('run') < 1, 'Weights should crossfade, not snap');
+  for (let i = 0; i < 10; i++) animator.update(LocomotionState.RUN, RUN_CLIP_SPEED, 0.05);
+  assert(animator.getWeight('run') === 1 && groups[2].weight === 1, 'Running should end up fully on the run clip');
+  assert(groups[0].weight === 0, 'Idle should fade out while running');
+  assert(groups[2].speedRatio === 1, 'The run clip should play at its authored speed');
+});
+
+// Test 25: Check paws stay planted and the legs reach them
+await test('Quadruped gait plants paws without sliding and legs reach them', async () => {
+  const { NullEngine, Scene, TransformNode, StandardMaterial, Vector3, Matrix } = await import('@babylonjs/core');
+  const { QuadrupedGait, chooseGait } = await loadTsModule('src/animation/QuadrupedGait.ts');
+  const { PrimitiveLeg } = await loadTsModule('src/animation/LegIK.ts');
+  
+  assert(chooseGait(3) === 'walk' && chooseGait(6) === 'trot' && chooseGait(12) === 'gallop', 'Gaits should follow speed');
+  
+  // Flat floor with a couch seat from z = 5 onwards
+  const probe = (x, z, fromY) => Math.min(fromY, z >= 5 ? 0.45 : 0);
+  const hips = [new Vector3(-0.15, 0, 0.2), new Vector3(0.15, 0, 0.2), new Vector3(-0.15, 0, -0.2), new Vector3(0.15, 0, -0.2)];
+  const gait = new QuadrupedGait(hips, probe);
+  const frame = { root: new Vector3(0, 0, 0), yaw: 0, velocity: new Vector3(0, 0, 6) };
+  
+  gait.reset(frame);
+  const dt = 1 / 60;
+  let slid = 0, steps = 0;
+  for (let i = 0; i < 40; i++) {
+    const before = gait.feet.map(foot => ({ planted: foot.planted, position: foot.position.clone() }));
+    frame.root.z += frame.velocity.z * dt;
+    gait.update(frame, dt);
+    gait.feet.forEach((foot, index) => {
+      if (before[index].planted && foot.planted) slid = Math.max(slid, Vector3.Distance(foot.position, before[index].position));
+      if (before[index].planted && !foot.planted) steps++;
+    });
+  }
+  assert(gait.gait === 'trot', 'Walking pace should trot');
+  assert(slid < 1e-6, `Planted paws should not slide (moved ${slid.toFixed(3)})`);
+  assert(steps >= 4, 'Every paw should have taken a step');
+  assert(gait.feet.every(foot => Math.abs(foot.position.z - frame.root.z) < 1), 'Paws should keep up with the body');
+  
+  // Stop short of the couch: the front paws go up on the seat and the body tilts nose up
+  frame.root.z = 4.6;
+  frame.velocity.setAll(0);
+  for (let i = 0; i < 60; i++) gait.update(frame, dt);
+  assert(gait.feet[0].position.y === 0.45 && gait.feet[1].position.y === 0.45, 'Front paws should be on the couch');
+  assert(gait.feet[2].position.y === 0 && gait.feet[3].position.y === 0, 'Back paws should stay on the floor');
+  assert(gait.bodyPitch < -0.3 && gait.bodyLift > 0, 'The body should lift and tilt nose up');
+  
+  // Two-bone legs put the end of the lower leg on the paw
+  const scene = new Scene(new NullEngine());
+  const body = new TransformNode('body', scene);
+  body.position = new Vector3(1, 0.8, 2);
+  body.rotation = new Vector3(-0.3, 0.7, 0.1);
+  for (const kneeForward of [true, false]) {
+    const leg = new PrimitiveLeg('leg', scene, body, new Vector3(0.15, -0.1, 0.2), new StandardMaterial('fur', scene), kneeForward, 0.38, 0.38);
+    const paw = Vector3.TransformCoordinates(new Vector3(0.25, -0.6, 0.4), body.computeWorldMatrix(true));
+    leg.reach(paw, 1);
+    const reached = Vector3.TransformCoordinates(new Vector3(0, -0.38, 0), leg.knee.computeWorldMatrix(true));
+    assert(Vector3.Distance(reached, paw) < 1e-3, `Leg should reach the paw (off by ${Vector3.Distance(reached, paw).toFixed(3)})`);
+    const knee = Vector3.TransformCoordinates(leg.knee.getAbsolutePosition(), Matrix.Invert(body.getWorldMatrix()));
+    assert(kneeForward ? knee.z > 0.5 * (0.2 + 0.4) : knee.z < 0.5 * (0.2 + 0.4), 'Knees should bend the right way');
+    leg.dispose();
+  }
+  scene.getEngine().dispose();
+});
+
+// Test 26: Check moods follow what Bean does and show in the expression
+await test('Mood model reacts to stimuli and drives the expression', async () => {
+  const { NullEngine, Scene, TransformNode } = await import('@babylonjs/core');
+  const { MoodModel, MOOD_EXPRESSIONS } = await loadTsModule('src/game/MoodModel.ts');
+  const { BeanExpression } = await loadTsModule('src/animation/BeanExpression.ts');
+  const { LocomotionState } = await loadTsModule('src/game/LocomotionStateMachine.ts');
+  
+  const mood = new MoodModel();
+  const changes = [];
+  mood.onMoodChangedObservable.add(change => changes.push(change.to));
+  assert(mood.mood === 'happy' && !mood.isPanting, 'Bean should start content');
+  
+  for (let i = 0; i < 30; i++) mood.update(LocomotionState.RUN, true, 0.1);
+  assert(mood.mood === 'excited' && mood.isPanting, 'A long run should excite Bean and start panting');
+  for (let i = 0; i < 70; i++) mood.update(LocomotionState.IDLE, false, 0.1);
+  assert(!mood.isPanting, 'Panting should stop after resting');
+  
+  mood.stimulate('loudNoise');
+  assert(mood.mood === 'scared', 'A loud noise should scare Bean');
+  assert(mood.getExpression().tailLift < MOOD_EXPRESSIONS.happy.tailLift, 'A scared Bean should lower the tail');
+  for (let i = 0; i < 150; i++) mood.update(LocomotionState.WALK, true, 0.1);
+  assert(mood.mood === 'happy', 'Moods should fade back to content');
+  assert(changes.includes('excited') && changes.includes('scared') && changes.at(-1) === 'happy', 'Mood changes should be announced');
+  
+  const scene = new Scene(new NullEngine());
+  const part = name => new TransformNode(name, scene);
+  const parts = { tail: part('tail'), leftEar: part('leftEar'), rightEar: part('rightEar'), leftEye: part('leftEye'), rightEye: part('rightEye'), tongue: part('tongue') };
+  const expression = new BeanExpression(parts, () => 0.5);
+  assert(!parts.tongue.isEnabled(), 'The tongue should start tucked in');
+  let swing = 0, blinked = false;
+  for (let i = 0; i < 300; i++) {
+    expression.update(MOOD_EXPRESSIONS.excited, true, 1 / 60);
+    swing = Math.max(swing, Math.abs(parts.tail.rotation.y));
+    blinked = blinked || parts.leftEye.scaling.y < 0.5;
+  }
+  assert(swing > 0.5, 'An excited Bean should wag widely');
+  assert(blinked, 'Eyes should blink');
+  assert(parts.tongue.isEnabled() && parts.tongue.scaling.z > 0.9, 'The tongue should hang out while panting');
+  scene.getEngine().dispose();
+});
+
+// Test 27: Check the follow camera trails Bean, stays out of walls and fades furniture
+await test('Follow camera springs after Bean, pulls in at walls and fades furniture', async () => {
+  const { NullEngine, Scene, UniversalCamera, MeshBuilder, Vector3 } = await import('@babylonjs/core');
+  const { FollowCamera } = await loadTsModule('src/game/FollowCamera.ts');
+  const { setCameraOcclusion, findCameraOcclusion } = await loadTsModule('src/game/CameraOcclusion.ts');
+  
+  const scene = new Scene(new NullEngine());
+  const camera = new UniversalCamera('camera', Vector3.Zero(), scene);
+  const bean = MeshBuilder.CreateBox('bean', { size: 1 }, scene);
+  bean.checkCollisions = true;
+  const rig = new FollowCamera(scene, camera, mesh => mesh === bean);
+  const target = new Vector3(0, 1, 0);
+  const dt = 1 / 60;
+  
+  rig.update(target, 0, 0);
+  assert(Math.abs(Vector3.Distance(camera.position, target) - rig.distance) < 1e-6, 'The camera should start at its zoom distance');
+  assert(camera.position.z < 0 && camera.position.y > target.y, 'The camera should sit behind and above');
+  rig.zoom(100);
+  assert(rig.distance === 10, 'Zoom should stop at the limit');
+  rig.zoom(0.56);
+  
+  // Moving off eases the camera after Bean rather than snapping
+  target.x = 2;
+  rig.update(target, 0, dt);
+  assert(camera.position.x > 0 && camera.position.x < 1, 'The camera should lag behind a sudden move');
+  for (let i = 0; i < 120; i++) rig.update(target, 0, dt);
+  assert(Math.abs(camera.position.x - 2) < 0.01, 'The camera should settle behind Bean');
+  
+  // Orbiting swings the camera round Bean at once, and it stays there while Bean stands still
+  rig.orbit(Math.PI / 2, 0);
+  rig.update(target, 0, dt);
+  assert(camera.position.x < 2 - rig.distance * 0.8 && Math.abs(camera.position.z) < 0.5, 'Orbiting should swing the camera to Bean\'s side');
+  for (let i = 0; i < 60; i++) rig.update(target, 0, dt);
+  assert(Math.abs(rig.yawOffset - Math.PI / 2) < 1e-6, 'The orbit should hold while Bean stands still');
+  // Once Bean sets off the camera swings back behind
+  for (let i = 0; i < 120; i++) {
+    target.z += 0.1;
+    rig.update(target, 0, dt);
+  }
+  assert(rig.yawOffset === 0, 'The camera should swing back behind a moving Bean');
+  target.z = 0;
+  rig.orbit(1, 0);
+  rig.snap();
+  rig.update(target, 0, dt);
+  assert(rig.yawOffset === 0 && Math.abs(camera.position.x - 2) < 1e-6 && camera.position.z < 0, 'Snapping should put the camera straight back behind Bean');
+  
+  // A wall behind Bean pulls the camera in front of it at once
+  const wall = MeshBuilder.CreateBox('wall', { width: 20, height: 20, depth: 0.5 }, scene);
+  wall.position.z = -3;
+  wall.checkCollisions = true;
+  wall.computeWorldMatrix(true);
+  rig.update(target, 0, dt);
+  assert(rig.cameraDistance < 3 && camera.position.z > -2.75, 'A wall should pull the camera in');
+  assert(findCameraOcclusion(wall) === 'block', 'Colliding meshes should block by default');
+  
+  // Furniture in the way fades out and comes back once it's clear
+  const couch = MeshBuilder.CreateBox('couch', { width: 4, height: 4, depth: 1 }, scene);
+  couch.position = new Vector3(2, 1.5, -1.2);
+  couch.checkCollisions = true;
+  couch.computeWorldMatrix(true);
+  setCameraOcclusion(couch, 'fade');
+  for (let i = 0; i < 60; i++) rig.update(target, 0, dt);
+  assert(rig.cameraDistance > 2, 'Furniture should not pull the camera in');
+  assert(Math.abs(couch.visibility - 0.3) < 1e-6, 'Furniture in the way should fade');
+  couch.position.x = 20;
+  couch.computeWorldMatrix(true);
+  for (let i = 0; i < 60; i++) rig.update(target, 0, dt);
+  assert(couch.visibility === 1, 'Furniture should come back once it is out of the way');
+  
+  scene.getEngine().dispose();
+});
+
+// Test 28: Check the map, cinematic and photo mode cameras
+await test('Map view cuts away ceilings, cinematic view films from a clear point, photo mode flies', async () => {
+  const { NullEngine, Scene, UniversalCamera, MeshBuilder, Vector3 } = await import('@babylonjs/core');
+  const { OverheadCamera } = await loadTsModule('src/game/OverheadCamera.ts');
+  const { CinematicCamera } = await loadTsModule('src/game/CinematicCamera.ts');
+  const { PhotoMode, PHOTO_FILTERS } = await loadTsModule('src/game/PhotoMode.ts');
+  
+  const scene = new Scene(new NullEngine());
+  const camera = new UniversalCamera('camera', Vector3.Zero(), scene);
+  const target = new Vector3(0, 1, 0);
+  const dt = 1 / 60;
+  
+  // The map looks down from above and clips everything over the cutaway
+  const overhead = new OverheadCamera(scene, camera);
+  overhead.update(target, 0.5, 0);
+  assert(camera.position.y > 15 && Math.abs(camera.position.x) < 1e-6, 'The map camera should be high above Bean');
+  assert(scene.clipPlane && Math.abs(scene.clipPlane.d + 8) < 1e-6, 'The cutaway should follow the floor');
+  overhead.zoom(0.01);
+  assert(overhead.height === 8, 'Map zoom should stop at the limit');
+  overhead.release();
+  assert(scene.clipPlane === null, 'Leaving the map should remove the cutaway');
+  
+  // The nearest point behind a wall is skipped for one that can see Bean
+  const wall = MeshBuilder.CreateBox('wall', { width: 20, height: 20, depth: 0.5 }, scene);
+  wall.position.z = 3;
+  wall.checkCollisions = true;
+  wall.computeWorldMatrix(true);
+  const cinematic = new CinematicCamera(scene, camera, () => false);
+  cinematic.setPoints([new Vector3(0, 3, 6), new Vector3(10, 5, -10)]);
+  const fov = camera.fov;
+  cinematic.update(target, 0);
+  assert(cinematic.shot === 1, 'The cinematic camera should film from the point with a clear view');
+  assert(camera.position.equals(new Vector3(10, 5, -10)), 'The camera should be at the chosen point');
+  assert(camera.fov < fov, 'A distant shot should zoom in on Bean');
+  
+  // Once nothing can see Bean it circles instead
+  const corner = MeshBuilder.CreateBox('corner', { width: 20, height: 20, depth: 0.5 }, scene);
+  corner.position.set(5, 1, -5);
+  corner.rotation.y = -Math.PI / 4;
+  corner.checkCollisions = true;
+  corner.computeWorldMatrix(true);
+  for (let i = 0; i < 60; i++) cinematic.update(target, dt);
+  assert(cinematic.shot === -1, 'With no clear point the camera should circle Bean');
+  cinematic.release();
+  assert(camera.fov === fov, 'Leaving the cinematic view should restore the field of view');
+  
+  // Photo mode flies within range of where it started and puts the camera back after
+  // Starting in first person, Bean's head stays out of shot until the camera flies clear of it
+  camera.position.set(1, 2, 3);
+  camera.layerMask = 0x0FFFFFFF;
+  const photo = new PhotoMode(scene, camera);
+  photo.enter();
+  assert(photo.isActive && !scene.animationsEnabled, 'Photo mode should pause animations');
+  assert(camera.layerMask === 0x0FFFFFFF, 'Bean should stay hidden while the camera is inside Bean');
+  for (let i = 0; i < 600; i++) photo.fly(1, 0, 0, true, dt);
+  assert(Math.abs(Vector3.Distance(camera.position, new Vector3(1, 2, 3)) - 15) < 1e-6, 'The photo camera should stay in range');
+  assert(camera.layerMask === 0xFFFFFFFF, 'Bean should show once the camera is clear');
+  PHOTO_FILTERS.forEach(() => photo.cycleFilter());
+  assert(photo.state.filter === 'none', 'Filters should cycle back round');
+  photo.exit();
+  assert(camera.position.equals(new Vector3(1, 2, 3)) && scene.animationsEnabled, 'Leaving photo mode should restore the camera');
+  assert(camera.layerMask === 0x0FFFFFFF, 'Leaving photo mode should restore the layer mask');
+  
+  scene.getEngine().dispose();
+});
+
+// Test 29: Check the clock moves the sun, colors the sky and switches lamps
+await test('Time of day blends the sky palette, moves the sun and turns lamps on at night', async () => {
+  const { NullEngine, Scene, DirectionalLight, HemisphericLight, Vector3 } = await import('@babylonjs/core');
+  const { TimeOfDay, sampleSky, sunDirection, DEFAULT_PALETTE } = await loadTsModule('src/game/TimeOfDay.ts');
+  const { DataWorld } = await loadTsModule('src/game/worlds/DataWorld.ts');
+  
+  // Keyframes are hit exactly and blended between, wrapping round midnight
+  const noon = sampleSky(DEFAULT_PALETTE, 12);
+  assert(noon.sunIntensity === 0.8 && noon.ambientIntensity === 0.6, 'Noon should match its keyframe');
+  const midnight = sampleSky(DEFAULT_PALETTE, 0);
+  assert(midnight.sky.equals(sampleSky(DEFAULT_PALETTE, 24).sky), 'The palette should wrap at midnight');
+  assert(midnight.sunIntensity < 0.2, 'Midnight should be dark');
+  const dawn = sampleSky(DEFAULT_PALETTE, 5.75);
+  assert(dawn.sunIntensity > 0.15 && dawn.sunIntensity < 0.4, 'Dawn should blend night into sunrise');
+  assert(sunDirection(12).y < -0.8, 'The noon sun should be high');
+  assert(sunDirection(7).x < 0 && sunDirection(17).x > 0, 'The sun should rise in the east and set in the west');
+  assert(sunDirection(0).y < 0, 'The moon should still light from above');
+  
+  const scene = new Scene(new NullEngine());
+  const sun = new DirectionalLight('sun', new Vector3(0, -1, 0), scene);
+  const ambient = new HemisphericLight('ambient', new Vector3(0, 1, 0), scene);
+  const clock = new TimeOfDay(scene, sun, ambient);
+  const lamps = [];
+  clock.onLampsChangedObservable.add(on => lamps.push(on));
+  
+  // A whole day passes in dayLength seconds, and lamps come on in the evening
+  clock.configure({ startHour: 18 });
+  clock.setDayLength(240);
+  for (let i = 0; i < 20; i++) clock.update(1);
+  assert(Math.abs(clock.hour - 20) < 1e-6, 'Ten seconds should be an hour with a four minute day');
+  assert(clock.lampsOn && lamps.at(-1) === true, 'Lamps should be on after dark');
+  assert(scene.clearColor.b < 0.5 && sun.intensity < 0.5, 'The sky should darken at night');
+  clock.setHour(9);
+  assert(!clock.lampsOn && sun.intensity > 0.6, 'Morning should be bright with the lamps off');
+  
+  // A world that opts out keeps fixed daylight and its lamps off
+  clock.configure({ enabled: false, startHour: 22 });
+  clock.update(100);
+  assert(!clock.lampsOn && sun.intensity === 0.8, 'Opting out should keep daylight');
+  
+  // Lamps in a world description switch with the clock
+  const world = new DataWorld(scene, {
+    version: 1,
+    name: 'Lamps',
+    materials: {},
+    spawnPoints: [{ name: 'default', position: [0, 0, 0] }],
+    objects: [{ name: 'lamp', type: 'lamp', position: [0, 3, 0], range: 5 }]
+  });
+  await world.init();
+  const light = scene.getLightByName('lampLight');
+  assert(light && !light.isEnabled(), 'Lamps should start off');
+  world.setLampsOn(true);
+  assert(light.isEnabled(), 'Lamps should switch on');
+  world.dispose();
+  
+  scene.getEngine().dispose();
+});
+
+// Test 30: Check worlds bring their own environment and the menu gets the defaults back
+await test('Environment profiles set fog, shadows and the clock per world and reset cleanly', async () => {
+  const { NullEngine, Scene, DirectionalLight, HemisphericLight, Vector3 } = await import('@babylonjs/core');
+  const { TimeOfDay } = await loadTsModule('src/game/TimeOfDay.ts');
+  const { EnvironmentManager, DEFAULT_ENVIRONMENT } = await loadTsModule('src/game/EnvironmentManager.ts');
+  const { ShadowService } = await loadTsModule('src/game/ShadowService.ts');
+  
+  const scene = new Scene(new NullEngine());
+  const sun = new DirectionalLight('sun', new Vector3(0, -1, 0), scene);
+  const ambient = new HemisphericLight('ambient', new Vector3(0, 1, 0), scene);
+  const shadows = new ShadowService(scene, sun, { mapSize: 512 });
+  const clock = new TimeOfDay(scene, sun, ambient);
+  const environment = new EnvironmentManager(scene, shadows, clock);
+  assert(scene.fogMode === Scene.FOGMODE_LINEAR && scene.fogEnd === DEFAULT_ENVIRONMENT.fog.end, 'The defaults should apply at once');
+  
+  environment.apply({ fog: { start: 40, end: 250 }, shadowDarkness: 0.6, timeOfDay: { enabled: false } });
+  assert(scene.fogStart === 40 && scene.fogEnd === 250, 'The world should set its fog');
+  assert(shadows.generator.getDarkness() === 0.6, 'The world should set its shadow darkness');
+  assert(!clock.isEnabled, 'The world should be able to stop the clock');
+  environment.setFogDistance(60, 200);
+  assert(scene.fogStart === 60 && scene.fogEnd === 250, 'The player\'s fog distances should push the fog out, not pull it in');
+  environment.setFogDistance(10, 100);
+  environment.setFogEnabled(false);
+  assert(scene.fogMode === Scene.FOGMODE_NONE, 'The fog setting should still turn fog off');
+  environment.setFogEnabled(true);
+  environment.apply({ fog: null });
+  assert(scene.fogMode === Scene.FOGMODE_NONE, 'A world without fog should stay clear');
+  
+  environment.reset();
+  assert(scene.fogMode === Scene.FOGMODE_LINEAR && scene.fogStart === 10, 'Resetting should bring the fog back');
+  assert(shadows.generator.getDarkness() === 0.3 && clock.isEnabled, 'Resetting should restore shadows and the clock');
+  assert(!scene.meshes.some(mesh => mesh.name === 'hdrSkyBox'), 'No skybox should be left behind');
+  
+  // A world with its own sky and reflections; the textures' requests are left pending
+  const { DataWorld } = await loadTsModule('src/game/worlds/DataWorld.ts');
+  class SkyWorld extends DataWorld {
+    environment = { skybox: '/assets/sky.env', environmentTexture: '/assets/sky.env', environmentIntensity: 0.7 };
+  }
+  const { XMLHttpRequest: realXMLHttpRequest } = globalThis;
+  const skyRequests = [];
+  globalThis.XMLHttpRequest = class {
+    open(_method, url) { skyRequests.push(url); }
+    send() {}
+    abort() {}
+    setRequestHeader() {}
+    addEventListener() {}
+    removeEventListener() {}
+  };
+  try {
+    const world = new SkyWorld(scene, {
+      version: 1,
+      name: 'Sky',
+      materials: {},
+      spawnPoints: [{ name: 'default', position: [0, 0, 0] }],
+      objects: []
+    });
+    await world.init();
+    environment.apply(world.getEnvironment());
+    // The texture loader is imported on demand, so the request goes out a little later
+    for (let i = 0; i < 200 && skyRequests.length === 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    assert(skyRequests.includes('/assets/sky.env'), 'The sky texture should be requested');
+    const skybox = scene.getMeshByName('hdrSkyBox');
+    assert(scene.environmentTexture?.name.includes('sky.env'), 'The world should set the environment texture');
+    assert(scene.environmentIntensity === 0.7, 'The world should set the environment intensity');
+    assert(skybox?.material.reflectionTexture?.name === scene.environmentTexture.name, 'The skybox should show the same sky');
+    assert(!skybox.applyFog, 'Fog should not cover the sky');
+    world.dispose();
+    environment.reset();
+    assert(!scene.environmentTexture && !scene.getMeshByName('hdrSkyBox'), 'Leaving the world should remove its sky');
+  } finally {
+    // Disposing aborts the pending request, which still needs the stand-in
+    scene.getEngine().dispose();
+    globalThis.XMLHttpRequest = realXMLHttpRequest;
+  }
+});
+
+// Test 31: Check shadow casters are budgeted and leave with their world
+await test('Shadow service budgets casters and drops them when their world is disposed', async () => {
+  const { NullEngine, Scene, DirectionalLight, MeshBuilder, Vector3, CascadedShadowGenerator } = await import('@babylonjs/core');
+  const { ShadowService } = await loadTsModule('src/game/ShadowService.ts');
+  const { DataWorld } = await loadTsModule('src/game/worlds/DataWorld.ts');
+  
+  const scene = new Scene(new NullEngine());
+  const sun = new DirectionalLight('sun', new Vector3(0, -1, 0), scene);
+  const shadows = new ShadowService(scene, sun, { maxCasterVertices: 1000, vertexBudget: 1200 });
+  assert(ShadowService.get(scene) === shadows, 'The service should be found from its scene');
+  
+  // Big meshes and anything past the budget are left out, unless essential
+  const dense = MeshBuilder.CreateSphere('dense', { segments: 32 }, scene);
+  assert(!shadows.addCaster(dense), 'A mesh over the per-mesh limit should not cast');
+  assert(shadows.addCaster(dense, true), 'Essential casters should skip the limit');
+  const box = MeshBuilder.CreateBox('box', {}, scene);
+  assert(!shadows.addCaster(box), 'A mesh past the budget should not cast');
+  dense.dispose();
+  assert(!shadows.hasCaster(dense) && shadows.vertices === 0, 'Disposed meshes should leave the shadow map');
+  assert(shadows.addCaster(box) && shadows.generator.getShadowMap().renderList.includes(box), 'Freed budget should be reusable');
+  
+  // Casters survive switching to cascades, or stay on one map where cascades aren't supported
+  shadows.setCascaded(true);
+  assert(shadows.cascaded === CascadedShadowGenerator.IsSupported, 'Cascades should only be used where supported');
+  assert(shadows.generator.getShadowMap().renderList.includes(box), 'Casters should carry over to the new generator');
+  shadows.setCascaded(false);
+  box.dispose();
+  
+  const world = new DataWorld(scene, {
+    version: 1,
+    name: 'Shadows',
+    materials: {},
+    spawnPoints: [{ name: 'default', position: [0, 0, 0] }],
+    objects: [{ name: 'crate', type: 'box', size: [1, 1, 1] }]
+  });
+  await world.init();
+  const crate = scene.getMeshByName('crate');
+  assert(shadows.hasCaster(crate) && crate.receiveShadows, 'World meshes should cast and receive shadows');
+  world.dispose();
+  assert(shadows.generator.getShadowMap().renderList.length === 0, 'No casters should outlive their world');
+  
+  shadows.dispose();
+  scene.getEngine().dispose();
+});
+
+// Test 32: Check worlds report loading progress and stop when cancelled
+await test('Worlds report load progress and stop when the load is cancelled', async () => {
+  const { NullEngine, Scene, FreeCamera, Vector3 } = await import('@babylonjs/core');
+  const { DataWorld } = await loadTsModule('src/game/worlds/DataWorld.ts');
+  
+  const scene = new Scene(new NullEngine());
+  const description = {
+    version: 1,
+    name: 'Loading',
+    materials: {},
+    spawnPoints: [{ name: 'default', position: [0, 0, 0] }],
+    objects: Array.from({ length: 25 }, (_, i) => ({ name: `box-${i}`, type: 'box', size: [1, 1, 1] }))
+  };
+  const chunks = Math.ceil(description.objects.length / 10);
+  
+  const progress = [];
+  const world = new DataWorld(scene, description);
+  await world.init({ onProgress: update => progress.push(update) });
+  const fractions = progress.map(update => update.fraction).filter(fraction => fraction >= 0);
+  assert(fractions.every((fraction, i) => i === 0 || fraction > fractions[i - 1]), 'Progress should only move forward');
+  assert(progress.some(update => update.message.includes('box-10')), 'Progress should say what is being built');
+  assert(fractions.length === chunks, `Progress should be reported once per chunk of objects, got ${fractions.length}`);
+  assert(world.getLoadWarnings().length === 0, 'A clean load should have no warnings');
+  world.dispose();
+  
+  // With the game's render loop running, each chunk waits for a drawn frame so the progress shows
+  const engine = scene.getEngine();
+  new FreeCamera('camera', Vector3.Zero(), scene);
+  let frames = 0;
+  const frameObserver = scene.onAfterRenderObservable.add(() => frames++);
+  engine.runRenderLoop(() => scene.render());
+  const rendered = new DataWorld(scene, description);
+  await rendered.init();
+  engine.stopRenderLoop();
+  scene.onAfterRenderObservable.remove(frameObserver);
+  assert(frames >= chunks, 'Each chunk should be built after a rendered frame');
+  assert(frames < description.objects.length, 'Small objects should not wait a frame each');
+  rendered.dispose();
+  
+  // Cancelling part way stops before the rest of the world is built
+  const controller = new AbortController();
+  const cancelled = new DataWorld(scene, description);
+  let error;
+  try {
+    await cancelled.init({
+      signal: controller.signal,
+      onProgress: update => { if (update.message.includes('box-10')) controller.abort(); }
+    });
+  } catch (e) {
+    error = e;
+  }
+  assert(error?.name === 'AbortError', 'A cancelled load should reject with an AbortError');
+  assert(scene.getMeshByName('box-9') && !scene.getMeshByName('box-10'), 'Nothing should be built after cancelling');
+  cancelled.dispose();
+  assert(!scene.getMeshByName('box-0'), 'Disposing a cancelled world should clear what it built');
+  
+  scene.getEngine().dispose();
+});
+
+// Test 33: Check assets are downloaded once, cached and shared between visits
+await test('Asset manager downloads each asset once and keeps it cached and parsed', async () => {
+  const { NullEngine, Scene } = await import('@babylonjs/core');
+  await import('@babylonjs/loaders/glTF/index.js');
+  const { createHash } = await import('crypto');
+  const { AssetManager } = await loadTsModule('src/assets/AssetManager.ts');
+  
+  // A one-triangle GLB: header, JSON chunk and binary chunk
+  const positions = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+  const json = new TextEncoder().encode(JSON.stringify({
+    asset: { version: '2.0' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ name: 'crate', mesh: 0 }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+    accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 0] }],
+    bufferViews: [{ buffer: 0, byteLength: positions.byteLength }],
+    buffers: [{ byteLength: positions.byteLength }]
+  }));
+  const jsonLength = Math.ceil(json.length / 4) * 4;
+  const glb = new Uint8Array(12 + 8 + jsonLength + 8 + positions.byteLength);
+  const view = new DataView(glb.buffer);
+  view.setUint32(0, 0x46546C67, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, glb.length, true);
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, 0x4E4F534A, true);
+  glb.fill(0x20, 20, 20 + jsonLength);
+  glb.set(json, 20);
+  view.setUint32(20 + jsonLength, positions.byteLength, true);
+  view.setUint32(24 + jsonLength, 0x004E4942, true);
+  glb.set(new Uint8Array(positions.buffer), 28 + jsonLength);
+  
+  const manifest = {
+    version: 1,
+    assets: {
+      crate: { url: '/assets/crate.glb', size: glb.length, sha256: createHash('sha256').update(glb).digest('hex'), world: 'crates' }
+    }
+  };
+  
+  // Stand-ins for the network and Cache Storage
+  const { fetch: realFetch } = globalThis;
+  const requests = [];
+  const stored = new Map();
+  globalThis.fetch = async (url, { signal } = {}) => {
+    signal?.throwIfAborted();
+    requests.push(url);
+    return new Response(glb.slice());
+  };
+  globalThis.caches = {
+    open: async () => ({
+      match: async url => stored.get(url)?.clone(),
+      put: async (url, response) => { stored.set(url, response); }
+    })
+  };
+  
+  try {
+    const scene = new Scene(new NullEngine());
+    const assets = new AssetManager(scene, manifest);
+    assert(AssetManager.get(scene) === assets, 'The manager should be found from its scene');
+    
+    // Two loads at once share one download
+    const progress = [];
+    const [first, second] = await Promise.all([
+      assets.loadContainer('crate', { onProgress: update => progress.push(update) }),
+      assets.loadContainer('crate')
+    ]);
+    assert(first === second && requests.length === 1, 'Concurrent loads should share one download');
+    assert(progress.at(-1).loaded === glb.length && progress.at(-1).total === glb.length, 'Progress should count bytes against the manifest size');
+    assert(stored.get('/assets/crate.glb')?.headers.get('X-Asset-SHA256') === manifest.assets.crate.sha256, 'Downloads should be cached with their hash');
+    
+    // Each visit gets its own copy; disposing it leaves the asset ready for the next one
+    const visit = await assets.instantiate('crate');
+    const crate = visit.rootNodes[0].getChildMeshes().find(mesh => mesh.name === 'crate');
+    assert(crate && crate.getTotalVertices() === 3, 'Instantiated meshes should be in the scene');
+    visit.dispose();
+    const again = await assets.instantiate('crate');
+    assert(again.rootNodes[0].getChildMeshes()[0].getTotalVertices() === 3, 'The asset should survive its copies being disposed');
+    assert(requests.length === 1 && assets.isLoaded('crate'), 'Coming back should not download again');
+    scene.dispose();
+    assert(!AssetManager.get(scene), 'The manager should go with its scene');
+    
+    // A new session reads the file from Cache Storage instead of the network
+    const nextScene = new Scene(new NullEngine());
+    const nextAssets = new AssetManager(nextScene, manifest);
+    await nextAssets.preloadWorld('crates');
+    assert(nextAssets.isLoaded('crate') && requests.length === 1, 'Cached files should be used across sessions');
+    
+    // A file that doesn't match the manifest is used but not cached
+    stored.clear();
+    const stale = new AssetManager(nextScene, { version: 1, assets: { crate: { ...manifest.assets.crate, sha256: '0'.repeat(64) } } });
+    await stale.loadContainer('crate');
+    assert(requests.length === 2 && stored.size === 0, 'Files with the wrong hash should not be cached');
+    
+    // Cancelling the only load stops it
+    stale.release('crate');
+    const controller = new AbortController();
+    const cancelled = stale.loadContainer('crate', { signal: controller.signal });
+    controller.abort();
+    let error;
+    try {
+      await cancelled;
+    } catch (e) {
+      error = e;
+    }
+    assert(error?.name === 'AbortError', 'A cancelled load should reject with an AbortError');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    assert(!stale.isLoaded('crate'), 'A load nobody is waiting for should be dropped');
+    
+    // Manifests are checked before anything is looked up in them
+    let invalid;
+    try {
+      await new AssetManager(nextScene, { version: 1, assets: { crate: { url: '/assets/crate.glb', size: '12' } } }).getManifest();
+    } catch (e) {
+      invalid = e;
+    }
+    assert(invalid?.message.includes('"crate"'), 'An invalid manifest entry should be reported by name');
+    nextScene.dispose();
+  } finally {
+    globalThis.fetch = realFetch;
+    delete globalThis.caches;
+  }
+});
+
+// Test 34: Check the on-screen stick, look area and buttons reach the controls
+await test('Touch controls drive movement, look, pinch zoom and button actions', async () => {
+  const { TouchControls } = await loadTsModule('src/controls/TouchControls.ts');
+  const { InputActions } = await loadTsModule('src/controls/InputActions.ts');
+  
+  // Just enough DOM for the controls to build their elements and take pointer events
+  class FakeElement {
+    constructor(tag) {
+      this.tag = tag;
+      this.className = '';
+      this.style = {};
+      this.children = [];
+      this.listeners = new Map();
+    }
+    appendChild(child) { this.children.push(child); }
+    addEventListener(type, listener) {
+      this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+    }
+    setPointerCapture() {}
+    getBoundingClientRect() { return { left: 0, top: 0, width: 100, height: 100 }; }
+    dispatch(type, event) {
+      (this.listeners.get(type) ?? []).forEach(listener => listener({ target: this, preventDefault: () => {}, ...event }));
+    }
+  }
+  const elements = [];
+  const windowListeners = new FakeElement('window');
+  globalThis.document = {
+    body: new FakeElement('body'),
+    createElement: (tag) => {
+      const element = new FakeElement(tag);
+      elements.push(element);
+      return element;
+    }
+  };
+  globalThis.window = windowListeners;
+  globalThis.navigator = { maxTouchPoints: 0 };
+  const find = (className, text) => elements.find(element => element.className === className && (text === undefined || element.textContent === text));
+  
+  try {
+    const inputs = new InputActions({ getItem: () => null, setItem: () => {}, removeItem: () => {} });
+    const touch = new TouchControls(inputs);
+    touch.init();
+    assert(!touch.isActive(), 'Touch controls should stay off on a mouse-only screen');
+    windowListeners.dispatch('pointerdown', { pointerType: 'mouse' });
+    assert(!touch.isActive(), 'A mouse click should not turn on touch controls');
+    windowListeners.dispatch('pointerdown', { pointerType: 'touch' });
+    assert(touch.isActive(), 'The first touch should turn on touch controls');
+    touch.setVisible(true);
+    assert(document.body.children[0]?.style.display === 'block', 'The controls should show while playing');
+    
+    // The stick's centre is (50, 50) and its knob travels 50 px
+    const stick = find('touch-stick');
+    stick.dispatch('pointerdown', { pointerId: 1, clientX: 50, clientY: 25 });
+    let move = touch.getMove();
+    assert(move.x === 0 && Math.abs(move.y - 0.5) < 1e-9, `Pushing the stick halfway up should walk forward at half speed, got ${JSON.stringify(move)}`);
+    stick.dispatch('pointermove', { pointerId: 1, clientX: 250, clientY: 50 });
+    move = touch.getMove();
+    assert(move.x === 1 && move.y === 0, 'Pushing past the edge should strafe at full speed');
+    stick.dispatch('pointermove', { pointerId: 2, clientX: 50, clientY: 100 });
+    assert(touch.getMove().x === 1, 'Another finger should not move the stick');
+    stick.dispatch('pointerup', { pointerId: 1 });
+    move = touch.getMove();
+    assert(move.x === 0 && move.y === 0, 'Letting go of the stick should stop Bean');
+    
+    // One finger dragging looks around; the drag is handed over once
+    const lookArea = find('touch-look');
+    lookArea.dispatch('pointerdown', { pointerId: 3, clientX: 300, clientY: 200 });
+    lookArea.dispatch('pointermove', { pointerId: 3, clientX: 320, clientY: 190 });
+    lookArea.dispatch('pointermove', { pointerId: 3, clientX: 330, clientY: 195 });
+    let look = touch.consumeLook();
+    assert(look.x === 30 && look.y === -5, `Dragging should look by the distance moved, got ${JSON.stringify(look)}`);
+    look = touch.consumeLook();
+    assert(look.x === 0 && look.y === 0, 'The drag should only be reported once');
+    
+    // A second finger turns the drag into a pinch; spreading them zooms in
+    lookArea.dispatch('pointerdown', { pointerId: 4, clientX: 430, clientY: 195 });
+    lookArea.dispatch('pointermove', { pointerId: 4, clientX: 530, clientY: 195 });
+    const zoom = touch.consumeZoom();
+    assert(Math.abs(zoom - 0.5) < 1e-9, `Doubling the gap between fingers should halve the distance, got ${zoom}`);
+    assert(touch.consumeZoom() === 1, 'The pinch should only be reported once');
+    look = touch.consumeLook();
+    assert(look.x === 0 && look.y === 0, 'Pinching should not look around');
+    lookArea.dispatch('pointerup', { pointerId: 4 });
+    lookArea.dispatch('pointermove', { pointerId: 3, clientX: 340, clientY: 195 });
+    assert(touch.consumeLook().x === 10, 'Lifting one finger should go back to looking');
+    lookArea.dispatch('pointerup', { pointerId: 3 });
+    
+    // Buttons press their touch bindings, and hiding the controls lets go of them
+    const jump = find('touch-button', 'Jump');
+    jump.dispatch('pointerdown', { pointerId: 5 });
+    assert(inputs.isActive('Jump'), 'The Jump button should press Jump');
+    jump.dispatch('pointerup', { pointerId: 5 });
+    assert(!inputs.isActive('Jump'), 'Letting go of Jump should release it');
+    find('touch-button', 'View').dispatch('pointerdown', { pointerId: 6 });
+    assert(inputs.isActive('SwitchView'), 'The View button should switch views');
+    stick.dispatch('pointerdown', { pointerId: 7, clientX: 0, clientY: 50 });
+    touch.setVisible(false);
+    assert(!inputs.isActive('SwitchView') && touch.getMove().x === 0, 'Hiding the controls should let go of everything');
+    assert(document.body.children[0].style.display === 'none', 'The controls should hide in menus');
+  } finally {
+    delete globalThis.document;
+    delete globalThis.window;
+    delete globalThis.navigator;
+  }
+});
+
 console.log('\n============================');
 console.log(`Tests passed: ${testsPass}`);
 console.log(`Tests failed: ${testsFail}`);